@@ -3,147 +3,377 @@ import LoginScreen from './components/LoginScreen';
 import NurseDashboard from './components/NurseDashboard';
 import EducatorDashboard from './components/EducatorDashboard';
 import CoursePlayer from './components/CoursePlayer';
-import { User, Course, AuthState, QuizAttempt } from './types';
-import { INITIAL_USERS, INITIAL_COURSES } from './services/mockData';
-import { api } from './services/api';
-import { Loader2, WifiOff } from 'lucide-react';
+import ToastStack from './components/ToastStack';
+import { User, Course, CourseContent, CourseVersion, CourseTemplate, Badge, CourseProgress, AuthState, QuizAttempt, AssessmentAttempt, VideoWatch, ScenarioDecision, LoginLockout, PinResetCode, PinResetRecord } from './types';
+import { api, ApiError, getSession } from './services/api';
+import { offlineQueue } from './services/offlineQueue';
+import { toPublicUser } from './services/auth';
+import { notifications } from './services/notifications';
+import { loadConfig, DataProviderKind } from './services/config';
+import { createDataProvider } from './services/dataProvider';
+import { recordStreakActivity, currentStreak } from './services/streak';
+import { awardBadges } from './services/badgeRules';
+import { localProgress, mergeProgress, resumePoint } from './services/courseProgress';
+import { attemptsLeft, isLockedOut, withAttempt } from './services/assessment';
+import { saveDraft, publishDraft, rollBack, currentVersion, setArchived } from './services/courseVersions';
+import { ReviewItem, nextReviewSession, buildReviewCourse, toReviewAttempt } from './services/review';
+import { Loader2, WifiOff, RefreshCw, Database } from 'lucide-react';
+
+// How often to retry sending queued writes while any are pending
+const SYNC_RETRY_MS = 30 * 1000;
+
+const config = loadConfig();
 
 function App() {
   // --- App State ---
   const [users, setUsers] = useState<User[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
+  const [badges, setBadges] = useState<Badge[]>([]);
+  const [templates, setTemplates] = useState<CourseTemplate[]>([]); // Saved by educators; empty for nurses
   const [isLoading, setIsLoading] = useState(true);
   const [isOffline, setIsOffline] = useState(false);
+  const [dataSource, setDataSource] = useState<DataProviderKind>(config.dataProvider);
+  const [pendingWrites, setPendingWrites] = useState(0);
 
-  const [auth, setAuth] = useState<AuthState>({ isAuthenticated: false, currentUser: null });
+  const [auth, setAuth] = useState<AuthState>({ isAuthenticated: false, currentUser: null, token: null });
   
   // UI State
   const [activeCourse, setActiveCourse] = useState<Course | null>(null);
+  const [activeReview, setActiveReview] = useState<ReviewItem[] | null>(null); // Questions in the review session being played
   const [changePinMode, setChangePinMode] = useState(false);
   const [loginError, setLoginError] = useState<string | undefined>(undefined);
+  const [loginLockout, setLoginLockout] = useState<LoginLockout | null>(null);
 
-  // --- Initial Data Fetch ---
+  // --- Initial Connection Check ---
+  // Data itself is only fetched after login, since every data action needs a session
   useEffect(() => {
-    const fetchData = async () => {
+    const checkConnection = async () => {
+      api.useProvider(createDataProvider(config.dataProvider, config, getSession));
       try {
         setIsLoading(true);
-        // Fetch from API
-        const [fetchedUsers, fetchedCourses] = await Promise.all([
-          api.getUsers(),
-          api.getCourses()
-        ]);
-        
-        setUsers(fetchedUsers);
-        setCourses(fetchedCourses);
+        await api.ping();
         setIsOffline(false);
       } catch (error) {
-        console.error("Failed to connect to backend. Falling back to Mock Data.", error);
-        // Fallback to initial mock data if API fails (or dev mode without backend)
-        setUsers(INITIAL_USERS);
-        setCourses(INITIAL_COURSES);
         setIsOffline(true);
+        if (!config.fallbackProvider) {
+          console.error("Failed to connect to backend.", error);
+          return;
+        }
+        // Fall back to the configured local provider (or dev mode without backend)
+        console.error(`Failed to connect to backend. Falling back to the ${config.fallbackProvider} provider.`, error);
+        api.useProvider(createDataProvider(config.fallbackProvider, config, getSession));
+        setDataSource(config.fallbackProvider);
       } finally {
         setIsLoading(false);
       }
     };
 
-    fetchData();
+    checkConnection();
   }, []);
 
+  // While the backend is unreachable, keep checking it and switch back once it answers.
+  // A session on the fallback's mock data ends then, so the nurse signs in to the real one.
+  useEffect(() => {
+    if (isLoading || !isOffline) return;
+
+    const primary = createDataProvider(config.dataProvider, config, getSession);
+    const recheck = () => {
+      primary.ping()
+        .then(() => {
+          if (dataSource !== primary.kind) {
+            api.useProvider(primary);
+            setDataSource(primary.kind);
+            if (getSession()) {
+              endSession();
+              notifications.info("Connected to the server again. Please sign in to continue.");
+            }
+          }
+          setIsOffline(false);
+        })
+        .catch(() => { /* Still unreachable; checked again shortly */ });
+    };
+
+    window.addEventListener('online', recheck);
+    const timer = setInterval(recheck, SYNC_RETRY_MS);
+    return () => {
+      window.removeEventListener('online', recheck);
+      clearInterval(timer);
+    };
+  }, [isLoading, isOffline, dataSource]);
+
+  // --- Offline Write Queue ---
+  useEffect(() => offlineQueue.subscribe(setPendingWrites), []);
+
+  // Replay queued writes when signed in, whenever the queue grows, when the browser reports
+  // it is back online, and periodically while anything is still waiting
+  useEffect(() => {
+    if (!auth.isAuthenticated || pendingWrites === 0) return;
+
+    const sync = () => {
+      api.flushQueue()
+        .then(rejected => rejected.forEach(reportApiError("A change made earlier was not saved")))
+        .catch(e => console.error("Queue replay failed", e));
+    };
+
+    sync();
+    window.addEventListener('online', sync);
+    const timer = setInterval(sync, SYNC_RETRY_MS);
+    return () => {
+      window.removeEventListener('online', sync);
+      clearInterval(timer);
+    };
+  }, [auth.isAuthenticated, pendingWrites, dataSource]);
+
   // --- Handlers ---
 
-  const handleLogin = (id: string, pin: string) => {
-    const user = users.find(u => u.id === id && u.pin === pin);
-    if (user) {
-      setAuth({ isAuthenticated: true, currentUser: user });
+  const endSession = () => {
+    api.setSession(null);
+    setAuth({ isAuthenticated: false, currentUser: null, token: null });
+    setActiveCourse(null);
+    setChangePinMode(false);
+  };
+
+  // Logs API failures and tells the user, in a toast, that the action did not go through
+  const reportApiError = (context: string) => (error: unknown) => {
+    console.error(context, error);
+    if (!(error instanceof ApiError)) {
+      notifications.error(`${context}. Please try again.`);
+      return;
+    }
+    notifications.error(`${context}: ${error.message}`);
+    if (error.code === 'unauthenticated') {
+      endSession();
+    }
+  };
+
+  // Persists a PIN change. The PIN is sent once and never kept in app state.
+  const savePin = (user: User, pin: string) => {
+    api.saveUser({ ...user, pin })
+      .then(() => notifications.success("PIN updated successfully."))
+      .catch(reportApiError("Your PIN was not changed"));
+  };
+
+  const handleLogin = async (id: string, pin: string) => {
+    try {
+      // PINs are checked by the data provider, never against `users`
+      const session = await api.login(id, pin);
+      api.setSession(session);
+
+      const [fetchedUsers, fetchedCourses, fetchedBadges, fetchedTemplates] = await Promise.all([
+        api.getUsers(),
+        api.getCourses(),
+        api.getBadges(),
+        session.user.role === 'Educator' ? api.getTemplates() : Promise.resolve([])
+      ]);
+      setCourses(fetchedCourses);
+      setBadges(fetchedBadges);
+      setTemplates(fetchedTemplates);
+
+      // Prefer the loaded record, which carries the quiz history. Resume points saved on this
+      // device may be newer than the backend's if they are still waiting to sync.
+      const loaded = fetchedUsers.find(u => u.id === session.user.id) || session.user;
+      const user = {
+        ...toPublicUser(loaded),
+        courseProgress: mergeProgress(loaded.courseProgress || [], localProgress.load(loaded.id))
+      };
+      setUsers(fetchedUsers.map(u => u.id === user.id ? user : u));
+      setAuth({ isAuthenticated: true, currentUser: user, token: session.token });
       setLoginError(undefined);
-    } else {
-      setLoginError('Invalid Staff ID or PIN');
+      setLoginLockout(null);
+    } catch (error) {
+      console.error("Login failed", error);
+      api.setSession(null);
+
+      if (!(error instanceof ApiError) || error.action !== 'login') {
+        setLoginError('Could not load your training data. Please try again.');
+        return;
+      }
+
+      // Failed, throttled and locked logins all carry the earliest time the next attempt is allowed
+      const { retryAt, attemptsRemaining } = error.details;
+      if (retryAt) {
+        setLoginLockout({ staffId: id, status: error.code === 'locked' ? 'locked' : 'throttled', retryAt });
+      }
+
+      if (error.code === 'locked') {
+        setLoginError('Too many failed attempts. This account is locked.');
+        setUsers(prev => prev.map(u => u.id === id ? { ...u, lockedUntil: retryAt } : u));
+      } else if (error.code === 'throttled') {
+        setLoginError('Too many attempts. Please wait before trying again.');
+      } else if (attemptsRemaining !== undefined && attemptsRemaining <= 2) {
+        setLoginError(`Invalid Staff ID or PIN. ${attemptsRemaining} attempt${attemptsRemaining === 1 ? '' : 's'} left before lockout.`);
+      } else {
+        setLoginError('Invalid Staff ID or PIN');
+      }
     }
   };
 
-  const handleResetPin = (id: string, newPin: string): boolean => {
-    const userIndex = users.findIndex(u => u.id === id);
-    if (userIndex !== -1) {
-      const updatedUser = { ...users[userIndex], pin: newPin };
-      
-      // Update State
-      const updatedUsers = [...users];
-      updatedUsers[userIndex] = updatedUser;
-      setUsers(updatedUsers);
-
-      // API Call
-      api.saveUser(updatedUser).catch(e => console.error("API Sync Error", e));
-      return true;
+  // Redeems an educator-issued one-time code. Resolves to an error message, or undefined on success.
+  const handleResetPin = async (id: string, code: string, newPin: string): Promise<string | undefined> => {
+    try {
+      await api.resetPin(id, code, newPin);
+      // A verified reset also clears any login lockout
+      setLoginLockout(null);
+      setUsers(prev => prev.map(u => u.id === id ? { ...u, lockedUntil: undefined } : u));
+      return undefined;
+    } catch (error) {
+      console.error("PIN reset failed", error);
+      return error instanceof ApiError && error.code === 'invalid'
+        ? error.message
+        : 'Could not reset your PIN. Please try again.';
     }
-    return false;
   };
 
   const handleLogout = () => {
-    setAuth({ isAuthenticated: false, currentUser: null });
-    setActiveCourse(null);
-    setChangePinMode(false);
+    api.logout().catch(e => console.error("Logout Error", e));
+    endSession();
   };
 
   const handleChangePin = () => {
     const newPin = prompt("Enter new 4-digit PIN:");
     if (newPin && newPin.length === 4 && !isNaN(Number(newPin)) && auth.currentUser) {
-       const updatedUser = { ...auth.currentUser, pin: newPin };
-       
-       const updatedUsers = users.map(u => 
-         u.id === auth.currentUser!.id ? updatedUser : u
-       );
-       
-       setUsers(updatedUsers);
-       setAuth(prev => ({ ...prev, currentUser: updatedUser }));
-       
-       // API Call
-       api.saveUser(updatedUser).catch(e => console.error("API Sync Error", e));
-
-       alert("PIN updated successfully.");
+       savePin(auth.currentUser, newPin);
     } else if (newPin) {
        alert("Invalid PIN format. Must be 4 digits.");
     }
   };
 
+  const announceNewBadges = (before: User, after: User) => {
+    after.badges
+      .filter(id => !before.badges.includes(id))
+      .forEach(id => {
+        const badge = badges.find(b => b.id === id);
+        if (badge) notifications.success(`${badge.icon} Badge earned: ${badge.name}`);
+      });
+  };
+
   const handleStartCourse = (course: Course) => {
+    if (auth.currentUser && isLockedOut(auth.currentUser, course)) {
+      notifications.error("No attempts left for this assessment. Please speak to your educator.");
+      return;
+    }
     setActiveCourse(course);
   };
 
   // Triggered on every quiz answer attempt
-  const handleQuizAttempt = (courseId: string, slideId: string, question: string, answer: string, isCorrect: boolean) => {
+  const handleQuizAttempt = (answer: Omit<QuizAttempt, 'timestamp'>) => {
     if (!auth.currentUser) return;
     
-    const attempt: QuizAttempt = {
-      courseId,
-      slideId,
-      question,
-      selectedOption: answer,
-      isCorrect,
-      timestamp: Date.now()
-    };
+    const attempt: QuizAttempt = { ...answer, timestamp: Date.now() };
 
-    // 1. Optimistic UI Update
-    const updatedUser = { 
+    // 1. Optimistic UI Update (answering counts as the day's learning activity)
+    const answered = { 
       ...auth.currentUser, 
       quizAttempts: [...(auth.currentUser.quizAttempts || []), attempt] 
     };
+    const updatedUser = awardBadges(
+      recordStreakActivity(answered, attempt.timestamp, config.streak),
+      badges, courses, { type: 'quiz_answered' }
+    );
+    announceNewBadges(answered, updatedUser);
 
     const updatedUsers = users.map(u => u.id === auth.currentUser!.id ? updatedUser : u);
     setUsers(updatedUsers);
     setAuth(prev => ({ ...prev, currentUser: updatedUser }));
 
     // 2. Send to API
-    api.logQuizAttempt(auth.currentUser.id, attempt).catch(e => console.error("Failed to log attempt", e));
+    api.logQuizAttempt(auth.currentUser.id, attempt).catch(reportApiError("Your answer was not recorded"));
+    if (updatedUser.lastActiveDay !== answered.lastActiveDay || updatedUser.badges !== answered.badges) {
+      api.updateUserProgress(updatedUser).catch(reportApiError("Your progress was not saved"));
+    }
+  };
+
+  const handleStartReview = () => {
+    if (!auth.currentUser) return;
+    const items = nextReviewSession(auth.currentUser, courses, Date.now());
+    if (items.length === 0) {
+      notifications.info("Nothing to review right now. Check back later.");
+      return;
+    }
+    setActiveReview(items);
   };
 
-  const handleCompleteCourse = (courseId: string, earnedXp: number) => {
+  // Like a course answer (it counts for the streak), but logged apart from the course quiz history
+  const handleReviewAttempt = (answer: Omit<QuizAttempt, 'timestamp'>) => {
+    if (!auth.currentUser || !activeReview) return;
+
+    const attempt: QuizAttempt = { ...toReviewAttempt(answer, activeReview), timestamp: Date.now() };
+    const answered = {
+      ...auth.currentUser,
+      reviewAttempts: [...(auth.currentUser.reviewAttempts || []), attempt]
+    };
+    const updatedUser = awardBadges(
+      recordStreakActivity(answered, attempt.timestamp, config.streak),
+      badges, courses, { type: 'quiz_answered' }
+    );
+    announceNewBadges(answered, updatedUser);
+
+    setUsers(prev => prev.map(u => u.id === updatedUser.id ? updatedUser : u));
+    setAuth(prev => ({ ...prev, currentUser: updatedUser }));
+
+    api.logReviewAttempt(updatedUser.id, attempt).catch(reportApiError("Your review answer was not recorded"));
+    if (updatedUser.lastActiveDay !== answered.lastActiveDay || updatedUser.badges !== answered.badges) {
+      api.updateUserProgress(updatedUser).catch(reportApiError("Your progress was not saved"));
+    }
+  };
+
+  // Replaces (or, with `null`, drops) the current user's resume point for a course.
+  // State is updated functionally since a quiz answer can update the same user in the same tick.
+  const saveCourseProgress = (courseId: string, progress: CourseProgress | null) => {
+    if (!auth.currentUser) return;
+    const userId = auth.currentUser.id;
+    const others = (auth.currentUser.courseProgress || []).filter(p => p.courseId !== courseId);
+    const courseProgress = progress ? [...others, progress] : others;
+
+    const apply = (u: User): User => u.id === userId ? { ...u, courseProgress } : u;
+    setUsers(prev => prev.map(apply));
+    setAuth(prev => ({ ...prev, currentUser: prev.currentUser && apply(prev.currentUser) }));
+
+    localProgress.save(userId, courseProgress);
+    api.saveCourseProgress(userId, courseId, progress).catch(reportApiError("Your place in the course was not saved"));
+  };
+
+  const handleCourseProgress = (progress: CourseProgress) => saveCourseProgress(progress.courseId, progress);
+
+  // Unfinished as a graded run starts, then passed or not; a pass is then completed through handleCompleteCourse
+  const handleAssessmentSubmit = (attempt: AssessmentAttempt) => {
+    if (!auth.currentUser) return;
+    const userId = auth.currentUser.id;
+
+    const apply = (u: User): User => u.id === userId ? { ...u, assessmentAttempts: withAttempt(u.assessmentAttempts || [], attempt) } : u;
+    setUsers(prev => prev.map(apply));
+    setAuth(prev => ({ ...prev, currentUser: prev.currentUser && apply(prev.currentUser) }));
+
+    api.logAssessmentAttempt(userId, attempt).catch(reportApiError("Your assessment result was not recorded"));
+  };
+
+  const handleVideoWatch = (watch: VideoWatch) => {
+    if (!auth.currentUser) return;
+    const userId = auth.currentUser.id;
+
+    const apply = (u: User): User => u.id === userId ? { ...u, videoWatches: [...(u.videoWatches || []), watch] } : u;
+    setUsers(prev => prev.map(apply));
+    setAuth(prev => ({ ...prev, currentUser: prev.currentUser && apply(prev.currentUser) }));
+
+    api.logVideoWatch(userId, watch).catch(reportApiError("Your watch time was not recorded"));
+  };
+
+  const handleScenarioDecision = (decision: ScenarioDecision) => {
+    if (!auth.currentUser) return;
+    const userId = auth.currentUser.id;
+
+    const apply = (u: User): User => u.id === userId ? { ...u, scenarioDecisions: [...(u.scenarioDecisions || []), decision] } : u;
+    setUsers(prev => prev.map(apply));
+    setAuth(prev => ({ ...prev, currentUser: prev.currentUser && apply(prev.currentUser) }));
+
+    api.logScenarioDecision(userId, decision).catch(reportApiError("Your choice was not recorded"));
+  };
+
+  const handleCompleteCourse = (courseId: string, earnedXp: number, maxXp: number) => {
     if (!auth.currentUser) return;
     
-    // Find course to get max possible XP for badge calculation
-    const course = courses.find(c => c.id === courseId);
-    const maxPossibleXp = course ? course.slides.length * 50 : 0;
-    const isPerfectScore = earnedXp === maxPossibleXp && maxPossibleXp > 0;
+    // Measured against the path actually played, since a branching course skips slides
+    const isPerfectScore = earnedXp === maxXp && maxXp > 0;
 
     // Update User State (XP, Completed Courses, Check for Badges)
     let userUpdated = false;
@@ -154,21 +384,18 @@ function App() {
         if (u.completedCourses.includes(courseId)) return u;
         
         userUpdated = true;
-        const newXp = u.xp + earnedXp;
-        const newCompleted = [...u.completedCourses, courseId];
-        const newBadges = [...u.badges];
-
-        // --- Simple Badge Logic ---
-        if (newCompleted.length === 1 && !newBadges.includes('b1')) newBadges.push('b1');
-        if (newXp >= 1000 && !newBadges.includes('b2')) newBadges.push('b2');
-        if (isPerfectScore && !newBadges.includes('b4')) newBadges.push('b4');
-
-        return {
-          ...u,
-          xp: newXp,
-          badges: newBadges,
-          completedCourses: newCompleted
+        const now = Date.now();
+        const course = courses.find(c => c.id === courseId);
+        const active = recordStreakActivity(u, now, config.streak);
+        const completed = {
+          ...active,
+          xp: u.xp + earnedXp,
+          completedCourses: [...u.completedCourses, courseId],
+          completions: [...(u.completions || []), { courseId, courseVersion: course && currentVersion(course), completedAt: now }]
         };
+        const rewarded = awardBadges(completed, badges, courses, { type: 'course_completed', courseId, isPerfectScore });
+        announceNewBadges(completed, rewarded);
+        return rewarded;
       }
       return u;
     });
@@ -176,52 +403,109 @@ function App() {
     if (userUpdated) {
         setUsers(updatedUsers);
         const updatedCurrentUser = updatedUsers.find(u => u.id === auth.currentUser!.id) || null;
-        setAuth({ isAuthenticated: true, currentUser: updatedCurrentUser });
+        setAuth(prev => ({ ...prev, currentUser: updatedCurrentUser }));
         
         // Sync with DB
         if (updatedCurrentUser) {
-            api.updateUserProgress(updatedCurrentUser).catch(e => console.error("API Sync Error", e));
+            api.updateUserProgress(updatedCurrentUser).catch(reportApiError("Your progress was not saved"));
         }
         
         setActiveCourse(null);
     }
+
+    // Finished, so the next visit starts from the beginning (applied after the update above)
+    saveCourseProgress(courseId, null);
+  };
+
+  // Edits are always saved as a draft first; publishing then makes them what nurses get
+  const storeCourse = (course: Course, content: CourseContent, publish: boolean) => {
+    const saved = saveDraft(course, content);
+    const stored = publish ? publishDraft(saved) : saved;
+    setCourses(prev => prev.some(c => c.id === stored.id) ? prev.map(c => c.id === stored.id ? stored : c) : [...prev, stored]);
+
+    api.saveCourse(saved).catch(reportApiError("The course was not saved"));
+    if (publish) {
+      api.publishCourse(saved.id).catch(reportApiError("The course was not published"));
+    }
   };
 
-  const handleAddCourse = (courseData: Omit<Course, 'id'>) => {
-    const newCourse: Course = {
-      ...courseData,
+  const handleAddCourse = (content: CourseContent, publish: boolean) => {
+    storeCourse({
+      ...content,
       id: `c${courses.length + 1}-${Date.now()}`,
-      timestamp: Date.now()
-    };
-    
-    setCourses([...courses, newCourse]);
-    api.saveCourse(newCourse).catch(e => console.error("API Sync Error", e));
+      timestamp: Date.now(),
+      status: 'draft'
+    }, content, publish);
+  };
+
+  const handleUpdateCourse = (courseId: string, content: CourseContent, publish: boolean) => {
+    const course = courses.find(c => c.id === courseId);
+    if (course) storeCourse(course, content, publish);
+  };
+
+  const handleRollbackCourse = (version: CourseVersion) => {
+    setCourses(prev => prev.map(c => c.id === version.courseId ? rollBack(c, version) : c));
+    api.publishCourse(version.courseId, version.version).catch(reportApiError("The course was not rolled back"));
+  };
+
+  const handleLoadCourseVersions = (courseId: string): Promise<CourseVersion[]> => api.getCourseVersions(courseId);
+
+  const handleArchiveCourse = (courseId: string, archived: boolean) => {
+    const archivedAt = archived ? Date.now() : null;
+    setCourses(prev => prev.map(c => c.id === courseId ? setArchived(c, archivedAt) : c));
+    api.archiveCourse(courseId, archived).catch(reportApiError(archived ? "The course was not archived" : "The course was not restored"));
+  };
+
+  // Also used to retire a badge; holders keep it either way
+  const handleSaveBadge = (badge: Badge) => {
+    const exists = badges.some(b => b.id === badge.id);
+    setBadges(exists ? badges.map(b => b.id === badge.id ? badge : b) : [...badges, badge]);
+    api.saveBadge(badge).catch(reportApiError("The badge was not saved"));
+  };
+
+  const handleSaveTemplate = (template: CourseTemplate) => {
+    setTemplates(prev => [...prev.filter(t => t.id !== template.id), template]);
+    notifications.success(`Saved "${template.name}" as a template.`);
+    api.saveTemplate(template).catch(reportApiError("The template was not saved"));
   };
 
-  const handleUpdateCourse = (updatedCourse: Course) => {
-    setCourses(courses.map(c => c.id === updatedCourse.id ? updatedCourse : c));
-    api.saveCourse(updatedCourse).catch(e => console.error("API Sync Error", e));
+  const handleDeleteTemplate = (templateId: string) => {
+    setTemplates(prev => prev.filter(t => t.id !== templateId));
+    api.deleteTemplate(templateId).catch(reportApiError("The template was not deleted"));
   };
 
   // --- User Management Handlers ---
 
+  const handleIssueResetCode = (userId: string): Promise<PinResetCode> => api.issueResetCode(userId);
+
+  const handleLoadPinResets = (userId: string): Promise<PinResetRecord[]> => api.getPinResets(userId);
+
+  const handleUploadMedia = (file: Blob): Promise<string> => api.uploadMedia(file);
+
+  const handleUnlockUser = (userId: string) => {
+    setUsers(users.map(u => u.id === userId ? { ...u, lockedUntil: undefined } : u));
+    api.unlockUser(userId).catch(reportApiError("The account was not unlocked"));
+  };
+
   const handleAddUser = (newUser: User) => {
     if (users.some(u => u.id === newUser.id)) {
       alert(`User with ID ${newUser.id} already exists.`);
       return;
     }
-    setUsers([...users, newUser]);
-    api.saveUser(newUser).catch(e => console.error("API Sync Error", e));
+    setUsers([...users, toPublicUser(newUser)]);
+    api.saveUser(newUser).catch(reportApiError(`${newUser.name} was not saved`));
   };
 
+  // `updatedUser.pin` is only set when the educator entered a new PIN
   const handleUpdateUser = (updatedUser: User) => {
-    setUsers(users.map(u => u.id === updatedUser.id ? updatedUser : u));
+    const publicUser = toPublicUser(updatedUser);
+    setUsers(users.map(u => u.id === updatedUser.id ? publicUser : u));
     
     if (auth.currentUser?.id === updatedUser.id) {
-       setAuth(prev => ({ ...prev, currentUser: updatedUser }));
+       setAuth(prev => ({ ...prev, currentUser: publicUser }));
     }
 
-    api.saveUser(updatedUser).catch(e => console.error("API Sync Error", e));
+    api.saveUser(updatedUser).catch(reportApiError(`Changes to ${updatedUser.name} were not saved`));
   };
 
   const handleRemoveUser = (userId: string) => {
@@ -231,7 +515,7 @@ function App() {
     }
     if (confirm("Are you sure you want to remove this user?")) {
       setUsers(users.filter(u => u.id !== userId));
-      api.deleteUser(userId).catch(e => console.error("API Sync Error", e));
+      api.deleteUser(userId).catch(reportApiError("The user was not removed"));
     }
   };
 
@@ -242,12 +526,12 @@ function App() {
     importedUsers.forEach(imported => {
       const index = updatedUsers.findIndex(u => u.id === imported.id);
       if (index >= 0) {
-        updatedUsers[index] = { ...updatedUsers[index], ...imported };
+        updatedUsers[index] = toPublicUser({ ...updatedUsers[index], ...imported });
       } else {
-        updatedUsers.push(imported);
+        updatedUsers.push(toPublicUser(imported));
       }
-      // Trigger API save for each
-      api.saveUser(imported); 
+      // Trigger API save for each (the server hashes the imported PIN)
+      api.saveUser(imported).catch(reportApiError(`${imported.name} was not imported`));
     });
     
     setUsers(updatedUsers);
@@ -270,17 +554,29 @@ function App() {
       {/* Mobile Simulator Container */}
       <div className="w-full max-w-[450px] h-[100dvh] sm:h-[850px] bg-white sm:rounded-[2.5rem] shadow-2xl overflow-hidden relative flex flex-col">
         
-        {isOffline && (
+        {isOffline ? (
             <div className="bg-red-500 text-white text-xs text-center py-1 flex items-center justify-center gap-2">
-                <WifiOff size={12} /> Offline Mode - Using Mock Data (Changes won't save to DB)
+                <WifiOff size={12} /> {dataSource === 'rest' ? 'Offline - Cannot Reach Server' : 'Offline Mode - Using Mock Data'}
+                {pendingWrites > 0 && ` · ${pendingWrites} change${pendingWrites === 1 ? '' : 's'} waiting to sync`}
+            </div>
+        ) : dataSource !== 'rest' ? (
+            <div className="bg-slate-700 text-white text-xs text-center py-1 flex items-center justify-center gap-2">
+                <Database size={12} /> Demo Mode - {dataSource === 'browser' ? 'Data Saved in This Browser' : 'Changes Reset on Reload'}
+            </div>
+        ) : pendingWrites > 0 && (
+            <div className="bg-amber-500 text-white text-xs text-center py-1 flex items-center justify-center gap-2">
+                <RefreshCw size={12} /> {pendingWrites} change{pendingWrites === 1 ? '' : 's'} waiting to sync
             </div>
         )}
 
+        <ToastStack />
+
         {!auth.isAuthenticated ? (
           <LoginScreen 
             onLogin={handleLogin} 
             onResetPin={handleResetPin}
             error={loginError} 
+            lockout={loginLockout}
           />
         ) : (
           <>
@@ -289,7 +585,10 @@ function App() {
                 user={auth.currentUser}
                 allUsers={users}
                 courses={courses}
+                badges={badges}
+                streak={currentStreak(auth.currentUser, Date.now(), config.streak)}
                 onStartCourse={handleStartCourse}
+                onStartReview={handleStartReview}
                 onLogout={handleLogout}
                 onChangePin={handleChangePin}
               />
@@ -300,12 +599,24 @@ function App() {
                 user={auth.currentUser}
                 users={users}
                 courses={courses}
+                badges={badges}
                 onAddCourse={handleAddCourse}
                 onUpdateCourse={handleUpdateCourse}
+                onRollbackCourse={handleRollbackCourse}
+                onLoadCourseVersions={handleLoadCourseVersions}
+                onArchiveCourse={handleArchiveCourse}
+                templates={templates}
+                onSaveTemplate={handleSaveTemplate}
+                onDeleteTemplate={handleDeleteTemplate}
+                onSaveBadge={handleSaveBadge}
                 onAddUser={handleAddUser}
                 onUpdateUser={handleUpdateUser}
                 onRemoveUser={handleRemoveUser}
+                onUnlockUser={handleUnlockUser}
+                onIssueResetCode={handleIssueResetCode}
+                onLoadPinResets={handleLoadPinResets}
                 onImportUsers={handleImportUsers}
+                onUploadMedia={handleUploadMedia}
                 onLogout={handleLogout}
               />
             )}
@@ -317,6 +628,28 @@ function App() {
                 onClose={() => setActiveCourse(null)}
                 onComplete={handleCompleteCourse}
                 onQuizAttempt={handleQuizAttempt}
+                isGraded={!!activeCourse.assessment && !auth.currentUser?.completedCourses.includes(activeCourse.id)}
+                attemptsLeft={auth.currentUser ? attemptsLeft(auth.currentUser, activeCourse) : null}
+                onAssessmentSubmit={handleAssessmentSubmit}
+                onVideoWatch={handleVideoWatch}
+                onScenarioDecision={handleScenarioDecision}
+                resumeFrom={resumePoint(activeCourse, auth.currentUser?.courseProgress?.find(p => p.courseId === activeCourse.id))}
+                onProgress={handleCourseProgress}
+                learner={auth.currentUser ?? undefined}
+              />
+            )}
+
+            {/* Review Player Overlay */}
+            {activeReview && (
+              <CoursePlayer 
+                course={buildReviewCourse(activeReview)} 
+                onClose={() => setActiveReview(null)}
+                onComplete={() => {
+                  setActiveReview(null);
+                  notifications.success("Review complete.");
+                }}
+                onQuizAttempt={handleReviewAttempt}
+                isReview
               />
             )}
           </>
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { User, Course, Badge, BadgeRule } from '../types';
+import Button from './Button';
+import Input from './Input';
+import { RULE_LABELS, defaultRule, describeRule } from '../services/badgeRules';
+import { Plus, Pencil, X, Archive, ArchiveRestore } from 'lucide-react';
+
+interface BadgeManagerProps {
+  badges: Badge[];
+  users: User[];
+  courses: Course[];
+  onSaveBadge: (badge: Badge) => void;
+}
+
+const EMPTY_BADGE: Omit<Badge, 'id'> = {
+  name: '',
+  icon: '🏅',
+  description: '',
+  rule: defaultRule('courses_completed'),
+};
+
+const BadgeManager: React.FC<BadgeManagerProps> = ({ badges, users, courses, onSaveBadge }) => {
+  const [draft, setDraft] = useState<Badge | Omit<Badge, 'id'> | null>(null);
+
+  const categories = Array.from(new Set(courses.map(c => c.category))).sort();
+  const holderCount = (badgeId: string) => users.filter(u => u.badges.includes(badgeId)).length;
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    if (draft.rule.kind === 'category_completed' && !draft.rule.category) {
+      alert("Choose a category for this badge.");
+      return;
+    }
+    onSaveBadge({
+      ...draft,
+      id: 'id' in draft ? draft.id : `b${badges.length + 1}-${Date.now()}`,
+      description: draft.description.trim() || describeRule(draft.rule),
+    });
+    setDraft(null);
+  };
+
+  const handleToggleRetired = (badge: Badge) => {
+    if (!badge.retired && !confirm(`Retire "${badge.name}"? Nobody new will earn it, but current holders keep it.`)) return;
+    onSaveBadge({ ...badge, retired: !badge.retired });
+  };
+
+  const updateRule = (rule: BadgeRule) => draft && setDraft({ ...draft, rule });
+
+  // Number field for rules that take a threshold
+  const renderThreshold = (label: string, value: number, onChange: (n: number) => void) => (
+    <Input
+      label={label}
+      type="number"
+      min={1}
+      value={value}
+      onChange={e => onChange(Math.max(1, parseInt(e.target.value) || 1))}
+    />
+  );
+
+  const renderRuleFields = (rule: BadgeRule) => {
+    switch (rule.kind) {
+      case 'courses_completed':
+        return renderThreshold('Courses to complete', rule.count, count => updateRule({ ...rule, count }));
+      case 'xp_reached':
+        return renderThreshold('XP needed', rule.xp, xp => updateRule({ ...rule, xp }));
+      case 'first_try_correct':
+        return renderThreshold('Questions right first time', rule.count, count => updateRule({ ...rule, count }));
+      case 'streak_days':
+        return renderThreshold('Streak length (days)', rule.days, days => updateRule({ ...rule, days }));
+      case 'category_completed':
+        return (
+          <div className="flex flex-col gap-1 mb-4">
+            <label className="text-sm font-medium text-slate-600 ml-1">Category</label>
+            <select
+              value={rule.category}
+              onChange={e => updateRule({ ...rule, category: e.target.value })}
+              className="p-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-mahsa-teal"
+            >
+              <option value="">Select a category</option>
+              {categories.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+        );
+      case 'perfect_score':
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-4 animate-in fade-in duration-500 pt-2">
+      <Button fullWidth onClick={() => setDraft({ ...EMPTY_BADGE })} className="flex items-center justify-center gap-2 mb-2 bg-indigo-600 hover:bg-indigo-700 text-white shadow-indigo-200">
+        <Plus size={20} /> Create New Badge
+      </Button>
+
+      {badges.map(badge => (
+        <div key={badge.id} className={`bg-white p-4 rounded-2xl shadow-sm border border-slate-100 flex items-center gap-3 ${badge.retired ? 'opacity-60' : ''}`}>
+          <div className="text-3xl">{badge.icon}</div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <h3 className="font-bold text-slate-800 truncate">{badge.name}</h3>
+              {badge.retired && (
+                <span className="text-[10px] font-bold text-slate-500 bg-slate-100 px-2 py-0.5 rounded uppercase tracking-wider">Retired</span>
+              )}
+            </div>
+            <p className="text-xs text-slate-500">{describeRule(badge.rule)}</p>
+            <p className="text-[10px] text-slate-400 mt-0.5">{holderCount(badge.id)} holder{holderCount(badge.id) === 1 ? '' : 's'}</p>
+          </div>
+          <button onClick={() => setDraft(badge)} className="p-2 text-slate-400 hover:text-indigo-500 bg-slate-50 rounded-full" title="Edit badge">
+            <Pencil size={16} />
+          </button>
+          <button onClick={() => handleToggleRetired(badge)} className="p-2 text-slate-400 hover:text-amber-600 bg-slate-50 rounded-full" title={badge.retired ? 'Restore badge' : 'Retire badge'}>
+            {badge.retired ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+          </button>
+        </div>
+      ))}
+
+      {/* Add/Edit Badge Modal */}
+      {draft && (
+        <div className="absolute inset-0 z-50 bg-black/50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in">
+          <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl animate-in zoom-in-95 max-h-full overflow-y-auto">
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="text-xl font-bold text-mahsa-navy">{'id' in draft ? 'Edit Badge' : 'New Badge'}</h3>
+              <button onClick={() => setDraft(null)} className="p-2 bg-slate-50 rounded-full hover:bg-slate-100">
+                <X size={20} className="text-slate-500" />
+              </button>
+            </div>
+
+            <div className="flex gap-3">
+              <Input label="Icon" value={draft.icon} onChange={e => setDraft({ ...draft, icon: e.target.value })} maxLength={4} className="w-16 text-center text-xl" />
+              <div className="flex-1">
+                <Input label="Name" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Safety Champion" />
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-1 mb-4">
+              <label className="text-sm font-medium text-slate-600 ml-1">Awarded For</label>
+              <select
+                value={draft.rule.kind}
+                onChange={e => updateRule(defaultRule(e.target.value as BadgeRule['kind']))}
+                className="p-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-mahsa-teal"
+              >
+                {(Object.keys(RULE_LABELS) as BadgeRule['kind'][]).map(kind => (
+                  <option key={kind} value={kind}>{RULE_LABELS[kind]}</option>
+                ))}
+              </select>
+            </div>
+
+            {renderRuleFields(draft.rule)}
+
+            <Input
+              label="Description (optional)"
+              value={draft.description}
+              onChange={e => setDraft({ ...draft, description: e.target.value })}
+              placeholder={describeRule(draft.rule)}
+            />
+
+            {'id' in draft && (
+              <p className="text-xs text-slate-400 mb-4">Changing the rule doesn't take the badge away from anyone who already has it.</p>
+            )}
+
+            <Button fullWidth onClick={handleSave} disabled={!draft.name.trim()}>
+              {'id' in draft ? 'Update Badge' : 'Create Badge'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BadgeManager;
@@ -1,32 +1,68 @@
 import React, { useState } from 'react';
-import { Slide, Course, SlideType } from '../types';
+import { Slide, Course, CourseContent, CourseVersion, SlideType, QuestionKind, QuizData, ScenarioChoice } from '../types';
+import { QUESTION_KIND_LABELS, TRUE_FALSE_OPTIONS, questionPool, isQuestionSlide } from '../services/quizScoring';
+import { DEFAULT_PASS_PERCENT } from '../services/assessment';
+import { isNativeVideo } from '../services/video';
+import { END_OF_COURSE, checkBranches, isBranching } from '../services/branching';
+import { isPublished, currentVersion, courseContent, editableContent, diffCourseContent, versionHistory } from '../services/courseVersions';
+import { readScormFile } from '../services/scorm';
 import Button from './Button';
 import Input from './Input';
 import CoursePlayer from './CoursePlayer';
-import { Plus, Trash2, Save, X, ChevronLeft, Image, Video, HelpCircle, FileText, CheckCircle2, Pencil, GripVertical, Eye, ChevronDown, LayoutTemplate, Code } from 'lucide-react';
+import MarkdownEditor from './MarkdownEditor';
+import HotspotEditor, { DrawnRegion } from './HotspotEditor';
+import { Plus, Trash2, Save, X, ChevronLeft, Image, Video, HelpCircle, FileText, CheckCircle2, Pencil, GripVertical, Eye, ChevronDown, LayoutTemplate, Code, ScrollText, Crosshair, GitBranch, AlertTriangle, History, Undo2, Send, Package, Loader2 } from 'lucide-react';
 
 interface CourseBuilderProps {
   initialCourse?: Course;
+  startFrom?: CourseContent; // A new course's starting content, from a template or a duplicate
   availableCategories: string[];
-  onSave: (courseData: Omit<Course, 'id'>) => void;
+  onSave: (content: CourseContent, publish: boolean) => void;
+  onRollback?: (version: CourseVersion) => void;
+  onLoadVersions?: (courseId: string) => Promise<CourseVersion[]>;
+  onSaveAsTemplate?: (name: string, content: CourseContent) => void;
+  onUploadMedia: (file: Blob) => Promise<string>; // Stores a file slides link to, e.g. a SCORM package
   onCancel: () => void;
 }
 
 type BuilderMode = 'overview' | 'add-slide';
 
-const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initialCourse, availableCategories }) => {
+// Most options each question kind can have
+const MAX_OPTIONS: Record<QuestionKind, number> = {
+  single: 4,
+  multi: 6,
+  true_false: 2,
+  ordering: 8,
+  fill_in: 0,
+  hotspot: 0, // Regions are drawn on the image instead
+};
+
+const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onRollback, onLoadVersions, onSaveAsTemplate, onUploadMedia, onCancel, initialCourse, startFrom, availableCategories }) => {
+  // Pending edits of a published course are picked up where they were left
+  const [startingContent] = useState(() => initialCourse ? editableContent(initialCourse) : startFrom);
+
   // Course Basic Info
-  const [title, setTitle] = useState(initialCourse?.title || '');
-  const [category, setCategory] = useState(initialCourse?.category || '');
-  const [slides, setSlides] = useState<Slide[]>(initialCourse?.slides || []);
+  const [title, setTitle] = useState(startingContent?.title || '');
+  const [category, setCategory] = useState(startingContent?.category || '');
+  const [slides, setSlides] = useState<Slide[]>(startingContent?.slides || []);
+
+  // Graded assessment settings
+  const [isAssessment, setIsAssessment] = useState(!!startingContent?.assessment);
+  const [passPercent, setPassPercent] = useState(startingContent?.assessment?.passPercent ?? DEFAULT_PASS_PERCENT);
+  const [maxAttempts, setMaxAttempts] = useState(startingContent?.assessment?.maxAttempts?.toString() ?? ''); // Blank for unlimited
   
   // Logic to determine initial state of category mode
   const [isNewCategoryMode, setIsNewCategoryMode] = useState(() => {
     if (availableCategories.length === 0) return true;
-    if (initialCourse?.category && !availableCategories.includes(initialCourse.category)) return true;
+    if (startingContent?.category && !availableCategories.includes(startingContent.category)) return true;
     return false;
   });
 
+  // Version history, loaded when first opened
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [versions, setVersions] = useState<CourseVersion[] | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
   // Slide Builder State
   const [mode, setMode] = useState<BuilderMode>('overview');
   const [activeSlideType, setActiveSlideType] = useState<SlideType | null>(null);
@@ -39,11 +75,30 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
   const [slideTitle, setSlideTitle] = useState('');
   const [slideContent, setSlideContent] = useState('');
   const [slideImage, setSlideImage] = useState('');
+  const [slideFormat, setSlideFormat] = useState<Slide['contentFormat']>('markdown'); // Older plain slides stay plain until edited
+  const [slideCaptionsUrl, setSlideCaptionsUrl] = useState('');
+  const [slideMinWatch, setSlideMinWatch] = useState(''); // Percent; blank for no minimum
+  const [slideRequireLastPage, setSlideRequireLastPage] = useState(false);
+  const [slideChoices, setSlideChoices] = useState<ScenarioChoice[]>([{ label: '' }, { label: '' }]);
+  const [slideNextId, setSlideNextId] = useState(''); // Blank for the following slide
+  const [slideScormLaunch, setSlideScormLaunch] = useState('');
+  const [isReadingScorm, setIsReadingScorm] = useState(false);
   
   // Quiz Specific State
   const [quizQuestion, setQuizQuestion] = useState('');
   const [quizOptions, setQuizOptions] = useState<string[]>(['', '']);
   const [quizCorrectIdx, setQuizCorrectIdx] = useState(0);
+  const [quizKind, setQuizKind] = useState<QuestionKind>('single');
+  const [quizCorrectIndices, setQuizCorrectIndices] = useState<number[]>([]);
+  const [quizAcceptedAnswers, setQuizAcceptedAnswers] = useState(''); // One per line
+  const [quizOptionRationales, setQuizOptionRationales] = useState<string[]>([]); // Parallel to quizOptions
+  const [quizRationale, setQuizRationale] = useState('');
+  const [hotspotRegions, setHotspotRegions] = useState<DrawnRegion[]>([]);
+
+  // Question pool: the form above edits one variant at a time; the others wait here
+  const [quizPoolDrafts, setQuizPoolDrafts] = useState<QuizData[]>([]);
+  const [activeVariant, setActiveVariant] = useState(0); // Equal to quizPoolDrafts.length for a new, unsaved variant
+  const [quizDrawCount, setQuizDrawCount] = useState(1);
 
   // Preview State
   const [isPreviewing, setIsPreviewing] = useState(false);
@@ -52,9 +107,17 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
     setSlideTitle('');
     setSlideContent('');
     setSlideImage('');
-    setQuizQuestion('');
-    setQuizOptions(['', '']);
-    setQuizCorrectIdx(0);
+    setSlideFormat('markdown');
+    setSlideCaptionsUrl('');
+    setSlideMinWatch('');
+    setSlideRequireLastPage(false);
+    setSlideChoices([{ label: '' }, { label: '' }]);
+    setSlideNextId('');
+    setSlideScormLaunch('');
+    loadQuizForm();
+    setQuizPoolDrafts([]);
+    setActiveVariant(0);
+    setQuizDrawCount(1);
     setActiveSlideType(null);
     setEditingSlideId(null);
     setMode('overview');
@@ -103,6 +166,122 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
     return url;
   };
 
+  // Fills the question form with one variant, or clears it for a new one of the given kind
+  const loadQuizForm = (quiz?: QuizData, newKind: QuestionKind = 'single') => {
+    setQuizQuestion(quiz?.question || '');
+    setQuizOptions(quiz && quiz.options.length > 0 ? [...quiz.options] : ['', '']);
+    setQuizCorrectIdx(quiz?.correctIndex ?? 0);
+    setQuizKind(quiz?.kind ?? newKind);
+    setQuizCorrectIndices(quiz?.correctIndices || []);
+    setQuizAcceptedAnswers((quiz?.acceptedAnswers || []).join('\n'));
+    setQuizOptionRationales(quiz?.optionRationales ? [...quiz.optionRationales] : []);
+    setQuizRationale(quiz?.rationale || '');
+    setHotspotRegions((quiz?.regions || []).map((region, i) => ({
+      ...region,
+      label: quiz!.options[i] || '',
+      isTarget: (quiz!.correctIndices || []).includes(i),
+    })));
+  };
+
+  const handleQuizKindChange = (kind: QuestionKind) => {
+    if (kind === 'true_false') {
+      setQuizOptions([...TRUE_FALSE_OPTIONS]);
+      setQuizOptionRationales([]);
+      setQuizCorrectIdx(Math.min(quizCorrectIdx, 1));
+    } else if (quizKind === 'true_false') {
+      setQuizOptions(['', '']);
+      setQuizOptionRationales([]);
+    } else if (quizOptions.length > MAX_OPTIONS[kind] && MAX_OPTIONS[kind] > 0) {
+      setQuizOptions(quizOptions.slice(0, MAX_OPTIONS[kind]));
+      setQuizOptionRationales(quizOptionRationales.slice(0, MAX_OPTIONS[kind]));
+    }
+    setQuizCorrectIndices([]);
+    setQuizKind(kind);
+  };
+
+  // Builds the saved question, dropping blank options and re-pointing the answer at the ones kept
+  const buildQuizData = (): QuizData | string => {
+    if (!quizQuestion.trim()) return 'Enter a question.';
+    const rationale = quizRationale.trim() || undefined;
+
+    if (quizKind === 'fill_in') {
+      const acceptedAnswers = quizAcceptedAnswers.split('\n').map(a => a.trim()).filter(Boolean);
+      if (acceptedAnswers.length === 0) return 'Add at least one accepted answer.';
+      return { kind: quizKind, question: quizQuestion, options: [], correctIndex: 0, acceptedAnswers, rationale };
+    }
+
+    if (quizKind === 'hotspot') {
+      if (hotspotRegions.length === 0) return 'Draw at least one region on the image.';
+      const correctIndices = hotspotRegions.flatMap((r, i) => r.isTarget ? [i] : []);
+      if (correctIndices.length === 0) return 'Mark at least one region as a correct target.';
+      return {
+        kind: quizKind,
+        question: quizQuestion,
+        options: hotspotRegions.map((r, i) => r.label.trim() || `Region ${i + 1}`),
+        correctIndex: correctIndices[0],
+        correctIndices,
+        regions: hotspotRegions.map(({ x, y, width, height }) => ({ x, y, width, height })),
+        rationale
+      };
+    }
+
+    const kept = quizOptions.map((o, i) => ({ text: o.trim(), i })).filter(o => o.text !== '');
+    if (kept.length < 2) return 'Add at least two options.';
+    const newIndex = (oldIndex: number) => kept.findIndex(o => o.i === oldIndex);
+    const options = kept.map(o => o.text);
+    const keptRationales = kept.map(o => (quizOptionRationales[o.i] || '').trim());
+    const optionRationales = keptRationales.some(Boolean) ? keptRationales : undefined;
+
+    switch (quizKind) {
+      case 'multi': {
+        const correctIndices = quizCorrectIndices.map(newIndex).filter(i => i >= 0).sort((a, b) => a - b);
+        if (correctIndices.length === 0) return 'Mark at least one correct option.';
+        return { kind: quizKind, question: quizQuestion, options, correctIndex: correctIndices[0], correctIndices, optionRationales, rationale };
+      }
+      case 'ordering':
+        return { kind: quizKind, question: quizQuestion, options, correctIndex: 0, rationale };
+      default: {
+        const correctIndex = newIndex(quizCorrectIdx);
+        if (correctIndex < 0) return 'Mark the correct option.';
+        return { kind: quizKind, question: quizQuestion, options, correctIndex, optionRationales, rationale };
+      }
+    }
+  };
+
+  // The pool with the variant being edited written back in, or null (after an alert) if it is incomplete
+  const commitActiveVariant = (): QuizData[] | null => {
+    const quizData = buildQuizData();
+    if (typeof quizData === 'string') {
+      alert(quizData);
+      return null;
+    }
+    const pool = [...quizPoolDrafts];
+    pool[activeVariant] = quizData;
+    return pool;
+  };
+
+  const poolSize = Math.max(quizPoolDrafts.length, activeVariant + 1);
+  const newVariantKind: QuestionKind = activeSlideType === 'hotspot' ? 'hotspot' : 'single';
+
+  const switchVariant = (index: number) => {
+    if (index === activeVariant) return;
+    const pool = commitActiveVariant();
+    if (!pool) return;
+    setQuizPoolDrafts(pool);
+    setActiveVariant(index);
+    loadQuizForm(pool[index], newVariantKind);
+  };
+
+  const removeActiveVariant = () => {
+    if (poolSize < 2) return;
+    const pool = quizPoolDrafts.filter((_, i) => i !== activeVariant);
+    const next = Math.max(0, activeVariant - 1);
+    setQuizPoolDrafts(pool);
+    setActiveVariant(next);
+    setQuizDrawCount(Math.min(quizDrawCount, poolSize - 1));
+    loadQuizForm(pool[next]);
+  };
+
   const handleSaveSlide = () => {
     if (!activeSlideType) return;
     
@@ -120,13 +299,58 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
       image: slideImage || undefined,
     };
 
-    if (activeSlideType === 'quiz') {
-      newSlide.quizData = {
-        question: quizQuestion,
-        options: quizOptions.filter(o => o.trim() !== ''),
-        correctIndex: quizCorrectIdx
-      };
-      newSlide.title = "Knowledge Check";
+    if (activeSlideType === 'intro' || activeSlideType === 'summary' || activeSlideType === 'scenario') {
+      newSlide.contentFormat = slideFormat;
+    }
+
+    if (activeSlideType === 'scenario') {
+      const choices = slideChoices
+        .filter(c => c.label.trim())
+        .map(c => ({ label: c.label.trim(), consequence: c.consequence?.trim() || undefined, nextSlideId: c.nextSlideId || undefined }));
+      if (choices.length < 2) {
+        alert('Add at least two choices.');
+        return;
+      }
+      newSlide.choices = choices;
+    } else if (slideNextId) {
+      newSlide.nextSlideId = slideNextId;
+    }
+
+    if (activeSlideType === 'video' && isNativeVideo(finalContent)) {
+      const minWatch = parseInt(slideMinWatch, 10);
+      if (slideCaptionsUrl.trim()) newSlide.captionsUrl = slideCaptionsUrl.trim();
+      if (minWatch > 0) newSlide.minWatchPercent = Math.min(minWatch, 100);
+    }
+
+    if (activeSlideType === 'document') {
+      if (!finalContent.trim()) {
+        alert('Enter the link to the PDF.');
+        return;
+      }
+      newSlide.content = finalContent.trim();
+      if (slideRequireLastPage) newSlide.requireLastPage = true;
+    }
+
+    if (activeSlideType === 'scorm') {
+      if (!finalContent || !slideScormLaunch) {
+        alert('Upload the SCORM package (.zip).');
+        return;
+      }
+      newSlide.scormLaunch = slideScormLaunch;
+    }
+
+    if (activeSlideType === 'hotspot' && !slideImage.trim()) {
+      alert('Enter the link to the image.');
+      return;
+    }
+
+    if (isQuestionSlide(newSlide)) {
+      const pool = commitActiveVariant();
+      if (!pool) return;
+      newSlide.quizData = pool[0];
+      if (pool.length > 1) newSlide.quizVariants = pool.slice(1);
+      if (quizDrawCount > 1) newSlide.drawCount = Math.min(quizDrawCount, pool.length);
+      newSlide.title = activeSlideType === 'hotspot' ? "Spot It" : "Knowledge Check";
     }
 
     if (editingSlideId) {
@@ -144,10 +368,19 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
     setSlideTitle(slide.title);
     setSlideContent(slide.content || '');
     setSlideImage(slide.image || '');
-    if (slide.type === 'quiz' && slide.quizData) {
-      setQuizQuestion(slide.quizData.question);
-      setQuizOptions([...slide.quizData.options]);
-      setQuizCorrectIdx(slide.quizData.correctIndex);
+    setSlideFormat(slide.contentFormat ?? 'plain');
+    setSlideCaptionsUrl(slide.captionsUrl || '');
+    setSlideMinWatch(slide.minWatchPercent?.toString() || '');
+    setSlideRequireLastPage(!!slide.requireLastPage);
+    setSlideChoices(slide.choices ? slide.choices.map(c => ({ ...c })) : [{ label: '' }, { label: '' }]);
+    setSlideNextId(slide.nextSlideId || '');
+    setSlideScormLaunch(slide.scormLaunch || '');
+    if (isQuestionSlide(slide) && slide.quizData) {
+      const pool = questionPool(slide);
+      setQuizPoolDrafts(pool);
+      setActiveVariant(0);
+      setQuizDrawCount(slide.drawCount ?? 1);
+      loadQuizForm(pool[0]);
     }
     setMode('add-slide');
   };
@@ -156,15 +389,61 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
     setSlides(slides.filter(s => s.id !== id));
   };
 
-  const handleSaveCourse = () => {
+  const buildAssessment = (): Course['assessment'] => {
+    if (!isAssessment) return undefined;
+    const attempts = parseInt(maxAttempts, 10);
+    return {
+      passPercent: Math.min(100, Math.max(1, passPercent)),
+      maxAttempts: attempts > 0 ? attempts : undefined
+    };
+  };
+
+  const branchReport = checkBranches(slides);
+
+  const buildContent = (): CourseContent => ({
+    title,
+    category,
+    slides,
+    durationMinutes: slides.length * 2,
+    xpReward: slides.length * 50,
+    assessment: buildAssessment()
+  });
+
+  // Drafts may be unfinished; only publishing needs every path to work
+  const handleSaveCourse = (publish: boolean) => {
     if (!title || !category || slides.length === 0) return;
-    onSave({
-      title,
-      category,
-      slides,
-      durationMinutes: slides.length * 2,
-      xpReward: slides.length * 50
-    });
+    if (publish && branchReport.errors.length > 0) {
+      alert(`Fix the course paths first:\n${branchReport.errors.join('\n')}`);
+      return;
+    }
+    if (publish && isAssessment && !slides.some(s => isQuestionSlide(s) && s.quizData)) {
+      alert('A graded course needs at least one quiz or hotspot question to publish.');
+      return;
+    }
+    onSave(buildContent(), publish);
+  };
+
+  const handleToggleHistory = () => {
+    setIsHistoryOpen(!isHistoryOpen);
+    if (versions || !initialCourse || !onLoadVersions) return;
+    setHistoryError(null);
+    onLoadVersions(initialCourse.id)
+      .then(setVersions)
+      .catch(e => {
+        console.error("Failed to load version history", e);
+        setHistoryError('Could not load the version history.');
+      });
+  };
+
+  const handleSaveAsTemplate = () => {
+    if (slides.length === 0) return;
+    const name = prompt("Template name:", title)?.trim();
+    if (name) onSaveAsTemplate?.(name, buildContent());
+  };
+
+  const handleRollback = (version: CourseVersion) => {
+    if (!confirm(`Publish v${version.version} again as the latest version? Nurses will get it from their next attempt; your unpublished changes are kept.`)) return;
+    onRollback?.(version);
   };
 
   const handlePreview = () => {
@@ -173,12 +452,10 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
   };
 
   const getPreviewCourse = (): Course => ({
+      ...buildContent(),
       id: 'preview-temp',
       title: title || 'Untitled Course',
       category: category || 'Uncategorized',
-      slides: slides,
-      xpReward: slides.length * 50,
-      durationMinutes: slides.length * 2
   });
 
   const getSlideTypeStyles = (type: SlideType) => {
@@ -187,6 +464,10 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
       case 'video': return { icon: <Video size={18} />, bg: 'bg-purple-100', text: 'text-purple-600', label: 'Video' };
       case 'quiz': return { icon: <HelpCircle size={18} />, bg: 'bg-orange-100', text: 'text-orange-600', label: 'Quiz' };
       case 'summary': return { icon: <LayoutTemplate size={18} />, bg: 'bg-emerald-100', text: 'text-emerald-600', label: 'Summary' };
+      case 'document': return { icon: <ScrollText size={18} />, bg: 'bg-teal-100', text: 'text-teal-600', label: 'Document' };
+      case 'hotspot': return { icon: <Crosshair size={18} />, bg: 'bg-rose-100', text: 'text-rose-600', label: 'Hotspot' };
+      case 'scenario': return { icon: <GitBranch size={18} />, bg: 'bg-indigo-100', text: 'text-indigo-600', label: 'Scenario' };
+      case 'scorm': return { icon: <Package size={18} />, bg: 'bg-amber-100', text: 'text-amber-600', label: 'SCORM' };
       default: return { icon: <FileText size={18} />, bg: 'bg-slate-100', text: 'text-slate-600', label: 'Unknown' };
     }
   };
@@ -212,7 +493,7 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
   };
 
   const renderSlideTypeSelection = () => (
-    <div className="grid grid-cols-3 gap-3 mb-6">
+    <div className="grid grid-cols-2 gap-3 mb-6">
       <button 
         onClick={() => { setActiveSlideType('intro'); setMode('add-slide'); }}
         className="flex flex-col items-center justify-center p-4 bg-blue-50 border border-blue-100 rounded-xl hover:bg-blue-100 transition-colors group"
@@ -240,9 +521,340 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
         </div>
         <span className="text-xs font-bold text-slate-700">Quiz</span>
       </button>
+      <button 
+        onClick={() => { setActiveSlideType('document'); setMode('add-slide'); }}
+        className="flex flex-col items-center justify-center p-4 bg-teal-50 border border-teal-100 rounded-xl hover:bg-teal-100 transition-colors group"
+      >
+        <div className="p-2 bg-white rounded-full mb-2 shadow-sm group-hover:scale-110 transition-transform">
+           <ScrollText className="text-teal-600" size={20} />
+        </div>
+        <span className="text-xs font-bold text-slate-700">Document</span>
+      </button>
+      <button 
+        onClick={() => { setActiveSlideType('hotspot'); setQuizKind('hotspot'); setMode('add-slide'); }}
+        className="flex flex-col items-center justify-center p-4 bg-rose-50 border border-rose-100 rounded-xl hover:bg-rose-100 transition-colors group"
+      >
+        <div className="p-2 bg-white rounded-full mb-2 shadow-sm group-hover:scale-110 transition-transform">
+           <Crosshair className="text-rose-600" size={20} />
+        </div>
+        <span className="text-xs font-bold text-slate-700">Image Hotspot</span>
+      </button>
+      <button 
+        onClick={() => { setActiveSlideType('scenario'); setMode('add-slide'); }}
+        className="flex flex-col items-center justify-center p-4 bg-indigo-50 border border-indigo-100 rounded-xl hover:bg-indigo-100 transition-colors group"
+      >
+        <div className="p-2 bg-white rounded-full mb-2 shadow-sm group-hover:scale-110 transition-transform">
+           <GitBranch className="text-indigo-600" size={20} />
+        </div>
+        <span className="text-xs font-bold text-slate-700">Scenario</span>
+      </button>
+      <button 
+        onClick={() => { setActiveSlideType('scorm'); setMode('add-slide'); }}
+        className="flex flex-col items-center justify-center p-4 bg-amber-50 border border-amber-100 rounded-xl hover:bg-amber-100 transition-colors group"
+      >
+        <div className="p-2 bg-white rounded-full mb-2 shadow-sm group-hover:scale-110 transition-transform">
+           <Package className="text-amber-600" size={20} />
+        </div>
+        <span className="text-xs font-bold text-slate-700">SCORM Package</span>
+      </button>
     </div>
   );
 
+  const renderQuestionKindPicker = () => (
+    <div className="flex flex-col gap-1 mb-4">
+      <label className="text-sm font-medium text-slate-600 ml-1">Question Type</label>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(QUESTION_KIND_LABELS) as QuestionKind[]).filter(kind => kind !== 'hotspot').map(kind => (
+          <button 
+            key={kind}
+            onClick={() => handleQuizKindChange(kind)}
+            className={`px-3 py-1.5 rounded-full text-xs font-semibold border transition-colors ${quizKind === kind ? 'bg-mahsa-teal text-white border-mahsa-teal' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+          >
+            {QUESTION_KIND_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderPoolBar = () => (
+    <div className="flex flex-col gap-2 mb-4 p-3 rounded-xl bg-slate-50 border border-slate-100">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-slate-600">Question Pool</label>
+        {poolSize > 1 && (
+          <button onClick={removeActiveVariant} className="text-xs text-red-400 hover:text-red-600 flex items-center gap-1">
+            <Trash2 size={14} /> Remove Q{activeVariant + 1}
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {Array.from({ length: poolSize }, (_, i) => (
+          <button 
+            key={i}
+            onClick={() => switchVariant(i)}
+            className={`px-3 py-1.5 rounded-full text-xs font-semibold border transition-colors ${activeVariant === i ? 'bg-mahsa-navy text-white border-mahsa-navy' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+          >
+            Q{i + 1}
+          </button>
+        ))}
+        <button onClick={() => switchVariant(poolSize)} className="px-3 py-1.5 rounded-full text-xs font-semibold text-mahsa-teal border border-dashed border-mahsa-teal/50 hover:bg-white">
+          + Add Variant
+        </button>
+      </div>
+      {poolSize > 1 && (
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          Ask
+          <select 
+            className="p-1 rounded-lg border border-slate-200 bg-white text-slate-700"
+            value={Math.min(quizDrawCount, poolSize)}
+            onChange={e => setQuizDrawCount(Number(e.target.value))}
+          >
+            {Array.from({ length: poolSize }, (_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
+          </select>
+          of {poolSize} per attempt, drawn at random.
+        </div>
+      )}
+    </div>
+  );
+
+  const renderOptionEditor = () => {
+    const isFixed = quizKind === 'true_false';
+    const labels: Record<QuestionKind, string> = {
+      single: 'Options (Select correct answer)',
+      true_false: 'Select the correct answer',
+      multi: 'Options (Tick every correct answer)',
+      ordering: 'Steps, in the correct order (shuffled for learners)',
+      fill_in: '',
+      hotspot: '',
+    };
+
+    const isMarkedCorrect = (idx: number) => quizKind === 'multi' ? quizCorrectIndices.includes(idx) : quizCorrectIdx === idx;
+    const toggleCorrect = (idx: number) => {
+      if (quizKind === 'multi') {
+        setQuizCorrectIndices(quizCorrectIndices.includes(idx) ? quizCorrectIndices.filter(i => i !== idx) : [...quizCorrectIndices, idx]);
+      } else {
+        setQuizCorrectIdx(idx);
+      }
+    };
+    const removeOption = (idx: number) => {
+      setQuizOptions(quizOptions.filter((_, i) => i !== idx));
+      setQuizOptionRationales(quizOptionRationales.filter((_, i) => i !== idx));
+      // Keep the answer pointing at the same options
+      setQuizCorrectIndices(quizCorrectIndices.filter(i => i !== idx).map(i => i > idx ? i - 1 : i));
+      if (quizCorrectIdx === idx) setQuizCorrectIdx(0);
+      else if (quizCorrectIdx > idx) setQuizCorrectIdx(quizCorrectIdx - 1);
+    };
+
+    return (
+      <div className="space-y-3">
+        <label className="text-sm font-medium text-slate-600 ml-1">{labels[quizKind]}</label>
+        {quizOptions.map((opt, idx) => (
+          <div key={idx} className="space-y-1">
+            <div className="flex items-center gap-2">
+              {quizKind === 'ordering' ? (
+                <span className="w-9 h-9 rounded-full bg-slate-100 text-slate-500 text-xs font-bold flex items-center justify-center shrink-0">{idx + 1}</span>
+              ) : (
+                <button 
+                  onClick={() => toggleCorrect(idx)}
+                  className={`p-2 ${quizKind === 'multi' ? 'rounded-lg' : 'rounded-full'} border-2 ${isMarkedCorrect(idx) ? 'border-green-500 bg-green-50' : 'border-slate-200'}`}
+                >
+                  {isMarkedCorrect(idx) ? <CheckCircle2 size={16} className="text-green-600"/> : <div className="w-4 h-4" />}
+                </button>
+              )}
+              <input 
+                 className="flex-1 p-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-mahsa-teal disabled:bg-slate-50"
+                 value={opt}
+                 disabled={isFixed}
+                 onChange={(e) => {
+                   const newOpts = [...quizOptions];
+                   newOpts[idx] = e.target.value;
+                   setQuizOptions(newOpts);
+                 }}
+                 placeholder={quizKind === 'ordering' ? `Step ${idx + 1}` : `Option ${idx + 1}`}
+              />
+              {idx > 1 && !isFixed && (
+                <button onClick={() => removeOption(idx)} className="text-red-400 hover:text-red-600">
+                  <Trash2 size={18} />
+                </button>
+              )}
+            </div>
+            {quizKind !== 'ordering' && (
+              <input
+                className="w-[calc(100%-2.75rem)] ml-11 p-2 rounded-lg border border-slate-100 bg-slate-50 text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-mahsa-teal"
+                value={quizOptionRationales[idx] || ''}
+                onChange={(e) => {
+                  const next = [...quizOptionRationales];
+                  next[idx] = e.target.value;
+                  setQuizOptionRationales(next);
+                }}
+                placeholder={isMarkedCorrect(idx) ? 'Why this is right (optional)' : 'Why this is wrong (optional)'}
+              />
+            )}
+          </div>
+        ))}
+        {quizOptions.length < MAX_OPTIONS[quizKind] && (
+          <button 
+           onClick={() => setQuizOptions([...quizOptions, ''])}
+           className="text-sm text-mahsa-teal font-semibold ml-9"
+          >
+            + Add {quizKind === 'ordering' ? 'Step' : 'Option'}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Where a branch can lead: the following slide, any other slide, or the end
+  const renderTargetSelect = (value: string, onChange: (target: string) => void) => (
+    <select 
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="w-full p-2 rounded-lg border border-slate-200 bg-white text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-mahsa-teal"
+    >
+      <option value="">Next slide in the list</option>
+      {slides.map((s, i) => s.id !== editingSlideId && <option key={s.id} value={s.id}>Go to #{i + 1} {s.title}</option>)}
+      <option value={END_OF_COURSE}>End of course</option>
+    </select>
+  );
+
+  const updateChoice = (idx: number, changes: Partial<ScenarioChoice>) =>
+    setSlideChoices(slideChoices.map((c, i) => i === idx ? { ...c, ...changes } : c));
+
+  const renderChoiceEditor = () => (
+    <div className="space-y-3">
+      <label className="text-sm font-medium text-slate-600 ml-1">Choices</label>
+      {slideChoices.map((c, idx) => (
+        <div key={idx} className="p-3 rounded-xl bg-white border border-slate-200 space-y-2">
+          <div className="flex items-center gap-2">
+            <input 
+              className="flex-1 p-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-mahsa-teal"
+              value={c.label}
+              onChange={e => updateChoice(idx, { label: e.target.value })}
+              placeholder={`Choice ${idx + 1}, e.g. Call the rapid response team`}
+            />
+            {idx > 1 && (
+              <button onClick={() => setSlideChoices(slideChoices.filter((_, i) => i !== idx))} className="text-red-400 hover:text-red-600">
+                <Trash2 size={18} />
+              </button>
+            )}
+          </div>
+          <input 
+            className="w-full p-2 rounded-lg border border-slate-100 bg-slate-50 text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-mahsa-teal"
+            value={c.consequence || ''}
+            onChange={e => updateChoice(idx, { consequence: e.target.value })}
+            placeholder="What happens next (optional)"
+          />
+          {renderTargetSelect(c.nextSlideId || '', target => updateChoice(idx, { nextSlideId: target }))}
+        </div>
+      ))}
+      <button onClick={() => setSlideChoices([...slideChoices, { label: '' }])} className="text-sm text-mahsa-teal font-semibold ml-1">
+        + Add Choice
+      </button>
+    </div>
+  );
+
+  const renderBranchReport = () => {
+    const { errors, warnings } = branchReport;
+    if (errors.length === 0 && warnings.length === 0) {
+      return <p className="text-xs text-green-600 mb-6 px-1">Every path reaches the end of the course.</p>;
+    }
+    return (
+      <div className="mb-6 p-3 rounded-xl border border-amber-200 bg-amber-50 space-y-1">
+        {errors.map((e, i) => <p key={`e${i}`} className="text-xs text-red-600 flex gap-2"><AlertTriangle size={14} className="shrink-0" />{e}</p>)}
+        {warnings.map((w, i) => <p key={`w${i}`} className="text-xs text-amber-700 flex gap-2"><AlertTriangle size={14} className="shrink-0" />{w}</p>)}
+      </div>
+    );
+  };
+
+  // For a published course: what publishing would change, and every version so far
+  const renderHistory = (course: Course) => {
+    const pending = diffCourseContent(courseContent(course), buildContent());
+    return (
+      <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100">
+        <button onClick={handleToggleHistory} className="w-full flex items-center justify-between text-left">
+          <span>
+            <span className="block text-sm font-bold text-slate-700 flex items-center gap-2"><History size={16} /> Version History</span>
+            <span className="block text-xs text-slate-400">
+              Nurses are taking v{currentVersion(course)}. {pending.length > 0 ? `${pending.length} unpublished change${pending.length === 1 ? '' : 's'}.` : 'No unpublished changes.'}
+            </span>
+          </span>
+          <ChevronDown size={16} className={`text-slate-400 transition-transform ${isHistoryOpen ? 'rotate-180' : ''}`} />
+        </button>
+        {isHistoryOpen && (
+          <div className="mt-4 space-y-3">
+            {pending.length > 0 && (
+              <div className="p-3 rounded-xl border border-dashed border-amber-300 bg-amber-50">
+                <p className="text-xs font-bold text-amber-700 mb-1">Not yet published</p>
+                {pending.map((c, i) => <p key={i} className="text-xs text-amber-700">• {c}</p>)}
+              </div>
+            )}
+            {historyError && <p className="text-xs text-red-600">{historyError}</p>}
+            {!versions && !historyError && <p className="text-xs text-slate-400">Loading…</p>}
+            {versions && versionHistory(versions).map(({ version, changes }) => (
+              <div key={version.version} className="p-3 rounded-xl border border-slate-100 bg-slate-50">
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <p className="text-xs font-bold text-slate-700">
+                    v{version.version}
+                    <span className="font-normal text-slate-400"> · {version.publishedAt ? new Date(version.publishedAt).toLocaleString() : 'before versioning'}{version.publishedBy && ` · ${version.publishedBy}`}</span>
+                  </p>
+                  {version.version === currentVersion(course) ? (
+                    <span className="text-[10px] font-bold text-green-700 bg-green-100 px-2 py-0.5 rounded uppercase tracking-wider">Live</span>
+                  ) : onRollback && (
+                    <button onClick={() => handleRollback(version)} className="text-[10px] font-bold text-indigo-600 hover:text-indigo-800 flex items-center gap-1 uppercase tracking-wider">
+                      <Undo2 size={12} /> Roll back
+                    </button>
+                  )}
+                </div>
+                {changes.length > 0
+                  ? changes.map((c, i) => <p key={i} className="text-xs text-slate-500">• {c}</p>)
+                  : <p className="text-xs text-slate-400">Republished without changes</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // What follows a slide, when it isn't simply the next one
+  const describeBranch = (s: Slide) => {
+    if (s.type === 'scenario') return `${(s.choices || []).length} choices`;
+    if (!s.nextSlideId) return null;
+    if (s.nextSlideId === END_OF_COURSE) return 'Then ends the course';
+    const target = slides.findIndex(t => t.id === s.nextSlideId);
+    return target >= 0 ? `Then goes to #${target + 1}` : 'Then goes to a removed slide';
+  };
+
+  const renderHotspotFields = () => (
+    <>
+      <Input 
+        label="Image URL" 
+        value={slideImage} 
+        onChange={e => setSlideImage(e.target.value)} 
+        placeholder="https://.../ward-floor-plan.png"
+      />
+      {slideImage.trim() && <HotspotEditor image={slideImage.trim()} regions={hotspotRegions} onChange={setHotspotRegions} />}
+    </>
+  );
+
+  // Checked, then uploaded; the slide keeps the package's URL
+  const handleScormFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReadingScorm(true);
+    try {
+      const { title: packageTitle, scormLaunch, zip } = await readScormFile(file);
+      setSlideContent(await onUploadMedia(zip));
+      setSlideScormLaunch(scormLaunch);
+      if (!slideTitle.trim()) setSlideTitle(packageTitle);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'The package could not be read.');
+    } finally {
+      setIsReadingScorm(false);
+    }
+  };
+
   const renderSlideForm = () => {
     return (
       <div className="animate-in slide-in-from-right duration-300">
@@ -256,7 +868,7 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
         </div>
 
         <div className="space-y-4">
-          {activeSlideType !== 'quiz' && (
+          {activeSlideType !== 'quiz' && activeSlideType !== 'hotspot' && (
              <Input 
                 label="Slide Title" 
                 value={slideTitle} 
@@ -265,16 +877,21 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
               />
           )}
 
-          {activeSlideType === 'intro' && (
+          {(activeSlideType === 'intro' || activeSlideType === 'summary' || activeSlideType === 'scenario') && (
             <>
                <div className="flex flex-col gap-1 mb-4">
                   <label className="text-sm font-medium text-slate-600 ml-1">Content / Body Text</label>
-                  <textarea 
-                    className="p-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-mahsa-teal min-h-[120px]"
+                  <MarkdownEditor 
                     value={slideContent}
-                    onChange={e => setSlideContent(e.target.value)}
+                    onChange={text => {
+                      setSlideContent(text);
+                      setSlideFormat('markdown');
+                    }}
                     placeholder="Enter the educational content here..."
                   />
+                  <p className="text-[10px] text-slate-400 mt-1 px-1">
+                    Supports **bold**, *italic*, lists, tables, links and &gt; warnings.
+                  </p>
                </div>
                <Input 
                 label="Image URL (Optional)" 
@@ -298,63 +915,117 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
                     placeholder={`Paste the <iframe ...> code here`}
                   />
                   <p className="text-[10px] text-slate-400 mt-1 px-1">
-                    Paste the full <b>&lt;iframe&gt;</b> code from YouTube (Share > Embed).
+                    Paste the full <b>&lt;iframe&gt;</b> code from YouTube (Share &gt; Embed), or the link to a self-hosted <b>.mp4</b> or <b>.webm</b> file.
                   </p>
                </div>
+               {isNativeVideo(slideContent) && (
+                 <div className="p-3 rounded-xl bg-slate-50 border border-slate-100">
+                   <p className="text-xs text-slate-500 mb-3">Self-hosted video: watch time is tracked.</p>
+                   <Input 
+                     label="Captions URL (.vtt, Optional)" 
+                     value={slideCaptionsUrl} 
+                     onChange={e => setSlideCaptionsUrl(e.target.value)} 
+                     placeholder="https://.../captions.vtt"
+                   />
+                   <Input 
+                     label="Minimum Watched (%) before Continue" 
+                     type="number" 
+                     min={0} 
+                     max={100} 
+                     value={slideMinWatch} 
+                     onChange={e => setSlideMinWatch(e.target.value)} 
+                     placeholder="No minimum"
+                   />
+                 </div>
+               )}
             </div>
           )}
 
-          {activeSlideType === 'quiz' && (
+          {activeSlideType === 'document' && (
+            <div className="space-y-4">
+               <Input 
+                 label="PDF URL" 
+                 value={slideContent} 
+                 onChange={e => setSlideContent(e.target.value)} 
+                 placeholder="https://intranet.example/sop/code-red.pdf"
+               />
+               <label className="flex items-center justify-between p-3 rounded-xl bg-white border border-slate-200 cursor-pointer">
+                 <span className="text-sm font-medium text-slate-600">Must reach the last page before continuing</span>
+                 <input 
+                   type="checkbox"
+                   checked={slideRequireLastPage}
+                   onChange={e => setSlideRequireLastPage(e.target.checked)}
+                   className="w-5 h-5 accent-mahsa-teal"
+                 />
+               </label>
+            </div>
+          )}
+
+          {activeSlideType === 'scorm' && (
+            <div className="space-y-2">
+               <label className="flex flex-col items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed border-slate-200 text-sm font-bold text-slate-600 hover:border-amber-300 cursor-pointer">
+                 {isReadingScorm ? <Loader2 size={20} className="animate-spin text-amber-600" /> : <Package size={20} className="text-amber-600" />}
+                 {slideScormLaunch ? 'Replace Package (.zip)' : 'Upload SCORM 1.2 Package (.zip)'}
+                 <input type="file" accept=".zip,application/zip" onChange={handleScormFile} className="hidden" disabled={isReadingScorm} />
+               </label>
+               <p className="text-[10px] text-slate-400 px-1">
+                 {slideScormLaunch
+                   ? `Package ready: starts at ${slideScormLaunch}. Learners continue once it reports completed or passed.`
+                   : 'A single-lesson SCORM 1.2 package from an authoring tool, up to 15 MB.'}
+               </p>
+            </div>
+          )}
+
+          {(activeSlideType === 'quiz' || activeSlideType === 'hotspot') && (
             <>
+               {renderPoolBar()}
                <div className="flex flex-col gap-1 mb-4">
                   <label className="text-sm font-medium text-slate-600 ml-1">Question</label>
                   <textarea 
                     className="p-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-mahsa-teal min-h-[80px]"
                     value={quizQuestion}
                     onChange={e => setQuizQuestion(e.target.value)}
-                    placeholder="Ask a question..."
+                    placeholder={activeSlideType === 'hotspot' ? 'e.g. Tap the IV cannula insertion site' : 'Ask a question...'}
                   />
                </div>
                
-               <div className="space-y-3">
-                 <label className="text-sm font-medium text-slate-600 ml-1">Options (Select correct answer)</label>
-                 {quizOptions.map((opt, idx) => (
-                   <div key={idx} className="flex items-center gap-2">
-                     <button 
-                       onClick={() => setQuizCorrectIdx(idx)}
-                       className={`p-2 rounded-full border-2 ${quizCorrectIdx === idx ? 'border-green-500 bg-green-50' : 'border-slate-200'}`}
-                     >
-                       {quizCorrectIdx === idx ? <CheckCircle2 size={16} className="text-green-600"/> : <div className="w-4 h-4" />}
-                     </button>
-                     <input 
-                        className="flex-1 p-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-mahsa-teal"
-                        value={opt}
-                        onChange={(e) => {
-                          const newOpts = [...quizOptions];
-                          newOpts[idx] = e.target.value;
-                          setQuizOptions(newOpts);
-                        }}
-                        placeholder={`Option ${idx + 1}`}
-                     />
-                     {idx > 1 && (
-                       <button onClick={() => setQuizOptions(quizOptions.filter((_, i) => i !== idx))} className="text-red-400 hover:text-red-600">
-                         <Trash2 size={18} />
-                       </button>
-                     )}
-                   </div>
-                 ))}
-                 {quizOptions.length < 4 && (
-                   <button 
-                    onClick={() => setQuizOptions([...quizOptions, ''])}
-                    className="text-sm text-mahsa-teal font-semibold ml-9"
-                   >
-                     + Add Option
-                   </button>
-                 )}
+               {activeSlideType === 'hotspot' ? renderHotspotFields() : (
+                 <>
+                   {renderQuestionKindPicker()}
+                   {quizKind === 'fill_in' ? (
+                     <div className="flex flex-col gap-1">
+                        <label className="text-sm font-medium text-slate-600 ml-1">Accepted Answers (one per line)</label>
+                        <textarea 
+                          className="p-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-mahsa-teal min-h-[80px]"
+                          value={quizAcceptedAnswers}
+                          onChange={e => setQuizAcceptedAnswers(e.target.value)}
+                          placeholder={"e.g. 20 seconds\n20 secs"}
+                        />
+                        <p className="text-[10px] text-slate-400 mt-1 px-1">Capitals and extra spaces are ignored when marking.</p>
+                     </div>
+                   ) : renderOptionEditor()}
+                 </>
+               )}
+
+               <div className="flex flex-col gap-1 mt-4">
+                  <label className="text-sm font-medium text-slate-600 ml-1">Rationale (optional)</label>
+                  <textarea 
+                    className="p-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-mahsa-teal min-h-[60px]"
+                    value={quizRationale}
+                    onChange={e => setQuizRationale(e.target.value)}
+                    placeholder="Explain the answer. Shown to learners after every attempt."
+                  />
                </div>
             </>
           )}
 
+          {activeSlideType === 'scenario' ? renderChoiceEditor() : (
+            <div className="flex flex-col gap-1 mt-4">
+              <label className="text-sm font-medium text-slate-600 ml-1">After this slide</label>
+              {renderTargetSelect(slideNextId, setSlideNextId)}
+            </div>
+          )}
+
           <Button fullWidth onClick={handleSaveSlide} className="mt-8">
             {editingSlideId ? 'Update Slide' : 'Add Slide'}
           </Button>
@@ -369,6 +1040,7 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
         course={getPreviewCourse()} 
         onClose={() => setIsPreviewing(false)} 
         onComplete={() => setIsPreviewing(false)} 
+        isGraded={isAssessment}
       />
     );
   }
@@ -432,6 +1104,43 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
               </div>
             </div>
 
+            <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-100">
+              <label className="flex items-center justify-between cursor-pointer">
+                <span>
+                  <span className="block text-sm font-bold text-slate-700">Graded Assessment</span>
+                  <span className="block text-xs text-slate-400">No answer feedback; completes only on a pass.</span>
+                </span>
+                <input 
+                  type="checkbox"
+                  checked={isAssessment}
+                  onChange={e => setIsAssessment(e.target.checked)}
+                  className="w-5 h-5 accent-mahsa-teal"
+                />
+              </label>
+              {isAssessment && (
+                <div className="grid grid-cols-2 gap-3 mt-4">
+                  <Input 
+                    label="Pass Mark (%)" 
+                    type="number" 
+                    min={1} 
+                    max={100} 
+                    value={passPercent} 
+                    onChange={e => setPassPercent(Number(e.target.value))} 
+                  />
+                  <Input 
+                    label="Max Attempts" 
+                    type="number" 
+                    min={1} 
+                    value={maxAttempts} 
+                    onChange={e => setMaxAttempts(e.target.value)} 
+                    placeholder="Unlimited" 
+                  />
+                </div>
+              )}
+            </div>
+
+            {initialCourse && isPublished(initialCourse) && renderHistory(initialCourse)}
+
             <div>
               <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4">Course Content ({slides.length})</h3>
               {slides.length === 0 && (
@@ -460,6 +1169,7 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
                            <span className={`text-[10px] font-bold uppercase tracking-wider ${style.text}`}>{style.label}</span>
                         </div>
                         <p className="font-semibold text-slate-800 text-sm truncate pr-2">{s.title}</p>
+                        {describeBranch(s) && <p className="text-[10px] text-indigo-500 flex items-center gap-1"><GitBranch size={10} /> {describeBranch(s)}</p>}
                       </div>
                     </div>
                     <div className="flex items-center gap-1 pl-2 border-l border-slate-100">
@@ -470,8 +1180,17 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
                   );
                 })}
               </div>
+              {isBranching({ slides }) && renderBranchReport()}
               <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-2">Add New Slide</h3>
               {renderSlideTypeSelection()}
+              {onSaveAsTemplate && slides.length > 0 && (
+                <button 
+                  onClick={handleSaveAsTemplate}
+                  className="w-full mt-6 py-3 rounded-xl border-2 border-dashed border-slate-200 text-sm font-bold text-slate-500 hover:border-indigo-300 hover:text-indigo-600 flex items-center justify-center gap-2"
+                >
+                  <LayoutTemplate size={16} /> Save as Template
+                </button>
+              )}
             </div>
           </div>
         ) : (
@@ -484,8 +1203,11 @@ const CourseBuilder: React.FC<CourseBuilderProps> = ({ onSave, onCancel, initial
           <Button variant="outline" className="flex-1 flex items-center justify-center gap-2" onClick={handlePreview} disabled={!title || !category || slides.length === 0}>
              <Eye size={20} /> Preview
           </Button>
-          <Button className="flex-[2] flex items-center justify-center gap-2" onClick={handleSaveCourse} disabled={!title || !category || slides.length === 0}>
-            <Save size={20} /> {initialCourse ? 'Update' : 'Publish'}
+          <Button variant="outline" className="flex-1 flex items-center justify-center gap-2" onClick={() => handleSaveCourse(false)} disabled={!title || !category || slides.length === 0}>
+            <Save size={20} /> Save Draft
+          </Button>
+          <Button className="flex-1 flex items-center justify-center gap-2" onClick={() => handleSaveCourse(true)} disabled={!title || !category || slides.length === 0}>
+            <Send size={20} /> {initialCourse && isPublished(initialCourse) ? 'Publish Changes' : 'Publish'}
           </Button>
         </div>
       )}
@@ -1,62 +1,216 @@
 import React, { useState, useEffect } from 'react';
-import { Course, Slide } from '../types';
+import { Course, Slide, User, CourseProgress, QuizAttempt, QuizResponse, AssessmentAttempt, VideoWatch, ScenarioDecision } from '../types';
+import { questionKind, isQuestionSlide, regionAt, isCorrectResponse, describeResponse, describeCorrectAnswer, shuffledOrder, rationalesFor, drawQuestions, toAuthoredResponse, ServedQuestion } from '../services/quizScoring';
+import { scorePercent } from '../services/assessment';
+import { isNativeVideo, isEmbeddableUrl, watchedPercent } from '../services/video';
+import { nextSlideIndex } from '../services/branching';
+import { currentVersion } from '../services/courseVersions';
+import { isScormDone, ScormResult } from '../services/scorm';
 import Button from './Button';
-import { X, CheckCircle, AlertCircle, Play, ChevronRight, RotateCcw, Loader2, RefreshCw } from 'lucide-react';
+import NativeVideoPlayer from './NativeVideoPlayer';
+import MarkdownContent from './MarkdownContent';
+import PdfViewer from './PdfViewer';
+import ScormPlayer from './ScormPlayer';
+import { X, CheckCircle, AlertCircle, Play, ChevronRight, RotateCcw, Loader2, RefreshCw, Square, CheckSquare, ArrowUp, ArrowDown, ClipboardCheck } from 'lucide-react';
 
 interface CoursePlayerProps {
   course: Course;
   onClose: () => void;
-  onComplete: (courseId: string, xp: number) => void;
-  onQuizAttempt?: (courseId: string, slideId: string, question: string, answer: string, isCorrect: boolean) => void;
+  onComplete: (courseId: string, xp: number, maxXp: number) => void; // maxXp: what the path played could earn; branches skip slides
+  onQuizAttempt?: (attempt: Omit<QuizAttempt, 'timestamp'>) => void;
+  resumeFrom?: CourseProgress; // Already fitted to the course (see resumePoint)
+  onProgress?: (progress: CourseProgress) => void;
+  isGraded?: boolean; // Play the course's assessment rules; off for practice replays after a pass
+  attemptsLeft?: number | null; // Graded attempts left before this one; null for no limit
+  onAssessmentSubmit?: (attempt: AssessmentAttempt) => void; // Unfinished as a graded run starts, then the result
+  onVideoWatch?: (watch: VideoWatch) => void;
+  onScenarioDecision?: (decision: ScenarioDecision) => void;
+  isReview?: boolean; // Spaced-repetition review of past questions: nothing to earn
+  learner?: Pick<User, 'id' | 'name'>; // Who SCORM packages are told is taking them
+}
+
+interface Tally {
+  correct: number;
+  total: number;
 }
 
 const XP_PER_SLIDE = 50;
 
-const CoursePlayer: React.FC<CoursePlayerProps> = ({ course, onClose, onComplete, onQuizAttempt }) => {
-  const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
+// A fresh draw from the slide's question pool each time it is reached
+const drawFor = (slide: Slide): ServedQuestion[] => isQuestionSlide(slide) ? drawQuestions(slide) : [];
+
+const CoursePlayer: React.FC<CoursePlayerProps> = ({ course, onClose, onComplete, onQuizAttempt, resumeFrom, onProgress, isGraded, attemptsLeft, onAssessmentSubmit, onVideoWatch, onScenarioDecision, isReview, learner }) => {
+  const assessment = isGraded ? course.assessment : undefined;
+  // Graded attempts always start over, so there is nothing to resume
+  const resume = assessment ? undefined : resumeFrom;
+
+  const [currentSlideIndex, setCurrentSlideIndex] = useState(resume?.slideIndex ?? 0);
+  const [served, setServed] = useState<ServedQuestion[]>(() => drawFor(course.slides[resume?.slideIndex ?? 0]));
+  const [questionIndex, setQuestionIndex] = useState(0); // Position within `served`
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [selectedIndices, setSelectedIndices] = useState<number[]>([]); // Select-all questions
+  const [order, setOrder] = useState<number[]>([]); // Ordering questions: option indices as currently placed
+  const [fillText, setFillText] = useState('');
+  const [tap, setTap] = useState<{ x: number; y: number } | null>(null); // Hotspot questions, in percent of the image
   const [isAnswerChecked, setIsAnswerChecked] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
+  const [rationales, setRationales] = useState<string[]>([]); // Explanations for the checked answer
   const [isVideoLoading, setIsVideoLoading] = useState(true);
   const [videoKey, setVideoKey] = useState(0); 
+  const [watch, setWatch] = useState({ watchedSeconds: 0, durationSeconds: 0 }); // Self-hosted video on this slide
+  const [reachedLastPage, setReachedLastPage] = useState(false); // Document on this slide
+  const [choice, setChoice] = useState<number | null>(null); // Scenario on this slide
+  const [scormResult, setScormResult] = useState<ScormResult | null>(null); // SCORM package on this slide
+  const [runStartedAt] = useState(() => Date.now()); // Groups this play-through's scenario decisions and identifies a graded run
   
-  const [failedSlides, setFailedSlides] = useState<Set<string>>(new Set());
-  const [sessionXp, setSessionXp] = useState(0);
+  const [failedSlides, setFailedSlides] = useState<Set<string>>(new Set(resume?.failedSlideIds));
+  const [sessionXp, setSessionXp] = useState(resume?.sessionXp ?? 0);
+  const [tally, setTally] = useState<Tally>({ correct: 0, total: 0 }); // Graded answers so far
+  const [result, setResult] = useState<{ attempt: AssessmentAttempt; xp: number } | null>(null);
+  const [attemptsAtStart] = useState(attemptsLeft); // The prop drops once this attempt is logged
 
   const slide = course.slides[currentSlideIndex];
   const progress = ((currentSlideIndex + 1) / course.slides.length) * 100;
-  const isLastSlide = currentSlideIndex === course.slides.length - 1;
+  const nextIndex = nextSlideIndex(course.slides, currentSlideIndex, choice);
+  const isLastSlide = nextIndex === null;
+  const isNative = slide.type === 'video' && isNativeVideo(slide.content);
+  const watchPercent = watchedPercent(watch.watchedSeconds, watch.durationSeconds);
+  const needsMoreWatching = isNative && watchPercent < (slide.minWatchPercent ?? 0);
+  const needsMoreReading = slide.type === 'document' && !!slide.requireLastPage && !reachedLastPage;
+  const needsChoice = slide.type === 'scenario' && choice === null;
+  const needsScorm = slide.type === 'scorm' && !(scormResult && isScormDone(scormResult.lessonStatus));
+  // Why Continue is disabled, if it is
+  const blockedLabel = needsMoreWatching
+    ? `Watch ${slide.minWatchPercent}% to continue`
+    : needsMoreReading ? 'Read to the last page' : needsChoice ? 'Choose what to do' : needsScorm ? 'Finish the lesson' : null;
+  const question: ServedQuestion | undefined = served[questionIndex];
+  const hasMoreQuestions = questionIndex < served.length - 1;
+
+  // A graded run uses an attempt as soon as it starts, so closing part-way can't buy a fresh draw of questions
+  useEffect(() => {
+    if (!assessment) return;
+    onAssessmentSubmit?.({
+      courseId: course.id,
+      scorePercent: 0,
+      passed: false,
+      courseVersion: currentVersion(course),
+      startedAt: runStartedAt,
+      unfinished: true,
+      timestamp: runStartedAt
+    });
+  }, []);
 
   useEffect(() => {
     if (slide.type === 'video') {
-      setIsVideoLoading(true);
+      setIsVideoLoading(!isNativeVideo(slide.content) && isEmbeddableUrl(slide.content));
     }
   }, [currentSlideIndex, slide.type]);
 
+  // Each ordering question starts scrambled
+  useEffect(() => {
+    if (question && questionKind(question.quiz) === 'ordering') {
+      setOrder(shuffledOrder(question.quiz.options.length));
+    }
+  }, [served, questionIndex]);
+
+  const clearAnswer = () => {
+    setSelectedOption(null);
+    setSelectedIndices([]);
+    setFillText('');
+    setTap(null);
+    setIsAnswerChecked(false);
+    setIsCorrect(false);
+    setRationales([]);
+  };
+
+  // Failed questions earn nothing, so the XP they cost is what separates this run from a perfect one
+  const maxXpFor = (xp: number, failed: Set<string>) => xp + failed.size * XP_PER_SLIDE;
+
   const calculateSlideXp = (s: Slide) => {
-    if (s.type === 'quiz' && failedSlides.has(s.id)) return 0;
+    if (isQuestionSlide(s) && failedSlides.has(s.id)) return 0;
     return XP_PER_SLIDE;
   };
 
-  const handleNext = () => {
-    const earnedForThisSlide = calculateSlideXp(slide);
-    const newTotalXp = sessionXp + earnedForThisSlide;
+  const saveProgress = (slideIndex: number, xp: number, failed: Set<string>) => {
+    if (assessment) return;
+    onProgress?.({
+      courseId: course.id,
+      slideIndex,
+      sessionXp: xp,
+      failedSlideIds: Array.from(failed),
+      courseVersion: currentVersion(course),
+      updatedAt: Date.now()
+    });
+  };
+
+  const finishAssessment = (xp: number, score: Tally) => {
+    if (!assessment) return;
+    const percent = scorePercent(score.correct, score.total);
+    const attempt: AssessmentAttempt = {
+      courseId: course.id,
+      scorePercent: percent,
+      passed: percent >= assessment.passPercent,
+      courseVersion: currentVersion(course),
+      startedAt: runStartedAt,
+      timestamp: Date.now()
+    };
+    setResult({ attempt, xp });
+    onAssessmentSubmit?.(attempt);
+  };
+
+  // Logged when the learner leaves a self-hosted video slide
+  const reportWatch = () => {
+    if (!isNative || watch.watchedSeconds === 0) return;
+    onVideoWatch?.({ courseId: course.id, slideId: slide.id, ...watch, timestamp: Date.now() });
+    setWatch({ watchedSeconds: 0, durationSeconds: 0 });
+  };
+
+  const handleClose = () => {
+    reportWatch();
+    onClose();
+  };
 
+  // Moves to the next slide, or wraps up after the last one
+  const advance = (newTotalXp: number, failed: Set<string>, score: Tally) => {
+    reportWatch();
     if (isLastSlide) {
-      onComplete(course.id, newTotalXp);
+      if (assessment) finishAssessment(newTotalXp, score);
+      else onComplete(course.id, newTotalXp, maxXpFor(newTotalXp, failed));
     } else {
       setSessionXp(newTotalXp);
-      setCurrentSlideIndex(prev => prev + 1);
-      setSelectedOption(null);
-      setIsAnswerChecked(false);
-      setIsCorrect(false);
+      setCurrentSlideIndex(nextIndex);
+      setServed(drawFor(course.slides[nextIndex]));
+      setQuestionIndex(0);
+      setReachedLastPage(false);
+      setChoice(null);
+      setScormResult(null);
+      saveProgress(nextIndex, newTotalXp, failed);
+      clearAnswer();
     }
   };
 
-  const handleRetry = () => {
-    setIsAnswerChecked(false);
-    setSelectedOption(null);
-    setIsCorrect(false);
+  const handleNext = () => advance(sessionXp + calculateSlideXp(slide), failedSlides, tally);
+
+  // Ordering questions keep the learner's arrangement so they can adjust it
+  const handleRetry = () => clearAnswer();
+
+  const handleNextQuestion = () => {
+    setQuestionIndex(prev => prev + 1);
+    clearAnswer();
+  };
+
+  // A decision is final once made; the consequence shows before moving on
+  const handleChoose = (idx: number) => {
+    if (choice !== null) return;
+    setChoice(idx);
+    onScenarioDecision?.({
+      courseId: course.id,
+      slideId: slide.id,
+      choiceIndex: idx,
+      choice: slide.choices?.[idx]?.label ?? '',
+      runStartedAt,
+      timestamp: Date.now()
+    });
   };
 
   const reloadVideo = () => {
@@ -64,18 +218,265 @@ const CoursePlayer: React.FC<CoursePlayerProps> = ({ course, onClose, onComplete
     setVideoKey(prev => prev + 1);
   };
 
+  // The answer in progress, or null while it is incomplete
+  const currentResponse = (): QuizResponse | null => {
+    if (!question) return null;
+    const kind = questionKind(question.quiz);
+    switch (kind) {
+      case 'single':
+      case 'true_false':
+        return selectedOption === null ? null : { kind, selectedIndex: selectedOption };
+      case 'multi':
+        return selectedIndices.length === 0 ? null : { kind, selectedIndices };
+      case 'ordering':
+        return { kind, order };
+      case 'fill_in':
+        return fillText.trim() === '' ? null : { kind, text: fillText };
+      case 'hotspot':
+        return tap === null ? null : { kind, x: tap.x, y: tap.y };
+    }
+  };
+
   const handleQuizSubmit = () => {
-    if (selectedOption === null || !slide.quizData) return;
-    const correct = selectedOption === slide.quizData.correctIndex;
+    const response = currentResponse();
+    if (!response || !question) return;
+    const correct = isCorrectResponse(question.quiz, response);
+    const shown = assessment ? [] : rationalesFor(question.quiz, response);
     setIsCorrect(correct);
+    setRationales(shown);
     setIsAnswerChecked(true);
-    if (!correct) setFailedSlides(prev => new Set(prev).add(slide.id));
     if (onQuizAttempt) {
-      onQuizAttempt(course.id, slide.id, slide.quizData.question, slide.quizData.options[selectedOption], correct);
+      onQuizAttempt({
+        courseId: course.id,
+        slideId: slide.id,
+        question: question.quiz.question,
+        selectedOption: describeResponse(question.quiz, response),
+        response: toAuthoredResponse(response, question.optionOrder),
+        variant: question.variant,
+        optionOrder: question.optionOrder,
+        rationaleShown: shown.length > 0 ? shown.join('\n') : undefined,
+        courseVersion: currentVersion(course),
+        isCorrect: correct,
+      });
+    }
+
+    // Graded: no feedback and no retries, straight on to the next question
+    if (assessment) {
+      const score = { correct: tally.correct + (correct ? 1 : 0), total: tally.total + 1 };
+      const failed = correct ? failedSlides : new Set(failedSlides).add(slide.id);
+      setTally(score);
+      setFailedSlides(failed);
+      if (hasMoreQuestions) handleNextQuestion();
+      else advance(sessionXp + (failed.has(slide.id) ? 0 : XP_PER_SLIDE), failed, score);
+      return;
+    }
+
+    if (!correct && !failedSlides.has(slide.id)) {
+      const failed = new Set(failedSlides).add(slide.id);
+      setFailedSlides(failed);
+      // Saved straight away, so closing and reopening can't win back the slide's XP
+      saveProgress(currentSlideIndex, sessionXp, failed);
     }
   };
 
+  const toggleIndex = (idx: number) =>
+    setSelectedIndices(prev => prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx]);
+
+  const moveStep = (position: number, delta: number) => {
+    const target = position + delta;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[position], next[target]] = [next[target], next[position]];
+    setOrder(next);
+  };
+
+  const renderChoices = (isSelected: (idx: number) => boolean, isCorrectOption: (idx: number) => boolean, onPick: (idx: number) => void, checkboxes: boolean) => (
+    <div className="space-y-3">
+      {question?.quiz.options.map((option, idx) => {
+        let btnClass = "w-full p-4 text-left rounded-xl border-2 transition-all font-medium flex justify-between items-center gap-3 ";
+        if (isAnswerChecked) {
+          if (isCorrectOption(idx)) btnClass += "border-green-500 bg-green-50 text-green-700";
+          else if (isSelected(idx)) btnClass += "border-red-500 bg-red-50 text-red-700";
+          else btnClass += "border-transparent bg-slate-50 text-slate-400";
+        } else {
+           if (isSelected(idx)) btnClass += "border-mahsa-teal bg-cyan-50 text-mahsa-navy shadow-sm";
+           else btnClass += "border-slate-100 bg-white hover:border-blue-200 text-slate-700 hover:bg-slate-50";
+        }
+        return (
+          <button key={idx} onClick={() => !isAnswerChecked && onPick(idx)} className={btnClass} disabled={isAnswerChecked}>
+            <span className="flex items-center gap-3">
+              {checkboxes && (isSelected(idx) ? <CheckSquare size={20} className="shrink-0" /> : <Square size={20} className="shrink-0 text-slate-300" />)}
+              {option}
+            </span>
+            {isAnswerChecked && isCorrectOption(idx) && <CheckCircle size={20} className="text-green-500 shrink-0" />}
+            {isAnswerChecked && isSelected(idx) && !isCorrectOption(idx) && <AlertCircle size={20} className="text-red-500 shrink-0" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderOrdering = () => (
+    <div className="space-y-2">
+      {order.map((optionIdx, position) => {
+        const inPlace = optionIdx === position;
+        let rowClass = "w-full p-3 rounded-xl border-2 font-medium flex items-center gap-3 ";
+        if (isAnswerChecked) rowClass += inPlace ? "border-green-500 bg-green-50 text-green-700" : "border-red-500 bg-red-50 text-red-700";
+        else rowClass += "border-slate-100 bg-white text-slate-700";
+        return (
+          <div key={optionIdx} className={rowClass}>
+            <span className="w-6 h-6 rounded-full bg-slate-100 text-slate-500 text-xs font-bold flex items-center justify-center shrink-0">{position + 1}</span>
+            <span className="flex-1">{question?.quiz.options[optionIdx]}</span>
+            {!isAnswerChecked && (
+              <div className="flex flex-col">
+                <button onClick={() => moveStep(position, -1)} disabled={position === 0} className="p-1 text-slate-400 hover:text-mahsa-teal disabled:opacity-30" aria-label="Move up"><ArrowUp size={16} /></button>
+                <button onClick={() => moveStep(position, 1)} disabled={position === order.length - 1} className="p-1 text-slate-400 hover:text-mahsa-teal disabled:opacity-30" aria-label="Move down"><ArrowDown size={16} /></button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const handleTap = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (isAnswerChecked) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setTap({ x: (e.clientX - rect.left) / rect.width * 100, y: (e.clientY - rect.top) / rect.height * 100 });
+  };
+
+  // After checking, the target regions are outlined, and a wrong tap's region is marked too
+  const renderHotspot = () => {
+    if (!question) return null;
+    const quiz = question.quiz;
+    const hit = tap ? regionAt(quiz, tap.x, tap.y) : -1;
+    const targets = quiz.correctIndices || [];
+    return (
+      <div
+        onClick={handleTap}
+        className={`relative w-full rounded-xl overflow-hidden border-2 select-none ${isAnswerChecked ? (isCorrect ? 'border-green-500' : 'border-red-500') : 'border-slate-100 cursor-crosshair'}`}
+      >
+        <img src={slide.image} alt={quiz.question} className="w-full block" draggable={false} />
+        {isAnswerChecked && (quiz.regions || []).map((r, i) => (targets.includes(i) || i === hit) && (
+          <div
+            key={i}
+            className={`absolute rounded-md border-2 ${targets.includes(i) ? 'border-green-500 bg-green-500/20' : 'border-red-500 bg-red-500/20'}`}
+            style={{ left: `${r.x}%`, top: `${r.y}%`, width: `${r.width}%`, height: `${r.height}%` }}
+          />
+        ))}
+        {tap && (
+          <div
+            className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-4 border-white bg-mahsa-teal shadow-md pointer-events-none"
+            style={{ left: `${tap.x}%`, top: `${tap.y}%` }}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderQuiz = () => {
+    if (!question) return null;
+    const quiz = question.quiz;
+    const kind = questionKind(quiz);
+    const isFailed = failedSlides.has(slide.id);
+    const hints: Record<typeof kind, string | null> = {
+      single: null,
+      true_false: 'True or false?',
+      multi: 'Select all that apply.',
+      ordering: 'Put the steps in the correct order.',
+      fill_in: 'Type your answer.',
+      hotspot: 'Tap the correct spot on the image.',
+    };
+    // Choice and hotspot questions show the answer by highlighting it; the others spell it out
+    const showCorrectAnswer = isAnswerChecked && !isCorrect && (kind === 'ordering' || kind === 'fill_in');
+
+    return (
+      <div className="flex flex-col w-full px-2">
+         <div className="flex justify-between items-start mb-6">
+            <div>
+              {served.length > 1 && <p className="text-[10px] font-bold uppercase tracking-wide text-slate-400 mb-1">Question {questionIndex + 1} of {served.length}</p>}
+              <h2 className="text-xl font-bold text-mahsa-navy">{quiz.question}</h2>
+              {hints[kind] && <p className="text-xs text-slate-400 mt-1">{hints[kind]}</p>}
+              {assessment && <p className="text-xs text-mahsa-navy font-semibold mt-1">Graded: answers are marked when you submit the assessment.</p>}
+            </div>
+            {!isReview && (
+              <div className={`${isFailed ? 'bg-slate-100 text-slate-500' : 'bg-orange-100 text-orange-600'} px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wide ml-2 shrink-0 transition-colors`}>
+                {isFailed ? '0 XP (Retry)' : `${XP_PER_SLIDE} XP`}
+              </div>
+            )}
+         </div>
+
+         {(kind === 'single' || kind === 'true_false') && renderChoices(
+           idx => selectedOption === idx,
+           idx => idx === quiz.correctIndex,
+           setSelectedOption,
+           false
+         )}
+         {kind === 'multi' && renderChoices(
+           idx => selectedIndices.includes(idx),
+           idx => (quiz.correctIndices || []).includes(idx),
+           toggleIndex,
+           true
+         )}
+         {kind === 'ordering' && renderOrdering()}
+         {kind === 'hotspot' && renderHotspot()}
+         {kind === 'fill_in' && (
+           <input
+             className={`w-full p-4 rounded-xl border-2 font-medium focus:outline-none focus:ring-2 focus:ring-mahsa-teal ${isAnswerChecked ? (isCorrect ? 'border-green-500 bg-green-50 text-green-700' : 'border-red-500 bg-red-50 text-red-700') : 'border-slate-100 bg-white text-slate-700'}`}
+             value={fillText}
+             onChange={e => setFillText(e.target.value)}
+             disabled={isAnswerChecked}
+             placeholder="Your answer"
+           />
+         )}
+
+         {isAnswerChecked && (
+           <div className={`mt-6 p-4 rounded-xl border ${isCorrect ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'} flex items-start gap-3 animate-in fade-in slide-in-from-bottom-2 duration-300`}>
+             <div className="mt-0.5">{isCorrect ? <CheckCircle size={20}/> : <AlertCircle size={20}/>}</div>
+             <div>
+                <p className="font-bold text-sm">{isCorrect ? "Correct!" : "Incorrect"}</p>
+                <p className="text-sm opacity-90">{isCorrect ? (hasMoreQuestions ? "On to the next question." : isFailed ? "Good job fixing it." : isReview ? "Well remembered." : "Great job! Earned 50 XP.") : "Try again to proceed."}</p>
+                {showCorrectAnswer && <p className="text-sm mt-1">Correct answer: <b>{describeCorrectAnswer(quiz)}</b></p>}
+                {rationales.length > 0 && (
+                  <div className="mt-2 pt-2 border-t border-current/20 space-y-1">
+                    <p className="text-[10px] font-bold uppercase tracking-wide opacity-70">Why</p>
+                    {rationales.map((line, i) => <p key={i} className="text-sm">{line}</p>)}
+                  </div>
+                )}
+             </div>
+           </div>
+         )}
+      </div>
+    );
+  };
+
+  const renderResult = () => {
+    if (!result || !assessment) return null;
+    const { attempt } = result;
+    const remaining = attemptsAtStart === undefined || attemptsAtStart === null ? null : Math.max(0, attemptsAtStart - 1);
+    return (
+      <div className="flex flex-col items-center text-center p-4 animate-in fade-in zoom-in duration-300">
+        <div className={`p-4 rounded-full mb-4 ${attempt.passed ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
+          {attempt.passed ? <CheckCircle size={40} /> : <ClipboardCheck size={40} />}
+        </div>
+        <h2 className="text-2xl font-bold text-mahsa-navy mb-1">{attempt.passed ? 'Assessment Passed' : 'Not Passed Yet'}</h2>
+        <p className="text-5xl font-bold text-slate-800 my-4">{attempt.scorePercent}%</p>
+        <p className="text-sm text-slate-500">Pass mark: {assessment.passPercent}%</p>
+        {!attempt.passed && (
+          <p className="text-sm text-slate-600 mt-4">
+            {remaining === null
+              ? 'Review the material and try again when you are ready.'
+              : remaining > 0
+                ? `You have ${remaining} attempt${remaining === 1 ? '' : 's'} left.`
+                : 'You have no attempts left. Please speak to your educator.'}
+          </p>
+        )}
+      </div>
+    );
+  };
+
   const renderContent = () => {
+    if (result) return renderResult();
     switch (slide.type) {
       case 'intro':
       case 'summary':
@@ -83,7 +484,9 @@ const CoursePlayer: React.FC<CoursePlayerProps> = ({ course, onClose, onComplete
           <div className="flex flex-col items-center text-center p-4">
              {slide.image && <img src={slide.image} alt={slide.title} className="w-full h-56 object-cover rounded-2xl shadow-md mb-6"/>}
              <h2 className="text-2xl font-bold text-mahsa-navy mb-4">{slide.title}</h2>
-             <p className="text-lg text-slate-600 leading-relaxed">{slide.content}</p>
+             {slide.contentFormat === 'markdown'
+               ? <MarkdownContent source={slide.content} className="w-full text-left text-lg text-slate-600 leading-relaxed" />
+               : <p className="text-lg text-slate-600 leading-relaxed">{slide.content}</p>}
           </div>
         );
       case 'video':
@@ -91,82 +494,131 @@ const CoursePlayer: React.FC<CoursePlayerProps> = ({ course, onClose, onComplete
           <div className="flex flex-col items-center w-full">
             <div className="flex justify-between items-center w-full px-4 mb-4">
                <h2 className="text-xl font-bold text-mahsa-navy">{slide.title}</h2>
-               <button onClick={reloadVideo} className="p-2 text-slate-400 hover:text-mahsa-teal transition-colors" title="Reload Video">
-                 <RefreshCw size={18} className={isVideoLoading ? 'animate-spin' : ''} />
-               </button>
+               {!isNative && (
+                 <button onClick={reloadVideo} className="p-2 text-slate-400 hover:text-mahsa-teal transition-colors" title="Reload Video">
+                   <RefreshCw size={18} className={isVideoLoading ? 'animate-spin' : ''} />
+                 </button>
+               )}
             </div>
             <div className="w-full aspect-video bg-black rounded-xl overflow-hidden shadow-lg relative">
-              {isVideoLoading && (
-                <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-900 z-10 text-white">
-                  <Loader2 className="animate-spin text-mahsa-teal mb-2" size={32} />
-                  <span className="text-xs text-slate-400">Loading Video...</span>
+              {isNative ? (
+                <NativeVideoPlayer
+                  key={slide.id}
+                  src={slide.content}
+                  captionsUrl={slide.captionsUrl}
+                  title={slide.title}
+                  onWatchProgress={(watchedSeconds, durationSeconds) => setWatch({ watchedSeconds, durationSeconds })}
+                />
+              ) : !isEmbeddableUrl(slide.content) ? (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-slate-400 text-xs text-center p-4">
+                  <AlertCircle size={24} />
+                  <span>This video link can't be played here.</span>
                 </div>
+              ) : (
+                <>
+                  {isVideoLoading && (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-900 z-10 text-white">
+                      <Loader2 className="animate-spin text-mahsa-teal mb-2" size={32} />
+                      <span className="text-xs text-slate-400">Loading Video...</span>
+                    </div>
+                  )}
+                  <iframe 
+                    key={videoKey}
+                    src={slide.content} 
+                    title={slide.title}
+                    className="absolute inset-0 w-full h-full"
+                    frameBorder="0"
+                    allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share" 
+                    allowFullScreen
+                    onLoad={() => setIsVideoLoading(false)}
+                  ></iframe>
+                </>
               )}
-              <iframe 
-                key={videoKey}
-                src={slide.content} 
-                title={slide.title}
-                className="absolute inset-0 w-full h-full"
-                frameBorder="0"
-                allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share" 
-                allowFullScreen
-                onLoad={() => setIsVideoLoading(false)}
-              ></iframe>
             </div>
-            <p className="mt-6 px-4 text-slate-600 text-center text-sm">Watch carefully to proceed. If issues persist, try reloading.</p>
+            {isNative ? (
+              <div className="w-full px-4 mt-6">
+                <div className="flex justify-between text-xs text-slate-400 mb-1">
+                  <span>Watched</span>
+                  <span>{watchPercent}%{slide.minWatchPercent ? ` (${slide.minWatchPercent}% needed)` : ''}</span>
+                </div>
+                <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className={`h-full rounded-full transition-all ${needsMoreWatching ? 'bg-orange-400' : 'bg-green-500'}`} style={{ width: `${watchPercent}%` }} />
+                </div>
+              </div>
+            ) : (
+              <p className="mt-6 px-4 text-slate-600 text-center text-sm">Watch carefully to proceed. If issues persist, try reloading.</p>
+            )}
           </div>
         );
-      case 'quiz':
-        const isFailed = failedSlides.has(slide.id);
+      case 'document':
+        return (
+          <div className="flex flex-col items-center w-full">
+            <h2 className="text-xl font-bold text-mahsa-navy mb-4 w-full px-2">{slide.title}</h2>
+            <PdfViewer
+              key={slide.id}
+              url={slide.content}
+              onPageChange={(page, pageCount) => { if (page === pageCount) setReachedLastPage(true); }}
+            />
+            {slide.requireLastPage && (
+              <p className={`mt-4 text-xs text-center ${reachedLastPage ? 'text-green-600' : 'text-slate-400'}`}>
+                {reachedLastPage ? 'Document read. You can continue.' : 'Read through to the last page to continue.'}
+              </p>
+            )}
+          </div>
+        );
+      case 'scorm':
+        return (
+          <div className="flex flex-col items-center w-full">
+            <h2 className="text-xl font-bold text-mahsa-navy mb-4 w-full px-2">{slide.title}</h2>
+            <ScormPlayer key={slide.id} slide={slide} learner={learner} onResult={setScormResult} />
+          </div>
+        );
+      case 'scenario': {
+        const consequence = choice !== null ? slide.choices?.[choice]?.consequence : undefined;
         return (
           <div className="flex flex-col w-full px-2">
-             <div className="flex justify-between items-start mb-6">
-                <h2 className="text-xl font-bold text-mahsa-navy">{slide.quizData?.question}</h2>
-                <div className={`${isFailed ? 'bg-slate-100 text-slate-500' : 'bg-orange-100 text-orange-600'} px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wide ml-2 transition-colors`}>
-                  {isFailed ? '0 XP (Retry)' : `${XP_PER_SLIDE} XP`}
-                </div>
-             </div>
-             <div className="space-y-3">
-               {slide.quizData?.options.map((option, idx) => {
-                 let btnClass = "w-full p-4 text-left rounded-xl border-2 transition-all font-medium flex justify-between items-center ";
-                 if (isAnswerChecked) {
-                   if (idx === slide.quizData?.correctIndex) btnClass += "border-green-500 bg-green-50 text-green-700";
-                   else if (idx === selectedOption) btnClass += "border-red-500 bg-red-50 text-red-700";
-                   else btnClass += "border-transparent bg-slate-50 text-slate-400";
-                 } else {
-                    if (selectedOption === idx) btnClass += "border-mahsa-teal bg-cyan-50 text-mahsa-navy shadow-sm";
-                    else btnClass += "border-slate-100 bg-white hover:border-blue-200 text-slate-700 hover:bg-slate-50";
-                 }
-                 return (
-                   <button key={idx} onClick={() => !isAnswerChecked && setSelectedOption(idx)} className={btnClass} disabled={isAnswerChecked}>
-                     <span>{option}</span>
-                     {isAnswerChecked && idx === slide.quizData?.correctIndex && <CheckCircle size={20} className="text-green-500" />}
-                     {isAnswerChecked && idx === selectedOption && idx !== slide.quizData?.correctIndex && <AlertCircle size={20} className="text-red-500" />}
-                   </button>
-                 );
-               })}
-             </div>
-             {isAnswerChecked && (
-               <div className={`mt-6 p-4 rounded-xl border ${isCorrect ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'} flex items-start gap-3 animate-in fade-in slide-in-from-bottom-2 duration-300`}>
-                 <div className="mt-0.5">{isCorrect ? <CheckCircle size={20}/> : <AlertCircle size={20}/>}</div>
-                 <div>
-                    <p className="font-bold text-sm">{isCorrect ? "Correct!" : "Incorrect"}</p>
-                    <p className="text-sm opacity-90">{isCorrect ? (isFailed ? "Good job fixing it." : "Great job! Earned 50 XP.") : "Try again to proceed."}</p>
-                 </div>
-               </div>
-             )}
+            {slide.image && <img src={slide.image} alt={slide.title} className="w-full h-48 object-cover rounded-2xl shadow-md mb-6"/>}
+            <h2 className="text-xl font-bold text-mahsa-navy mb-2">{slide.title}</h2>
+            {slide.contentFormat === 'markdown'
+              ? <MarkdownContent source={slide.content} className="text-slate-600 leading-relaxed" />
+              : <p className="text-slate-600 leading-relaxed">{slide.content}</p>}
+            <p className="text-[10px] font-bold uppercase tracking-wide text-slate-400 mt-6 mb-2">What do you do?</p>
+            <div className="space-y-3">
+              {(slide.choices || []).map((c, idx) => {
+                let btnClass = "w-full p-4 text-left rounded-xl border-2 transition-all font-medium flex justify-between items-center gap-3 ";
+                if (choice === null) btnClass += "border-slate-100 bg-white hover:border-blue-200 text-slate-700 hover:bg-slate-50";
+                else if (choice === idx) btnClass += "border-mahsa-teal bg-cyan-50 text-mahsa-navy shadow-sm";
+                else btnClass += "border-transparent bg-slate-50 text-slate-400";
+                return (
+                  <button key={idx} onClick={() => handleChoose(idx)} className={btnClass} disabled={choice !== null}>
+                    {c.label}
+                    {choice === idx && <CheckCircle size={20} className="text-mahsa-teal shrink-0" />}
+                  </button>
+                );
+              })}
+            </div>
+            {consequence && (
+              <div className="mt-6 p-4 rounded-xl border bg-amber-50 border-amber-200 text-amber-900 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                <p className="font-bold text-sm">What happens</p>
+                <p className="text-sm opacity-90">{consequence}</p>
+              </div>
+            )}
           </div>
         );
+      }
+      case 'quiz':
+      case 'hotspot':
+        return renderQuiz();
       default: return null;
     }
   };
 
-  const showQuizCheckBtn = slide.type === 'quiz' && !isAnswerChecked;
+  const showQuizCheckBtn = isQuestionSlide(slide) && !isAnswerChecked;
 
   return (
     <div className="fixed inset-0 z-50 bg-white flex flex-col max-w-[450px] mx-auto animate-in slide-in-from-bottom duration-300">
       <div className="h-16 px-4 flex items-center justify-between border-b border-slate-100 bg-white">
-        <button onClick={onClose} className="p-2 hover:bg-slate-50 rounded-full text-slate-500"><X size={24} /></button>
+        <button onClick={handleClose} className="p-2 hover:bg-slate-50 rounded-full text-slate-500"><X size={24} /></button>
         <div className="flex-1 mx-4 h-2 bg-slate-100 rounded-full overflow-hidden">
           <div className="h-full bg-mahsa-teal transition-all duration-500" style={{ width: `${progress}%` }}/>
         </div>
@@ -174,16 +626,24 @@ const CoursePlayer: React.FC<CoursePlayerProps> = ({ course, onClose, onComplete
       </div>
       <div className="flex-1 overflow-y-auto p-6 flex flex-col">{renderContent()}</div>
       <div className="p-6 border-t border-slate-100 bg-white">
-        {showQuizCheckBtn ? (
-           <Button fullWidth onClick={handleQuizSubmit} disabled={selectedOption === null} variant="secondary">Check Answer</Button>
+        {result ? (
+           result.attempt.passed
+             ? <Button fullWidth onClick={() => onComplete(course.id, result.xp, maxXpFor(result.xp, failedSlides))} variant="secondary">Finish Module</Button>
+             : <Button fullWidth onClick={onClose} variant="outline">Close</Button>
+        ) : showQuizCheckBtn ? (
+           <Button fullWidth onClick={handleQuizSubmit} disabled={currentResponse() === null} variant="secondary">
+             {assessment ? (isLastSlide && !hasMoreQuestions ? 'Submit Assessment' : 'Submit Answer') : 'Check Answer'}
+           </Button>
         ) : (
            <div className="w-full">
-             {slide.type === 'quiz' && !isCorrect ? (
+             {isQuestionSlide(slide) && !isCorrect ? (
                 <Button fullWidth onClick={handleRetry} variant="outline" className="flex items-center justify-center gap-2"><RotateCcw size={18} /> Try Again</Button>
+             ) : isQuestionSlide(slide) && hasMoreQuestions ? (
+                <Button fullWidth onClick={handleNextQuestion} className="flex items-center justify-center gap-2">Next Question <ChevronRight size={20} /></Button>
              ) : (
-                <Button fullWidth onClick={handleNext} variant={isLastSlide ? "secondary" : "primary"} className="flex items-center justify-center gap-2">
-                  {isLastSlide ? "Finish Module" : "Continue"}
-                  {!isLastSlide && <ChevronRight size={20} />}
+                <Button fullWidth onClick={handleNext} disabled={blockedLabel !== null} variant={isLastSlide ? "secondary" : "primary"} className="flex items-center justify-center gap-2">
+                  {blockedLabel ?? (isLastSlide ? (assessment ? "Submit Assessment" : isReview ? "Finish Review" : "Finish Module") : "Continue")}
+                  {!isLastSlide && !blockedLabel && <ChevronRight size={20} />}
                 </Button>
              )}
            </div>
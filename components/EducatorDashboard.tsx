@@ -1,21 +1,43 @@
 import React, { useState, useRef } from 'react';
-import { User, Course, Role } from '../types';
+import { User, Course, CourseContent, CourseVersion, CourseTemplate, Badge, Role, QuizAttempt, PinResetCode, PinResetRecord } from '../types';
 import Button from './Button';
 import Input from './Input';
 import CourseBuilder from './CourseBuilder';
+import BadgeManager from './BadgeManager';
+import TemplatePicker from './TemplatePicker';
+import { QUESTION_KIND_LABELS } from '../services/quizScoring';
+import { assessmentAttempts, attemptsLeft } from '../services/assessment';
+import { watchedPercent } from '../services/video';
+import { isPublished, isArchived, isLive, currentVersion } from '../services/courseVersions';
+import { duplicateContent, toTemplate } from '../services/courseTemplates';
+import { buildPackage, readPackage, uploadBundledMedia, packageFileName, PackageReport, PACKAGE_EXTENSION } from '../services/coursePackage';
+import { buildScormPackage, scormFileName, ScormStandard, SCORM_STANDARD_LABELS } from '../services/scormExport';
+import { readScormImport } from '../services/scorm';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
-import { Users, BookOpen, Plus, LogOut, Search, Pencil, Download, Upload, Trash2, X, UserPlus, FileSpreadsheet, ShieldCheck, Library } from 'lucide-react';
+import { Users, BookOpen, Plus, LogOut, Search, Pencil, Download, Upload, Trash2, X, UserPlus, FileSpreadsheet, ShieldCheck, Library, Lock, Unlock, KeyRound, Award, ClipboardCheck, Archive, ArchiveRestore, ChevronDown, Copy, AlertTriangle, Package, Loader2 } from 'lucide-react';
 
 interface EducatorDashboardProps {
   user: User;
   users: User[];
   courses: Course[];
-  onAddCourse: (courseData: Omit<Course, 'id'>) => void;
-  onUpdateCourse: (course: Course) => void;
+  badges: Badge[];
+  onAddCourse: (content: CourseContent, publish: boolean) => void;
+  onUpdateCourse: (courseId: string, content: CourseContent, publish: boolean) => void;
+  onRollbackCourse: (version: CourseVersion) => void;
+  onLoadCourseVersions: (courseId: string) => Promise<CourseVersion[]>;
+  onArchiveCourse: (courseId: string, archived: boolean) => void;
+  templates: CourseTemplate[];
+  onSaveTemplate: (template: CourseTemplate) => void;
+  onDeleteTemplate: (templateId: string) => void;
+  onSaveBadge: (badge: Badge) => void;
   onAddUser: (user: User) => void;
   onUpdateUser: (user: User) => void;
   onRemoveUser: (userId: string) => void;
+  onUnlockUser: (userId: string) => void;
+  onIssueResetCode: (userId: string) => Promise<PinResetCode>;
+  onLoadPinResets: (userId: string) => Promise<PinResetRecord[]>;
   onImportUsers: (users: User[]) => void;
+  onUploadMedia: (file: Blob) => Promise<string>;
   onLogout: () => void;
 }
 
@@ -23,28 +45,60 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
   user,
   users, 
   courses, 
+  badges,
   onAddCourse,
   onUpdateCourse,
+  onRollbackCourse,
+  onLoadCourseVersions,
+  onArchiveCourse,
+  templates,
+  onSaveTemplate,
+  onDeleteTemplate,
+  onSaveBadge,
   onAddUser,
   onUpdateUser,
   onRemoveUser,
+  onUnlockUser,
+  onIssueResetCode,
+  onLoadPinResets,
   onImportUsers,
+  onUploadMedia,
   onLogout 
 }) => {
-  const [activeTab, setActiveTab] = useState<'compliance' | 'courses' | 'users'>('compliance');
+  const [activeTab, setActiveTab] = useState<'compliance' | 'courses' | 'badges' | 'users'>('compliance');
   const [isBuilderOpen, setIsBuilderOpen] = useState(false);
   const [editingCourse, setEditingCourse] = useState<Course | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [isTemplatePickerOpen, setIsTemplatePickerOpen] = useState(false);
+  const [startFrom, setStartFrom] = useState<CourseContent | undefined>(undefined); // Template or duplicate a new course begins as
   
   // User Management State
   const [isAddUserOpen, setIsAddUserOpen] = useState(false);
   const [isEditUserMode, setIsEditUserMode] = useState(false);
-  const [newUser, setNewUser] = useState({ name: '', id: '', pin: '', role: 'Nurse' as Role });
+  const [newUser, setNewUser] = useState({ name: '', id: '', pin: '', role: 'Nurse' as Role, streakFrozenUntil: '' });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const packageInputRef = useRef<HTMLInputElement>(null);
+  const [packageReport, setPackageReport] = useState<PackageReport | null>(null);
+  const [exportingCourse, setExportingCourse] = useState<Course | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isUploadingImport, setIsUploadingImport] = useState(false);
+
+  // PIN Reset Code State
+  const [resetCodeUser, setResetCodeUser] = useState<User | null>(null);
+  const [issuedCode, setIssuedCode] = useState<PinResetCode | null>(null);
+  const [resetLog, setResetLog] = useState<PinResetRecord[]>([]);
+  const [resetCodeError, setResetCodeError] = useState<string | null>(null);
+  const [isIssuingCode, setIsIssuingCode] = useState(false);
 
   // Stats Logic
   const nurses = users.filter(u => u.role === 'Nurse');
-  const totalAssignments = nurses.length * courses.length;
-  const totalCompletions = nurses.reduce((acc, user) => acc + user.completedCourses.length, 0);
+  // Drafts aren't assigned to anyone yet, and archived courses no longer are
+  const liveCourses = courses.filter(isLive);
+  const archivedCourses = courses.filter(isArchived);
+  // Completions of archived courses are kept for audit but no longer count
+  const liveCompletions = (nurse: User) => nurse.completedCourses.filter(id => liveCourses.some(c => c.id === id)).length;
+  const totalAssignments = nurses.length * liveCourses.length;
+  const totalCompletions = nurses.reduce((acc, user) => acc + liveCompletions(user), 0);
   const completionRate = totalAssignments > 0 ? Math.round((totalCompletions / totalAssignments) * 100) : 0;
 
   const data = [
@@ -53,23 +107,141 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
   ];
   const COLORS = ['#10b981', '#cbd5e1']; // Green and Slate-300
 
+  // Graded courses each nurse has failed and not yet passed
+  const failedAssessments = nurses.flatMap(nurse => liveCourses
+    .filter(c => c.assessment && !nurse.completedCourses.includes(c.id))
+    .map(course => ({ nurse, course, attempts: assessmentAttempts(nurse, course.id).filter(a => !a.passed) }))
+    .filter(row => row.attempts.length > 0));
+
   // Derive unique categories for the builder
   const availableCategories = Array.from(new Set(courses.map(c => c.category))).sort();
 
   // --- Course Handlers ---
 
-  const handleSaveCourse = (courseData: Omit<Course, 'id'>) => {
+  const closeBuilder = () => {
+    setIsBuilderOpen(false);
+    setEditingCourse(null);
+    setStartFrom(undefined);
+  };
+
+  const handleSaveCourse = (content: CourseContent, publish: boolean) => {
     if (editingCourse) {
-      onUpdateCourse({ ...courseData, id: editingCourse.id });
+      onUpdateCourse(editingCourse.id, content, publish);
     } else {
-      onAddCourse(courseData);
+      onAddCourse(content, publish);
+    }
+    closeBuilder();
+  };
+
+  const handleRollbackCourse = (version: CourseVersion) => {
+    onRollbackCourse(version);
+    closeBuilder();
+  };
+
+  // Saved as a new template; the course itself stays open in the builder
+  const handleSaveAsTemplate = (name: string, content: CourseContent) => {
+    onSaveTemplate(toTemplate(name, content, user.id));
+  };
+
+  const handleArchiveCourse = (e: React.MouseEvent, course: Course) => {
+    e.stopPropagation(); // The card itself opens the builder
+    if (!confirm(`Archive "${course.title}"? Nurses will no longer see it and it leaves the compliance figures. Completions and answers are kept, and it can be restored.`)) return;
+    onArchiveCourse(course.id, true);
+  };
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportCourse = (e: React.MouseEvent, course: Course) => {
+    e.stopPropagation(); // The card itself opens the builder
+    setExportingCourse(course);
+  };
+
+  // A course package for another campus of this app, or a zip for the hospital's LMS
+  const handleExport = async (format: 'package' | ScormStandard) => {
+    if (!exportingCourse) return;
+    setIsExporting(true);
+    try {
+      if (format === 'package') {
+        const { pkg, warnings } = await buildPackage(exportingCourse);
+        downloadBlob(new Blob([JSON.stringify(pkg)], { type: 'application/json' }), packageFileName(exportingCourse.title));
+        if (warnings.length > 0) alert(`Exported, with some media left as links:\n${warnings.join('\n')}`);
+      } else {
+        const { blob, warnings } = await buildScormPackage(exportingCourse, format);
+        downloadBlob(blob, scormFileName(exportingCourse.title, format));
+        if (warnings.length > 0) alert(`Exported, with these differences from the app:\n${warnings.join('\n')}`);
+      }
+      setExportingCourse(null);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'The export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Checked first; a package that passes opens in the builder under new IDs, to be saved like any new course.
+  // A SCORM zip becomes a course with one SCORM slide.
+  const handlePackageFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      readScormImport(file).then(setPackageReport);
+      if (packageInputRef.current) packageInputRef.current.value = '';
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        setPackageReport(readPackage(JSON.parse(event.target?.result as string), courses));
+      } catch {
+        setPackageReport({ content: null, files: {}, errors: ['This file is not readable JSON.'], warnings: [] });
+      }
+      if (packageInputRef.current) packageInputRef.current.value = '';
+    };
+    reader.readAsText(file);
+  };
+
+  // The bundled files are uploaded first, so the course only ever holds links to them
+  const handleOpenImport = async () => {
+    if (!packageReport?.content) return;
+    setIsUploadingImport(true);
+    try {
+      const content = await uploadBundledMedia(packageReport.content, packageReport.files, onUploadMedia);
+      setEditingCourse(null);
+      setStartFrom(content);
+      setPackageReport(null);
+      setIsBuilderOpen(true);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'The bundled files could not be uploaded.');
+    } finally {
+      setIsUploadingImport(false);
     }
-    setIsBuilderOpen(false);
-    setEditingCourse(null);
   };
 
   const handleCreateNew = () => {
+    setIsTemplatePickerOpen(true);
+  };
+
+  const handlePickTemplate = (content: CourseContent | undefined) => {
+    setIsTemplatePickerOpen(false);
+    setEditingCourse(null);
+    setStartFrom(content);
+    setIsBuilderOpen(true);
+  };
+
+  // Opens the builder on a copy with new IDs; nothing is saved until the educator does
+  const handleDuplicateCourse = (e: React.MouseEvent, course: Course) => {
+    e.stopPropagation(); // The card itself opens the builder
     setEditingCourse(null);
+    setStartFrom(duplicateContent(course));
     setIsBuilderOpen(true);
   };
 
@@ -81,24 +253,27 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
   // --- User Handlers ---
 
   const handleOpenAddUser = () => {
-    setNewUser({ name: '', id: '', pin: '', role: 'Nurse' });
+    setNewUser({ name: '', id: '', pin: '', role: 'Nurse', streakFrozenUntil: '' });
     setIsEditUserMode(false);
     setIsAddUserOpen(true);
   };
 
   const handleOpenEditUser = (user: User) => {
+    // PINs are never sent to the browser; leaving the field blank keeps the current one
     setNewUser({
       name: user.name,
       id: user.id,
-      pin: user.pin,
-      role: user.role
+      pin: '',
+      role: user.role,
+      streakFrozenUntil: user.streakFrozenUntil || ''
     });
     setIsEditUserMode(true);
     setIsAddUserOpen(true);
   };
 
   const handleSaveUser = () => {
-    if(!newUser.name || !newUser.id || !newUser.pin) return;
+    if(!newUser.name || !newUser.id) return;
+    if(!isEditUserMode && !newUser.pin) return;
     
     if (isEditUserMode) {
       // Find original user to preserve XP, badges, etc.
@@ -107,8 +282,9 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
         const updatedUser: User = {
           ...originalUser,
           name: newUser.name,
-          pin: newUser.pin,
+          pin: newUser.pin || undefined,
           role: newUser.role,
+          streakFrozenUntil: newUser.streakFrozenUntil || undefined,
           // Update avatar if name changed, otherwise keep original
           avatar: originalUser.name !== newUser.name 
             ? `https://ui-avatars.com/api/?name=${encodeURIComponent(newUser.name)}&background=random`
@@ -133,13 +309,41 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
     }
     
     setIsAddUserOpen(false);
-    setNewUser({ name: '', id: '', pin: '', role: 'Nurse' });
+    setNewUser({ name: '', id: '', pin: '', role: 'Nurse', streakFrozenUntil: '' });
     setIsEditUserMode(false);
   };
 
+  // --- PIN Reset Handlers ---
+
+  const handleOpenResetCode = (target: User) => {
+    setResetCodeUser(target);
+    setIssuedCode(null);
+    setResetCodeError(null);
+    setResetLog([]);
+    onLoadPinResets(target.id)
+      .then(setResetLog)
+      .catch(e => console.error("Failed to load PIN reset log", e));
+  };
+
+  const handleIssueResetCode = async () => {
+    if (!resetCodeUser) return;
+    setIsIssuingCode(true);
+    setResetCodeError(null);
+    try {
+      const code = await onIssueResetCode(resetCodeUser.id);
+      setIssuedCode(code);
+      setResetLog(await onLoadPinResets(resetCodeUser.id));
+    } catch (e) {
+      console.error("Failed to issue reset code", e);
+      setResetCodeError(e instanceof Error ? e.message : 'Could not issue a reset code.');
+    } finally {
+      setIsIssuingCode(false);
+    }
+  };
+
   const handleExportCSV = () => {
-    const headers = ["id,name,pin,role,xp\n"];
-    const rows = users.map(u => `${u.id},"${u.name}",${u.pin},${u.role},${u.xp}`).join("\n");
+    const headers = ["id,name,role,xp\n"];
+    const rows = users.map(u => `${u.id},"${u.name}",${u.role},${u.xp}`).join("\n");
     const csvContent = "data:text/csv;charset=utf-8," + headers + rows;
     const encodedUri = encodeURI(csvContent);
     const link = document.createElement("a");
@@ -150,19 +354,25 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
     document.body.removeChild(link);
   };
 
-  const handleExportQuizCSV = () => {
-    const headers = ["Timestamp,User Name,Staff ID,Course,Question,Selected Answer,Is Correct\n"];
+  // Course answers and review answers are exported separately, so review doesn't skew the first-pass figures
+  const exportAttemptsCSV = (attemptsOf: (u: User) => QuizAttempt[] | undefined, filename: string) => {
+    const headers = ["Timestamp,User Name,Staff ID,Course,Course Version,Question,Question Type,Variant,Selected Answer,Is Correct,Rationale Shown\n"];
     
     const rows = users.flatMap(u => {
-      // Safely handle if quizAttempts is undefined
-      return (u.quizAttempts || []).map(attempt => {
+      // Safely handle if the history is undefined
+      return (attemptsOf(u) || []).map(attempt => {
         const course = courses.find(c => c.id === attempt.courseId);
         const courseTitle = course ? course.title.replace(/,/g, '') : 'Unknown Course'; // Remove commas to prevent CSV break
         const safeQuestion = attempt.question.replace(/,/g, ' ');
         const safeAnswer = attempt.selectedOption.replace(/,/g, ' ');
         const date = new Date(attempt.timestamp).toLocaleString();
+        const questionType = QUESTION_KIND_LABELS[attempt.response?.kind ?? 'single'];
+        const variant = `Q${(attempt.variant ?? 0) + 1}`;
+        const version = attempt.courseVersion ? `v${attempt.courseVersion}` : ''; // Blank for answers logged before versioning
+        // One rationale per line in the app; a single cell here
+        const safeRationale = (attempt.rationaleShown || '').replace(/[\n,]/g, ' ').replace(/"/g, "'");
         
-        return `${date},"${u.name}",${u.id},"${courseTitle}","${safeQuestion}","${safeAnswer}",${attempt.isCorrect ? 'Correct' : 'Wrong'}`;
+        return `${date},"${u.name}",${u.id},"${courseTitle}",${version},"${safeQuestion}",${questionType},${variant},"${safeAnswer}",${attempt.isCorrect ? 'Correct' : 'Wrong'},"${safeRationale}"`;
       });
     }).join("\n");
 
@@ -170,7 +380,60 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
     const encodedUri = encodeURI(csvContent);
     const link = document.createElement("a");
     link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "mahsa_quiz_analysis.csv");
+    link.setAttribute("download", filename);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleExportQuizCSV = () => exportAttemptsCSV(u => u.quizAttempts, "mahsa_quiz_analysis.csv");
+
+  const handleExportReviewCSV = () => exportAttemptsCSV(u => u.reviewAttempts, "mahsa_review_log.csv");
+
+  const handleExportVideoCSV = () => {
+    const headers = ["Timestamp,User Name,Staff ID,Course,Slide,Watched Seconds,Duration Seconds,Percent Watched\n"];
+
+    const rows = users.flatMap(u => (u.videoWatches || []).map(watch => {
+      const course = courses.find(c => c.id === watch.courseId);
+      const courseTitle = course ? course.title.replace(/,/g, '') : 'Unknown Course';
+      const slide = course?.slides.find(s => s.id === watch.slideId);
+      const slideTitle = slide ? slide.title.replace(/,/g, ' ') : watch.slideId;
+      const date = new Date(watch.timestamp).toLocaleString();
+
+      return `${date},"${u.name}",${u.id},"${courseTitle}","${slideTitle}",${watch.watchedSeconds},${watch.durationSeconds},${watchedPercent(watch.watchedSeconds, watch.durationSeconds)}%`;
+    })).join("\n");
+
+    const csvContent = "data:text/csv;charset=utf-8," + headers + rows;
+    const encodedUri = encodeURI(csvContent);
+    const link = document.createElement("a");
+    link.setAttribute("href", encodedUri);
+    link.setAttribute("download", "mahsa_video_watch_log.csv");
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  // One row per choice; rows sharing Run Started are one learner's path through the scenario
+  const handleExportScenarioCSV = () => {
+    const headers = ["Timestamp,User Name,Staff ID,Course,Run Started,Decision Point,Choice\n"];
+
+    const rows = users.flatMap(u => (u.scenarioDecisions || []).map(decision => {
+      const course = courses.find(c => c.id === decision.courseId);
+      const courseTitle = course ? course.title.replace(/,/g, '') : 'Unknown Course';
+      const slide = course?.slides.find(s => s.id === decision.slideId);
+      const slideTitle = slide ? slide.title.replace(/,/g, ' ') : decision.slideId;
+      const safeChoice = decision.choice.replace(/,/g, ' ').replace(/"/g, "'");
+      const date = new Date(decision.timestamp).toLocaleString();
+      const runStarted = new Date(decision.runStartedAt).toLocaleString();
+
+      return `${date},"${u.name}",${u.id},"${courseTitle}",${runStarted},"${slideTitle}","${safeChoice}"`;
+    })).join("\n");
+
+    const csvContent = "data:text/csv;charset=utf-8," + headers + rows;
+    const encodedUri = encodeURI(csvContent);
+    const link = document.createElement("a");
+    link.setAttribute("href", encodedUri);
+    link.setAttribute("download", "mahsa_scenario_decisions.csv");
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -241,8 +504,13 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
     return (
       <CourseBuilder 
         initialCourse={editingCourse || undefined}
+        startFrom={startFrom}
         onSave={handleSaveCourse} 
-        onCancel={() => { setIsBuilderOpen(false); setEditingCourse(null); }} 
+        onRollback={handleRollbackCourse}
+        onLoadVersions={onLoadCourseVersions}
+        onSaveAsTemplate={handleSaveAsTemplate}
+        onUploadMedia={onUploadMedia}
+        onCancel={closeBuilder} 
         availableCategories={availableCategories}
       />
     );
@@ -272,7 +540,7 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
         {/* Admin Overview Stats inside Header */}
         <div className="flex gap-8 mt-6 px-2">
             <div className="flex flex-col">
-                <span className="text-2xl font-bold text-white leading-none">{courses.length}</span>
+                <span className="text-2xl font-bold text-white leading-none">{liveCourses.length}</span>
                 <span className="text-[10px] text-indigo-300 uppercase tracking-wide font-semibold mt-1">Modules</span>
             </div>
             <div className="flex flex-col">
@@ -303,6 +571,13 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
              <Library size={18} className={activeTab === 'courses' ? 'text-indigo-600' : 'text-slate-400'}/>
             Courses
           </button>
+          <button 
+            onClick={() => setActiveTab('badges')}
+            className={`flex-1 py-3 text-xs sm:text-sm font-bold rounded-xl transition-all flex flex-col items-center gap-1 ${activeTab === 'badges' ? 'bg-indigo-50 text-indigo-900 shadow-sm' : 'text-slate-400 hover:bg-slate-50'}`}
+          >
+             <Award size={18} className={activeTab === 'badges' ? 'text-indigo-600' : 'text-slate-400'}/>
+            Badges
+          </button>
           <button 
             onClick={() => setActiveTab('users')}
             className={`flex-1 py-3 text-xs sm:text-sm font-bold rounded-xl transition-all flex flex-col items-center gap-1 ${activeTab === 'users' ? 'bg-indigo-50 text-indigo-900 shadow-sm' : 'text-slate-400 hover:bg-slate-50'}`}
@@ -348,13 +623,43 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
               </div>
             </div>
 
+            {/* Failed Assessments */}
+            {failedAssessments.length > 0 && (
+              <div>
+                <h3 className="text-sm font-bold text-slate-700 mb-3">Failed Assessments</h3>
+                <div className="space-y-3">
+                  {failedAssessments.map(({ nurse, course, attempts }) => {
+                    const last = attempts[attempts.length - 1];
+                    const left = attemptsLeft(nurse, course);
+                    return (
+                      <div key={`${nurse.id}-${course.id}`} className="bg-white p-3 rounded-xl border border-red-100 flex items-center justify-between shadow-sm">
+                        <div className="flex items-center gap-3">
+                          <div className="p-2 bg-red-50 text-red-500 rounded-full"><ClipboardCheck size={16} /></div>
+                          <div>
+                            <p className="text-sm font-bold text-slate-800">{nurse.name}</p>
+                            <p className="text-xs text-slate-500">{course.title}</p>
+                            <p className="text-[10px] text-slate-400">
+                              {attempts.length} failed · last {last.unfinished ? 'left unfinished' : `${last.scorePercent}%`} on {new Date(last.timestamp).toLocaleDateString()}
+                            </p>
+                          </div>
+                        </div>
+                        <span className={`text-xs px-2 py-1 rounded-full font-bold ${left === 0 ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-700'}`}>
+                          {left === null ? 'Retrying' : left === 0 ? 'No tries left' : `${left} left`}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Staff List */}
             <div>
               <h3 className="text-sm font-bold text-slate-700 mb-3">Staff Breakdown</h3>
               <div className="space-y-3">
                 {nurses.map(nurse => {
-                  const doneCount = nurse.completedCourses.length;
-                  const total = courses.length;
+                  const doneCount = liveCompletions(nurse);
+                  const total = liveCourses.length;
                   const isAllDone = doneCount === total && total > 0;
                   return (
                     <div key={nurse.id} className="bg-white p-3 rounded-xl border border-slate-100 flex items-center justify-between shadow-sm">
@@ -378,11 +683,20 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
 
         {activeTab === 'courses' && (
           <div className="space-y-4 animate-in fade-in duration-500 pt-2">
-             <Button fullWidth onClick={handleCreateNew} className="flex items-center justify-center gap-2 mb-2 bg-indigo-600 hover:bg-indigo-700 text-white shadow-indigo-200">
-               <Plus size={20} /> Create New Course
-             </Button>
+             <div className="grid grid-cols-3 gap-3 mb-2">
+               <Button onClick={handleCreateNew} className="col-span-2 flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white shadow-indigo-200">
+                 <Plus size={20} /> Create New Course
+               </Button>
+               <button 
+                 onClick={() => packageInputRef.current?.click()}
+                 className="bg-white border border-slate-200 text-slate-600 rounded-xl flex items-center justify-center gap-1 text-xs font-semibold hover:bg-slate-50 shadow-sm"
+               >
+                 <Upload size={16} /> Import
+               </button>
+               <input type="file" accept={`${PACKAGE_EXTENSION},.json,.zip`} ref={packageInputRef} onChange={handlePackageFile} className="hidden" />
+             </div>
              
-             {courses.map(course => (
+             {courses.filter(c => !isArchived(c)).map(course => (
                <div 
                  key={course.id} 
                  onClick={() => handleEditCourse(course)}
@@ -392,19 +706,72 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
                     <div>
                       <div className="flex items-center gap-2 mb-1">
                          <span className="text-[10px] font-bold text-indigo-500 bg-indigo-50 px-2 py-0.5 rounded uppercase tracking-wider">{course.category}</span>
+                         {course.assessment && (
+                           <span className="text-[10px] font-bold text-orange-600 bg-orange-50 px-2 py-0.5 rounded uppercase tracking-wider">Graded · {course.assessment.passPercent}%</span>
+                         )}
+                         {isPublished(course) ? (
+                           <span className={`text-[10px] font-bold px-2 py-0.5 rounded uppercase tracking-wider ${course.draft ? 'text-amber-700 bg-amber-50' : 'text-slate-500 bg-slate-100'}`}>
+                             v{currentVersion(course)}{course.draft && ' · unpublished changes'}
+                           </span>
+                         ) : (
+                           <span className="text-[10px] font-bold text-slate-500 bg-slate-100 px-2 py-0.5 rounded uppercase tracking-wider border border-dashed border-slate-300">Draft</span>
+                         )}
                       </div>
                       <h3 className="font-bold text-slate-800">{course.title}</h3>
                       <p className="text-xs text-slate-500 mt-1">{course.slides.length} slides • {course.durationMinutes} min</p>
                     </div>
-                    <button className="text-slate-300 group-hover:text-indigo-500 transition-colors p-1 bg-slate-50 rounded-full group-hover:bg-indigo-50">
-                      <Pencil size={16}/>
-                    </button>
+                    <div className="flex items-center gap-1">
+                      <button onClick={e => handleExportCourse(e, course)} className="text-slate-300 hover:text-indigo-500 transition-colors p-1 bg-slate-50 rounded-full hover:bg-indigo-50" title="Export">
+                        <Download size={16}/>
+                      </button>
+                      <button onClick={e => handleDuplicateCourse(e, course)} className="text-slate-300 hover:text-indigo-500 transition-colors p-1 bg-slate-50 rounded-full hover:bg-indigo-50" title="Duplicate">
+                        <Copy size={16}/>
+                      </button>
+                      <button onClick={e => handleArchiveCourse(e, course)} className="text-slate-300 hover:text-red-500 transition-colors p-1 bg-slate-50 rounded-full hover:bg-red-50" title="Archive">
+                        <Archive size={16}/>
+                      </button>
+                      <button className="text-slate-300 group-hover:text-indigo-500 transition-colors p-1 bg-slate-50 rounded-full group-hover:bg-indigo-50">
+                        <Pencil size={16}/>
+                      </button>
+                    </div>
                   </div>
                </div>
              ))}
+
+             {archivedCourses.length > 0 && (
+               <div className="pt-2">
+                 <button 
+                   onClick={() => setShowArchived(!showArchived)} 
+                   className="w-full flex items-center justify-between text-sm font-bold text-slate-500 px-1 py-2"
+                 >
+                   <span className="flex items-center gap-2"><Archive size={16} /> Archived ({archivedCourses.length})</span>
+                   <ChevronDown size={16} className={`transition-transform ${showArchived ? 'rotate-180' : ''}`} />
+                 </button>
+                 {showArchived && (
+                   <div className="space-y-3 mt-2">
+                     {archivedCourses.map(course => (
+                       <div key={course.id} className="bg-slate-50 p-4 rounded-2xl border border-dashed border-slate-200 flex justify-between items-center">
+                         <div>
+                           <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{course.category}</span>
+                           <h3 className="font-bold text-slate-500">{course.title}</h3>
+                           <p className="text-xs text-slate-400 mt-1">Archived {new Date(course.archivedAt!).toLocaleDateString()} • records kept</p>
+                         </div>
+                         <Button variant="outline" onClick={() => onArchiveCourse(course.id, false)} className="flex items-center gap-2 text-xs py-2 px-3">
+                           <ArchiveRestore size={16} /> Restore
+                         </Button>
+                       </div>
+                     ))}
+                   </div>
+                 )}
+               </div>
+             )}
           </div>
         )}
 
+        {activeTab === 'badges' && (
+          <BadgeManager badges={badges} users={users} courses={courses} onSaveBadge={onSaveBadge} />
+        )}
+
         {activeTab === 'users' && (
            <div className="space-y-4 animate-in fade-in duration-500 pt-2">
              
@@ -438,9 +805,35 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
                 <FileSpreadsheet size={18} className="text-green-600"/> Export Quiz Analysis Log
               </Button>
 
+             <Button 
+                onClick={handleExportReviewCSV}
+                variant="outline"
+                className="w-full flex items-center justify-center gap-2 mb-4 text-sm border-dashed border-2"
+              >
+                <FileSpreadsheet size={18} className="text-cyan-600"/> Export Review Log
+              </Button>
+
+             <Button 
+                onClick={handleExportVideoCSV}
+                variant="outline"
+                className="w-full flex items-center justify-center gap-2 mb-4 text-sm border-dashed border-2"
+              >
+                <FileSpreadsheet size={18} className="text-purple-600"/> Export Video Watch Log
+              </Button>
+
+             <Button 
+                onClick={handleExportScenarioCSV}
+                variant="outline"
+                className="w-full flex items-center justify-center gap-2 mb-4 text-sm border-dashed border-2"
+              >
+                <FileSpreadsheet size={18} className="text-indigo-600"/> Export Scenario Decisions
+              </Button>
+
              <div className="space-y-3">
-               {users.map(u => (
-                 <div key={u.id} className="bg-white p-3 rounded-xl border border-slate-100 flex items-center justify-between shadow-sm">
+               {users.map(u => {
+                 const isLocked = !!u.lockedUntil && u.lockedUntil > Date.now();
+                 return (
+                 <div key={u.id} className={`bg-white p-3 rounded-xl border flex items-center justify-between shadow-sm ${isLocked ? 'border-red-200' : 'border-slate-100'}`}>
                     <div className="flex items-center gap-3">
                       <div className="w-10 h-10 rounded-full bg-slate-100 overflow-hidden border border-slate-100">
                         <img src={u.avatar} alt={u.name} className="w-full h-full object-cover"/>
@@ -451,11 +844,32 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
                            <span className="font-mono bg-slate-50 px-1.5 py-0.5 rounded text-slate-600 font-semibold">{u.id}</span>
                            <span>•</span>
                            <span className={u.role === 'Educator' ? 'text-indigo-600 font-bold' : ''}>{u.role}</span>
+                           {isLocked && (
+                             <span className="flex items-center gap-0.5 text-[10px] font-bold text-red-600 bg-red-50 px-1.5 py-0.5 rounded">
+                               <Lock size={10} /> Locked
+                             </span>
+                           )}
                         </div>
                       </div>
                     </div>
                     
                     <div className="flex items-center gap-1">
+                      {isLocked && (
+                        <button 
+                          onClick={() => onUnlockUser(u.id)}
+                          className="p-2 text-red-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-full transition-colors"
+                          title="Unlock Account"
+                        >
+                          <Unlock size={18} />
+                        </button>
+                      )}
+                      <button 
+                        onClick={() => handleOpenResetCode(u)}
+                        className="p-2 text-slate-300 hover:text-amber-500 hover:bg-amber-50 rounded-full transition-colors"
+                        title="Issue PIN Reset Code"
+                      >
+                        <KeyRound size={18} />
+                      </button>
                       <button 
                         onClick={() => handleOpenEditUser(u)}
                         className="p-2 text-slate-300 hover:text-indigo-500 hover:bg-indigo-50 rounded-full transition-colors"
@@ -472,7 +886,8 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
                       </button>
                     </div>
                  </div>
-               ))}
+                 );
+               })}
              </div>
              
              <div className="p-4 bg-blue-50 rounded-xl text-xs text-blue-700 leading-relaxed border border-blue-100">
@@ -484,7 +899,146 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
         )}
       </div>
 
+      {/* PIN Reset Code Modal */}
+      {resetCodeUser && (
+        <div className="absolute inset-0 z-50 bg-black/50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in">
+           <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl animate-in zoom-in-95 max-h-full overflow-y-auto">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-bold text-mahsa-navy flex items-center gap-2">
+                  <KeyRound size={20} className="text-amber-500" /> PIN Reset
+                </h3>
+                <button onClick={() => setResetCodeUser(null)} className="p-2 bg-slate-50 rounded-full hover:bg-slate-100">
+                  <X size={20} className="text-slate-500"/>
+                </button>
+              </div>
+
+              <p className="text-sm text-slate-500 mb-4">
+                Generate a one-time code for <b>{resetCodeUser.name}</b> ({resetCodeUser.id}). Give it to them in person; they enter it under "Forgot your PIN?".
+              </p>
+
+              {issuedCode ? (
+                <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 text-center mb-4">
+                  <p className="text-[10px] uppercase font-bold tracking-wider text-amber-700 mb-1">Reset Code</p>
+                  <p className="text-3xl font-mono font-bold tracking-[0.3em] text-slate-800">{issuedCode.code}</p>
+                  <p className="text-xs text-amber-700 mt-2">
+                    Single use. Expires at {new Date(issuedCode.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+                  </p>
+                </div>
+              ) : (
+                <Button fullWidth onClick={handleIssueResetCode} disabled={isIssuingCode} className="mb-4 bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200">
+                  {isIssuingCode ? 'Generating...' : 'Generate Reset Code'}
+                </Button>
+              )}
+
+              {resetCodeError && (
+                <div className="bg-red-50 text-red-500 text-sm p-3 rounded-lg mb-4 text-center border border-red-100">
+                  {resetCodeError}
+                </div>
+              )}
+
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Reset Log</h4>
+              {resetLog.length === 0 ? (
+                <p className="text-xs text-slate-400">No reset codes issued yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {resetLog.slice(0, 5).map(record => {
+                    const status = record.usedAt
+                      ? `PIN reset ${new Date(record.usedAt).toLocaleString()}`
+                      : record.expiresAt > Date.now() ? 'Active' : 'Expired unused';
+                    return (
+                      <div key={record.issuedAt} className="text-xs bg-slate-50 border border-slate-100 rounded-lg p-2 flex justify-between gap-2">
+                        <span className="text-slate-500">Issued {new Date(record.issuedAt).toLocaleString()} by {record.issuedBy}</span>
+                        <span className={`font-semibold shrink-0 ${record.usedAt ? 'text-emerald-600' : 'text-slate-400'}`}>{status}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+           </div>
+        </div>
+      )}
+
       {/* Add/Edit User Modal */}
+      {packageReport && (
+        <div className="absolute inset-0 z-50 bg-black/50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in">
+           <div className="bg-white w-full max-w-sm max-h-full overflow-y-auto rounded-3xl p-6 shadow-2xl animate-in zoom-in-95">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-bold text-mahsa-navy">
+                  {packageReport.content ? `Import "${packageReport.content.title}"` : 'Cannot Import'}
+                </h3>
+                <button onClick={() => setPackageReport(null)} className="p-2 bg-slate-50 rounded-full hover:bg-slate-100">
+                  <X size={20} className="text-slate-500"/>
+                </button>
+              </div>
+              {packageReport.content && (
+                <p className="text-sm text-slate-500 mb-4">
+                  {packageReport.content.slides.length} slides. It opens in the builder as a new course with new IDs; nothing is saved until you save it.
+                </p>
+              )}
+              {packageReport.errors.length > 0 && (
+                <div className="mb-4 p-3 rounded-xl border border-red-200 bg-red-50 space-y-1">
+                  {packageReport.errors.map((m, i) => <p key={i} className="text-xs text-red-600 flex gap-2"><AlertTriangle size={14} className="shrink-0" />{m}</p>)}
+                </div>
+              )}
+              {packageReport.warnings.length > 0 && (
+                <div className="mb-4 p-3 rounded-xl border border-amber-200 bg-amber-50 space-y-1">
+                  {packageReport.warnings.map((m, i) => <p key={i} className="text-xs text-amber-700 flex gap-2"><AlertTriangle size={14} className="shrink-0" />{m}</p>)}
+                </div>
+              )}
+              {packageReport.content ? (
+                <Button fullWidth onClick={handleOpenImport} disabled={isUploadingImport} className="flex items-center justify-center gap-2">
+                  {isUploadingImport ? <><Loader2 className="animate-spin" size={18} /> Uploading Files...</> : 'Open in Builder'}
+                </Button>
+              ) : (
+                <Button fullWidth variant="outline" onClick={() => setPackageReport(null)}>Close</Button>
+              )}
+           </div>
+        </div>
+      )}
+
+      {exportingCourse && (
+        <div className="absolute inset-0 z-50 bg-black/50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in">
+           <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl animate-in zoom-in-95">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-bold text-mahsa-navy">Export "{exportingCourse.title}"</h3>
+                <button onClick={() => setExportingCourse(null)} className="p-2 bg-slate-50 rounded-full hover:bg-slate-100">
+                  <X size={20} className="text-slate-500"/>
+                </button>
+              </div>
+              {isExporting ? (
+                <div className="flex flex-col items-center py-6 text-slate-400">
+                  <Loader2 className="animate-spin text-mahsa-teal mb-2" size={32} />
+                  <span className="text-xs">Bundling media...</span>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <button onClick={() => handleExport('package')} className="w-full text-left p-3 rounded-xl border border-slate-200 hover:border-indigo-300 hover:bg-indigo-50 transition-colors">
+                    <p className="text-sm font-bold text-slate-800 flex items-center gap-2"><Download size={14} className="text-indigo-500" /> Course Package</p>
+                    <p className="text-xs text-slate-500 mt-0.5">For importing into MicroLearn at another campus.</p>
+                  </button>
+                  {(Object.keys(SCORM_STANDARD_LABELS) as ScormStandard[]).map(standard => (
+                    <button key={standard} onClick={() => handleExport(standard)} className="w-full text-left p-3 rounded-xl border border-slate-200 hover:border-amber-300 hover:bg-amber-50 transition-colors">
+                      <p className="text-sm font-bold text-slate-800 flex items-center gap-2"><Package size={14} className="text-amber-600" /> {SCORM_STANDARD_LABELS[standard]}</p>
+                      <p className="text-xs text-slate-500 mt-0.5">
+                        {standard === 'scorm12' ? 'For most corporate LMSs. Reports completion and score.' : 'For LMSs with xAPI. Reports completion and score as statements.'}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              )}
+           </div>
+        </div>
+      )}
+
+      {isTemplatePickerOpen && (
+        <TemplatePicker
+          templates={templates}
+          onPick={handlePickTemplate}
+          onDeleteTemplate={onDeleteTemplate}
+          onClose={() => setIsTemplatePickerOpen(false)}
+        />
+      )}
+
       {isAddUserOpen && (
         <div className="absolute inset-0 z-50 bg-black/50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in">
            <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl animate-in zoom-in-95">
@@ -512,12 +1066,21 @@ const EducatorDashboard: React.FC<EducatorDashboardProps> = ({
                    placeholder="e.g. Jane Doe" 
                  />
                  <Input 
-                   label="PIN Code" 
+                   label={isEditUserMode ? "New PIN (leave blank to keep)" : "PIN Code"} 
+                   type="password"
                    value={newUser.pin} 
                    onChange={e => setNewUser({...newUser, pin: e.target.value})} 
                    maxLength={4} 
                    placeholder="4 Digits" 
                  />
+                 {isEditUserMode && newUser.role === 'Nurse' && (
+                   <Input 
+                     label="Pause Streak Until (leave, blank for none)" 
+                     type="date"
+                     value={newUser.streakFrozenUntil} 
+                     onChange={e => setNewUser({...newUser, streakFrozenUntil: e.target.value})} 
+                   />
+                 )}
                  
                  <div className="flex flex-col gap-1 mb-6">
                     <label className="text-sm font-medium text-slate-600 ml-1">Role</label>
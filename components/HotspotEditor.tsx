@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { HotspotRegion } from '../types';
+import { Trash2, CheckCircle2 } from 'lucide-react';
+
+// A region being edited, with the label and answer flag it is saved with
+export interface DrawnRegion extends HotspotRegion {
+  label: string;
+  isTarget: boolean;
+}
+
+interface HotspotEditorProps {
+  image: string;
+  regions: DrawnRegion[];
+  onChange: (regions: DrawnRegion[]) => void;
+}
+
+type Point = { x: number; y: number };
+
+// Smaller drags are taken as slips, not regions (percent of the image)
+const MIN_REGION_SIZE = 3;
+
+const clampPercent = (n: number) => Math.round(Math.min(100, Math.max(0, n)) * 10) / 10;
+
+const toRegion = (from: Point, to: Point): HotspotRegion => ({
+  x: Math.min(from.x, to.x),
+  y: Math.min(from.y, to.y),
+  width: Math.abs(to.x - from.x),
+  height: Math.abs(to.y - from.y),
+});
+
+const regionStyle = (r: HotspotRegion): React.CSSProperties =>
+  ({ left: `${r.x}%`, top: `${r.y}%`, width: `${r.width}%`, height: `${r.height}%` });
+
+// Drag on the image to draw rectangular regions, then label them and mark which ones are correct
+const HotspotEditor: React.FC<HotspotEditorProps> = ({ image, regions, onChange }) => {
+  const [drag, setDrag] = useState<{ from: Point; to: Point } | null>(null);
+
+  const pointAt = (e: React.PointerEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clampPercent((e.clientX - rect.left) / rect.width * 100),
+      y: clampPercent((e.clientY - rect.top) / rect.height * 100),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointAt(e);
+    setDrag({ from: point, to: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drag) setDrag({ ...drag, to: pointAt(e) });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const region = toRegion(drag.from, drag.to);
+    if (region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+      // The first region is usually the answer, so it starts out marked
+      onChange([...regions, { ...region, label: '', isTarget: regions.length === 0 }]);
+    }
+    setDrag(null);
+  };
+
+  const updateRegion = (idx: number, changes: Partial<DrawnRegion>) =>
+    onChange(regions.map((r, i) => i === idx ? { ...r, ...changes } : r));
+
+  return (
+    <div className="space-y-3">
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+        className="relative w-full rounded-xl overflow-hidden border border-slate-200 cursor-crosshair select-none touch-none"
+      >
+        <img src={image} alt="Hotspot image" className="w-full block pointer-events-none" draggable={false} />
+        {regions.map((r, i) => (
+          <div
+            key={i}
+            className={`absolute rounded-md border-2 ${r.isTarget ? 'border-green-500 bg-green-500/20' : 'border-slate-500 bg-slate-500/20'}`}
+            style={regionStyle(r)}
+          >
+            <span className="absolute -top-px -left-px px-1.5 rounded-br-md bg-white text-[10px] font-bold text-slate-700">{i + 1}</span>
+          </div>
+        ))}
+        {drag && <div className="absolute rounded-md border-2 border-dashed border-mahsa-teal bg-cyan-500/10" style={regionStyle(toRegion(drag.from, drag.to))} />}
+      </div>
+      <p className="text-[10px] text-slate-400 px-1">
+        Drag on the image to draw a region. Tick the regions that count as a correct tap; the rest are labelled distractors.
+      </p>
+
+      {regions.map((r, idx) => (
+        <div key={idx} className="flex items-center gap-2">
+          <button
+            onClick={() => updateRegion(idx, { isTarget: !r.isTarget })}
+            className={`p-2 rounded-lg border-2 ${r.isTarget ? 'border-green-500 bg-green-50' : 'border-slate-200'}`}
+            title={r.isTarget ? 'Correct target' : 'Distractor'}
+          >
+            {r.isTarget ? <CheckCircle2 size={16} className="text-green-600" /> : <div className="w-4 h-4" />}
+          </button>
+          <span className="w-6 text-xs font-bold text-slate-500 text-center shrink-0">{idx + 1}</span>
+          <input
+            className="flex-1 p-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:outline-none focus:ring-2 focus:ring-mahsa-teal"
+            value={r.label}
+            onChange={e => updateRegion(idx, { label: e.target.value })}
+            placeholder={`Region ${idx + 1} label, e.g. Cephalic vein`}
+          />
+          <button onClick={() => onChange(regions.filter((_, i) => i !== idx))} className="text-red-400 hover:text-red-600">
+            <Trash2 size={18} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HotspotEditor;
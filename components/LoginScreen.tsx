@@ -1,32 +1,64 @@
-import React, { useState } from 'react';
-import { User } from '../types';
+import React, { useState, useEffect } from 'react';
+import { User, LoginLockout } from '../types';
 import Button from './Button';
 import Input from './Input';
-import { ChevronLeft, KeyRound } from 'lucide-react';
+import { ChevronLeft, KeyRound, Lock } from 'lucide-react';
 
 interface LoginScreenProps {
-  onLogin: (id: string, pin: string) => void;
-  onResetPin: (id: string, pin: string) => boolean;
+  onLogin: (id: string, pin: string) => Promise<void>;
+  onResetPin: (id: string, code: string, pin: string) => Promise<string | undefined>;
   error?: string;
+  lockout?: LoginLockout | null;
 }
 
+// "14:59" for lockouts, "4s" for short progressive delays
+const formatWait = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
 type LoginMode = 'login' | 'reset-id' | 'reset-pin';
 
-const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onResetPin, error }) => {
+const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onResetPin, error, lockout }) => {
   const [mode, setMode] = useState<LoginMode>('login');
   
   // Login State
   const [id, setId] = useState('');
   const [pin, setPin] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [now, setNow] = useState(Date.now());
 
   // Reset State
   const [resetId, setResetId] = useState('');
+  const [resetCode, setResetCode] = useState('');
   const [newPin, setNewPin] = useState('');
+  const [isResetting, setIsResetting] = useState(false);
   const [resetMessage, setResetMessage] = useState<{type: 'success' | 'error', text: string} | null>(null);
 
-  const handleLoginSubmit = (e: React.FormEvent) => {
+  // Tick once a second while a wait is running so the countdown stays current
+  useEffect(() => {
+    if (!lockout || lockout.retryAt <= Date.now()) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockout]);
+
+  // A wait only applies to the Staff ID it was issued for
+  const activeLockout = lockout && lockout.staffId === id && lockout.retryAt > now ? lockout : null;
+  const remainingWait = activeLockout ? formatWait(activeLockout.retryAt - now) : '';
+
+  const handleLoginSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onLogin(id, pin);
+    if (activeLockout) return;
+    setIsSigningIn(true);
+    try {
+      await onLogin(id, pin);
+    } finally {
+      setIsSigningIn(false);
+    }
   };
 
   const handleResetIdSubmit = (e: React.FormEvent) => {
@@ -37,29 +69,38 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onResetPin, error })
     }
   };
 
-  const handleResetPinSubmit = (e: React.FormEvent) => {
+  const handleResetPinSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!/^\d{6}$/.test(resetCode.trim())) {
+      setResetMessage({ type: 'error', text: 'Reset code must be 6 digits.' });
+      return;
+    }
     if (newPin.length !== 4 || isNaN(Number(newPin))) {
       setResetMessage({ type: 'error', text: 'PIN must be 4 digits.' });
       return;
     }
 
-    const success = onResetPin(resetId, newPin);
-    if (success) {
+    setIsResetting(true);
+    const error = await onResetPin(resetId, resetCode.trim(), newPin);
+    setIsResetting(false);
+
+    if (!error) {
       setResetMessage({ type: 'success', text: 'PIN updated successfully. Please login.' });
       // Reset form and go back to login after short delay or immediately
       setMode('login');
       setId(resetId); // Auto-fill ID
       setPin(''); // Clear PIN
+      setResetCode('');
+      setNewPin('');
     } else {
-      setResetMessage({ type: 'error', text: 'Staff ID not found.' });
-      setMode('reset-id'); // Go back to ID step
+      setResetMessage({ type: 'error', text: error });
     }
   };
 
   const resetFlow = () => {
     setMode('login');
     setResetId('');
+    setResetCode('');
     setNewPin('');
     setResetMessage(null);
   };
@@ -84,7 +125,15 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onResetPin, error })
         onChange={(e) => setPin(e.target.value)}
       />
       
-      {error && (
+      {activeLockout?.status === 'locked' ? (
+        <div className="bg-red-50 text-red-600 text-sm p-3 rounded-lg mb-4 border border-red-100 flex items-start gap-2">
+          <Lock size={16} className="mt-0.5 shrink-0" />
+          <div>
+            <p className="font-bold">Account locked</p>
+            <p className="text-xs mt-1">Too many failed attempts. Try again in <b>{remainingWait}</b>, or ask an educator to unlock your account.</p>
+          </div>
+        </div>
+      ) : error && (
         <div className="bg-red-50 text-red-500 text-sm p-3 rounded-lg mb-4 text-center border border-red-100">
           {error}
         </div>
@@ -96,8 +145,8 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onResetPin, error })
         </div>
       )}
 
-      <Button type="submit" fullWidth className="mt-2">
-        Sign In
+      <Button type="submit" fullWidth className="mt-2" disabled={isSigningIn || !!activeLockout}>
+        {isSigningIn ? 'Signing In...' : activeLockout ? `Try again in ${remainingWait}` : 'Sign In'}
       </Button>
 
       <div className="mt-6 text-center">
@@ -118,7 +167,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onResetPin, error })
           <KeyRound size={24} className="text-mahsa-teal" />
           <h2 className="text-xl font-bold">Reset PIN</h2>
        </div>
-       <p className="text-sm text-slate-500 mb-6">Enter your Staff ID to verify your account.</p>
+       <p className="text-sm text-slate-500 mb-6">Ask your nurse educator for a one-time reset code, then enter your Staff ID.</p>
        
        <form onSubmit={handleResetIdSubmit}>
         <Input 
@@ -157,9 +206,19 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onResetPin, error })
           <KeyRound size={24} className="text-mahsa-teal" />
           <h2 className="text-xl font-bold">New Security PIN</h2>
        </div>
-       <p className="text-sm text-slate-500 mb-6">Create a new 4-digit PIN for Staff ID: <b>{resetId}</b></p>
+       <p className="text-sm text-slate-500 mb-6">Enter the reset code from your educator and create a new 4-digit PIN for Staff ID: <b>{resetId}</b></p>
 
        <form onSubmit={handleResetPinSubmit}>
+        <Input 
+          label="Reset Code" 
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="6 digits" 
+          maxLength={6}
+          value={resetCode}
+          onChange={(e) => setResetCode(e.target.value)}
+          autoFocus
+        />
         <Input 
           label="New PIN" 
           type="password"
@@ -167,7 +226,6 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onResetPin, error })
           maxLength={4}
           value={newPin}
           onChange={(e) => setNewPin(e.target.value)}
-          autoFocus
         />
 
         {resetMessage?.type === 'error' && (
@@ -176,8 +234,8 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onResetPin, error })
           </div>
         )}
 
-        <Button type="submit" fullWidth>
-          Update PIN
+        <Button type="submit" fullWidth disabled={isResetting}>
+          {isResetting ? 'Updating...' : 'Update PIN'}
         </Button>
         <Button 
           type="button" 
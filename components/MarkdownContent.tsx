@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, Inline, Block } from '../services/markdown';
+import { AlertTriangle } from 'lucide-react';
+
+interface MarkdownContentProps {
+  source: string;
+  className?: string;
+}
+
+const renderInline = (nodes: Inline[]): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+    case 'strong': return <strong key={i} className="font-bold text-slate-800">{renderInline(node.children)}</strong>;
+    case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+    case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-slate-100 text-sm font-mono">{node.text}</code>;
+    case 'link': return (
+      <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-mahsa-teal underline font-medium">
+        {renderInline(node.children)}
+      </a>
+    );
+  }
+});
+
+// Lines of one paragraph or callout, kept on separate lines as typed
+const renderLines = (lines: Inline[][]) =>
+  lines.map((line, i) => <React.Fragment key={i}>{i > 0 && <br />}{renderInline(line)}</React.Fragment>);
+
+const renderBlock = (block: Block, i: number) => {
+  switch (block.type) {
+    case 'heading': {
+      const sizes = { 1: 'text-xl', 2: 'text-lg', 3: 'text-base' };
+      return <h3 key={i} className={`${sizes[block.level]} font-bold text-mahsa-navy`}>{renderInline(block.children)}</h3>;
+    }
+    case 'paragraph':
+      return <p key={i}>{renderLines(block.lines)}</p>;
+    case 'list': {
+      const items = block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>);
+      return block.ordered
+        ? <ol key={i} className="list-decimal pl-6 space-y-1">{items}</ol>
+        : <ul key={i} className="list-disc pl-6 space-y-1">{items}</ul>;
+    }
+    case 'callout':
+      return (
+        <div key={i} className="flex gap-3 p-3 rounded-xl bg-amber-50 border border-amber-200 text-amber-900 text-base">
+          <AlertTriangle size={20} className="shrink-0 mt-0.5 text-amber-500" />
+          <div>{renderLines(block.lines)}</div>
+        </div>
+      );
+    case 'table':
+      return (
+        <div key={i} className="overflow-x-auto rounded-xl border border-slate-200">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-slate-50 text-slate-700">
+              <tr>{block.header.map((cell, j) => <th key={j} className="px-3 py-2 font-bold">{renderInline(cell)}</th>)}</tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r} className="border-t border-slate-100">
+                  {row.map((cell, j) => <td key={j} className="px-3 py-2">{renderInline(cell)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+  }
+};
+
+// Renders slide Markdown as plain React elements; see services/markdown for what is supported
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ source, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return <div className={`space-y-3 ${className}`}>{blocks.map(renderBlock)}</div>;
+};
+
+export default MarkdownContent;
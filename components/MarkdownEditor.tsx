@@ -0,0 +1,99 @@
+import React, { useRef, useState } from 'react';
+import MarkdownContent from './MarkdownContent';
+import { Bold, Italic, List, ListOrdered, Table, Link, AlertTriangle, Eye, Pencil } from 'lucide-react';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+type Wrap = { before: string; after: string; sample: string };
+
+const INLINE_TOOLS: { icon: React.ReactNode; title: string; wrap: Wrap }[] = [
+  { icon: <Bold size={16} />, title: 'Bold', wrap: { before: '**', after: '**', sample: 'bold text' } },
+  { icon: <Italic size={16} />, title: 'Italic', wrap: { before: '*', after: '*', sample: 'italic text' } },
+  { icon: <Link size={16} />, title: 'Link', wrap: { before: '[', after: '](https://)', sample: 'link text' } },
+];
+
+const BLOCK_TOOLS: { icon: React.ReactNode; title: string; snippet: string }[] = [
+  { icon: <List size={16} />, title: 'Bullet list', snippet: '- First point\n- Second point' },
+  { icon: <ListOrdered size={16} />, title: 'Numbered list', snippet: '1. First step\n2. Second step' },
+  { icon: <AlertTriangle size={16} />, title: 'Warning', snippet: '> **Warning:** ' },
+  { icon: <Table size={16} />, title: 'Table', snippet: '| Drug | Dose |\n| --- | --- |\n| Paracetamol | 1 g every 6 h |' },
+];
+
+// Markdown textarea with formatting buttons and a preview of how learners will see it
+const MarkdownEditor: React.FC<MarkdownEditorProps> = ({ value, onChange, placeholder }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [isPreview, setIsPreview] = useState(false);
+
+  // Replaces the selection and puts the caret (or selection) where typing should continue
+  const replaceSelection = (build: (selected: string) => { text: string; selectFrom: number; selectTo: number }) => {
+    const el = textareaRef.current;
+    if (!el) return;
+    const start = el.selectionStart;
+    const end = el.selectionEnd;
+    const { text, selectFrom, selectTo } = build(value.slice(start, end));
+    onChange(value.slice(0, start) + text + value.slice(end));
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(start + selectFrom, start + selectTo);
+    });
+  };
+
+  const applyWrap = ({ before, after, sample }: Wrap) => replaceSelection(selected => {
+    const inner = selected || sample;
+    return { text: before + inner + after, selectFrom: before.length, selectTo: before.length + inner.length };
+  });
+
+  // Block snippets start on a line of their own
+  const insertBlock = (snippet: string) => replaceSelection(() => {
+    const start = textareaRef.current?.selectionStart ?? 0;
+    const lead = start > 0 && value[start - 1] !== '\n' ? '\n\n' : '';
+    const text = lead + snippet;
+    return { text, selectFrom: text.length, selectTo: text.length };
+  });
+
+  const toolClass = "p-1.5 rounded-lg text-slate-500 hover:bg-white hover:text-mahsa-teal transition-colors disabled:opacity-30";
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white overflow-hidden focus-within:ring-2 focus-within:ring-mahsa-teal">
+      <div className="flex items-center gap-0.5 px-2 py-1 bg-slate-50 border-b border-slate-100">
+        {INLINE_TOOLS.map(tool => (
+          <button key={tool.title} type="button" title={tool.title} onClick={() => applyWrap(tool.wrap)} disabled={isPreview} className={toolClass}>
+            {tool.icon}
+          </button>
+        ))}
+        <div className="w-px h-5 bg-slate-200 mx-1" />
+        {BLOCK_TOOLS.map(tool => (
+          <button key={tool.title} type="button" title={tool.title} onClick={() => insertBlock(tool.snippet)} disabled={isPreview} className={toolClass}>
+            {tool.icon}
+          </button>
+        ))}
+        <button 
+          type="button"
+          onClick={() => setIsPreview(!isPreview)}
+          className="ml-auto flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-semibold text-slate-500 hover:bg-white hover:text-mahsa-teal"
+        >
+          {isPreview ? <><Pencil size={14} /> Edit</> : <><Eye size={14} /> Preview</>}
+        </button>
+      </div>
+      {isPreview ? (
+        <div className="p-3 min-h-[160px] text-slate-600">
+          {value.trim() ? <MarkdownContent source={value} /> : <p className="text-sm text-slate-400">Nothing to preview yet.</p>}
+        </div>
+      ) : (
+        <textarea 
+          ref={textareaRef}
+          className="w-full p-3 text-slate-900 focus:outline-none min-h-[160px] text-sm font-mono"
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          placeholder={placeholder}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MarkdownEditor;
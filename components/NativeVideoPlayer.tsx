@@ -0,0 +1,64 @@
+import React, { useRef } from 'react';
+
+interface NativeVideoPlayerProps {
+  src: string;
+  captionsUrl?: string;
+  title: string;
+  // Called as playback covers new ground, with distinct seconds watched so far
+  onWatchProgress: (watchedSeconds: number, durationSeconds: number) => void;
+}
+
+// Gaps bigger than this between time updates are seeks, not playback
+const MAX_PLAYBACK_STEP_S = 1.5;
+
+/**
+ * Plays a self-hosted MP4/WebM with optional WebVTT captions and counts the seconds
+ * actually played. Skipping ahead doesn't count, and neither does watching a part twice.
+ */
+const NativeVideoPlayer: React.FC<NativeVideoPlayerProps> = ({ src, captionsUrl, title, onWatchProgress }) => {
+  const watched = useRef<Set<number>>(new Set()); // Whole seconds played at least once
+  const lastTime = useRef(0);
+
+  const handleTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    const now = video.currentTime;
+    const step = now - lastTime.current;
+
+    if (!video.seeking && step > 0 && step <= MAX_PLAYBACK_STEP_S) {
+      const before = watched.current.size;
+      for (let s = Math.floor(lastTime.current); s < Math.floor(now); s++) watched.current.add(s);
+      if (watched.current.size !== before) {
+        onWatchProgress(watched.current.size, Math.floor(video.duration) || 0);
+      }
+    }
+    lastTime.current = now;
+  };
+
+  // Counts the final partial second, which no later time update will cover
+  const handleEnded = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const duration = Math.floor(e.currentTarget.duration) || 0;
+    if (lastTime.current >= duration - MAX_PLAYBACK_STEP_S) {
+      for (let s = Math.floor(lastTime.current); s < duration; s++) watched.current.add(s);
+      onWatchProgress(watched.current.size, duration);
+    }
+  };
+
+  return (
+    <video
+      src={src}
+      title={title}
+      className="absolute inset-0 w-full h-full"
+      controls
+      playsInline
+      preload="metadata"
+      crossOrigin={captionsUrl ? 'anonymous' : undefined}
+      onTimeUpdate={handleTimeUpdate}
+      onSeeked={e => { lastTime.current = e.currentTarget.currentTime; }}
+      onEnded={handleEnded}
+    >
+      {captionsUrl && <track kind="captions" src={captionsUrl} srcLang="en" label="English" default />}
+    </video>
+  );
+};
+
+export default NativeVideoPlayer;
@@ -1,13 +1,18 @@
 import React, { useState, useMemo } from 'react';
-import { User, Course } from '../types';
-import { Award, Flame, BookOpen, CheckCircle, Clock, Filter, ChevronDown, Trophy, Medal, Star, X, Info, RotateCcw, Crown } from 'lucide-react';
-import { AVAILABLE_BADGES } from '../services/mockData';
+import { User, Course, Badge } from '../types';
+import { progressPercent } from '../services/courseProgress';
+import { attemptsLeft, isLockedOut } from '../services/assessment';
+import { reviewSchedule, REVIEW_SESSION_SIZE } from '../services/review';
+import { Award, Flame, BookOpen, CheckCircle, Clock, Filter, ChevronDown, Trophy, Medal, Star, X, Info, RotateCcw, Crown, Play, ClipboardCheck, Lock, Repeat } from 'lucide-react';
 
 interface NurseDashboardProps {
   user: User;
   allUsers: User[]; // Needed for leaderboard
   courses: Course[];
+  badges: Badge[];
+  streak: number; // Current streak; `user.streak` may have lapsed since the last activity
   onStartCourse: (course: Course) => void;
+  onStartReview: () => void;
   onLogout: () => void;
   onChangePin: () => void;
 }
@@ -16,7 +21,10 @@ const NurseDashboard: React.FC<NurseDashboardProps> = ({
   user, 
   allUsers,
   courses, 
+  badges,
+  streak,
   onStartCourse, 
+  onStartReview,
   onLogout,
   onChangePin
 }) => {
@@ -51,6 +59,15 @@ const NurseDashboard: React.FC<NurseDashboardProps> = ({
 
   const userRank = leaderboardData.findIndex(u => u.id === user.id) + 1;
 
+  // Spaced-repetition review of questions answered before
+  const review = useMemo(() => {
+    const now = Date.now();
+    const schedule = reviewSchedule(user, courses);
+    const dueCount = schedule.filter(item => item.dueAt <= now).length;
+    const nextDueAt = schedule.length > 0 ? Math.min(...schedule.map(item => item.dueAt)) : null;
+    return { dueCount, nextDueAt };
+  }, [user, courses]);
+
   // Render Leaderboard Modal
   const renderLeaderboard = () => (
     <div className="absolute inset-0 z-50 bg-slate-50 flex flex-col animate-in slide-in-from-bottom duration-300">
@@ -124,7 +141,7 @@ const NurseDashboard: React.FC<NurseDashboardProps> = ({
               <Medal size={18} className="text-mahsa-teal"/> Your Achievements
             </h3>
             <div className="grid grid-cols-2 gap-3">
-              {AVAILABLE_BADGES.map(badge => {
+              {badges.filter(b => !b.retired || user.badges.includes(b.id)).map(badge => {
                 const isUnlocked = user.badges.includes(badge.id);
                 return (
                   <div key={badge.id} className={`p-3 rounded-xl border flex flex-col items-center text-center transition-all ${isUnlocked ? 'bg-white border-slate-200 shadow-sm' : 'bg-slate-100 border-transparent opacity-60 grayscale'}`}>
@@ -243,7 +260,7 @@ const NurseDashboard: React.FC<NurseDashboardProps> = ({
               <Flame size={20} />
             </div>
             <div>
-              <p className="text-sm font-bold">{user.streak} Days</p>
+              <p className="text-sm font-bold">{streak} {streak === 1 ? 'Day' : 'Days'}</p>
               <p className="text-[10px] text-blue-200">Streak</p>
             </div>
           </div>
@@ -278,18 +295,43 @@ const NurseDashboard: React.FC<NurseDashboardProps> = ({
            </div>
         </div>
 
+        {review.nextDueAt !== null && (
+          <button 
+            onClick={onStartReview}
+            disabled={review.dueCount === 0}
+            className="w-full mb-4 bg-white p-4 rounded-2xl shadow-sm border border-slate-100 flex items-center gap-3 text-left hover:border-mahsa-teal/30 transition-colors disabled:hover:border-slate-100"
+          >
+            <div className={`p-2 rounded-xl ${review.dueCount > 0 ? 'bg-cyan-50 text-mahsa-teal' : 'bg-slate-50 text-slate-400'}`}>
+              <Repeat size={20} />
+            </div>
+            <div className="flex-1">
+              <p className="font-bold text-slate-800 text-sm">Review</p>
+              <p className="text-xs text-slate-500">
+                {review.dueCount > 0
+                  ? `${Math.min(review.dueCount, REVIEW_SESSION_SIZE)} question${Math.min(review.dueCount, REVIEW_SESSION_SIZE) === 1 ? '' : 's'} to refresh your memory`
+                  : `All caught up. Next review ${new Date(review.nextDueAt).toLocaleDateString()}.`}
+              </p>
+            </div>
+            {review.dueCount > 0 && <Play size={16} className="text-mahsa-teal fill-mahsa-teal" />}
+          </button>
+        )}
+
         <div className="space-y-4">
           {filteredCourses.length > 0 ? (
             filteredCourses.map(course => {
               const isCompleted = user.completedCourses.includes(course.id);
+              const percent = isCompleted ? 100 : progressPercent(course, user.courseProgress?.find(p => p.courseId === course.id));
+              const isInProgress = !isCompleted && percent > 0;
+              const isLocked = isLockedOut(user, course);
+              const triesLeft = attemptsLeft(user, course);
               // Check if course is "New" (created within last 7 days)
               const isNew = course.timestamp ? (Date.now() - course.timestamp) < (7 * 24 * 60 * 60 * 1000) : false;
 
               return (
                 <div 
                   key={course.id}
-                  onClick={() => onStartCourse(course)}
-                  className={`bg-white rounded-2xl p-4 shadow-sm border border-slate-100 relative overflow-hidden transition-transform active:scale-[0.98] cursor-pointer hover:shadow-md ${isCompleted ? 'bg-slate-50/50' : ''}`}
+                  onClick={() => !isLocked && onStartCourse(course)}
+                  className={`bg-white rounded-2xl p-4 shadow-sm border border-slate-100 relative overflow-hidden transition-transform ${isLocked ? 'opacity-70 cursor-not-allowed' : 'active:scale-[0.98] cursor-pointer hover:shadow-md'} ${isCompleted ? 'bg-slate-50/50' : ''}`}
                 >
                   {/* Status Indicator Stripe */}
                   <div className={`absolute left-0 top-0 bottom-0 w-1.5 ${isCompleted ? 'bg-green-500' : 'bg-mahsa-teal'}`} />
@@ -311,6 +353,12 @@ const NurseDashboard: React.FC<NurseDashboardProps> = ({
                          <span className="flex items-center gap-1"><Clock size={12}/> {course.durationMinutes} min</span>
                          <span className="flex items-center gap-1 text-orange-500 font-medium"><Star size={12}/> {course.xpReward} XP</span>
                       </div>
+                      {course.assessment && !isCompleted && (
+                        <div className="flex items-center gap-1 text-[10px] font-semibold text-mahsa-navy mt-1">
+                          <ClipboardCheck size={12}/> Graded · Pass {course.assessment.passPercent}%
+                          {triesLeft !== null && ` · ${triesLeft} attempt${triesLeft === 1 ? '' : 's'} left`}
+                        </div>
+                      )}
                     </div>
                     <div className="flex flex-col items-end">
                       {isCompleted ? (
@@ -318,6 +366,20 @@ const NurseDashboard: React.FC<NurseDashboardProps> = ({
                            <CheckCircle className="text-green-500 mb-1" size={24} />
                            <span className="text-[10px] text-slate-400 font-semibold">Replay</span>
                         </div>
+                      ) : isLocked ? (
+                        <div className="flex flex-col items-center mt-2">
+                           <div className="bg-slate-100 text-slate-400 p-2 rounded-full mb-1">
+                             <Lock size={20} />
+                           </div>
+                           <span className="text-[10px] text-slate-400 font-semibold text-center">Ask your educator</span>
+                        </div>
+                      ) : isInProgress ? (
+                        <div className="flex flex-col items-center mt-2">
+                           <div className="bg-blue-50 text-mahsa-navy p-2 rounded-full mb-1">
+                             <Play size={20} />
+                           </div>
+                           <span className="text-[10px] text-mahsa-teal font-semibold">Resume</span>
+                        </div>
                       ) : (
                         <div className="bg-blue-50 text-mahsa-navy p-2 rounded-full mb-2 mt-2">
                           <BookOpen size={20} />
@@ -326,14 +388,14 @@ const NurseDashboard: React.FC<NurseDashboardProps> = ({
                     </div>
                   </div>
 
-                  {/* Progress Bar Visual */}
+                  {/* Progress Bar */}
                   <div className="mt-4 pl-3">
                     <div className="flex justify-between text-xs text-slate-400 mb-1">
                       <span>Progress</span>
-                      <span>{isCompleted ? '100%' : '0%'}</span>
+                      <span>{percent}%</span>
                     </div>
                     <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
-                      <div className={`h-full rounded-full ${isCompleted ? 'bg-green-500' : 'bg-mahsa-teal w-1'}`} style={{ width: isCompleted ? '100%' : '2%' }} />
+                      <div className={`h-full rounded-full ${isCompleted ? 'bg-green-500' : 'bg-mahsa-teal'}`} style={{ width: `${Math.max(percent, 2)}%` }} />
                     </div>
                   </div>
                 </div>
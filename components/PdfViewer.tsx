@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getDocument, GlobalWorkerOptions, PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Loader2, AlertCircle, ExternalLink } from 'lucide-react';
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+interface PdfViewerProps {
+  url: string;
+  // Called whenever the page changes, including once the document has loaded
+  onPageChange?: (page: number, pageCount: number) => void;
+}
+
+// Multiples of the fit-to-width size; above 1 the page scrolls sideways
+const ZOOM_LEVELS = [1, 1.25, 1.5, 2, 3];
+
+/**
+ * Shows a PDF one page at a time, fitted to the width of the mobile frame,
+ * with zoom for small print such as dosage tables.
+ */
+const PdfViewer: React.FC<PdfViewerProps> = ({ url, onPageChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [page, setPage] = useState(1);
+  const [zoomIndex, setZoomIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPdf(null);
+    setError(null);
+    setPage(1);
+    const task = getDocument(url);
+    task.promise
+      .then(doc => {
+        setPdf(doc);
+        onPageChange?.(1, doc.numPages);
+      })
+      .catch(e => {
+        console.error("PDF could not be loaded", e);
+        setError('This document could not be loaded.');
+      });
+    return () => { task.destroy(); };
+  }, [url]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return;
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    pdf.getPage(page).then(pdfPage => {
+      if (cancelled || !canvasRef.current || !containerRef.current) return;
+      const fitWidth = containerRef.current.clientWidth / pdfPage.getViewport({ scale: 1 }).width;
+      const viewport = pdfPage.getViewport({ scale: fitWidth * ZOOM_LEVELS[zoomIndex] });
+      // Drawn at device resolution so text stays sharp on phone screens
+      const ratio = window.devicePixelRatio || 1;
+      const canvas = canvasRef.current;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+      const context = canvas.getContext('2d');
+      if (!context) return;
+      renderTask = pdfPage.render({
+        canvasContext: context,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined
+      });
+      renderTask.promise.catch(() => { /* Cancelled by a newer render */ });
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, page, zoomIndex]);
+
+  const goTo = (next: number) => {
+    if (!pdf || next < 1 || next > pdf.numPages) return;
+    setPage(next);
+    onPageChange?.(next, pdf.numPages);
+    containerRef.current?.scrollTo({ top: 0, left: 0 });
+  };
+
+  if (error) {
+    return (
+      <div className="w-full p-6 rounded-xl bg-red-50 border border-red-100 text-red-700 flex flex-col items-center gap-2 text-sm text-center">
+        <AlertCircle size={24} />
+        <p>{error}</p>
+        <a href={url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 font-semibold underline">
+          Open in a new tab <ExternalLink size={14} />
+        </a>
+      </div>
+    );
+  }
+
+  const buttonClass = "p-2 rounded-full text-slate-500 hover:bg-slate-100 hover:text-mahsa-teal disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="w-full flex flex-col">
+      <div ref={containerRef} className="w-full h-[52vh] overflow-auto rounded-xl border border-slate-200 bg-slate-100 relative">
+        {!pdf && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-400">
+            <Loader2 className="animate-spin text-mahsa-teal mb-2" size={32} />
+            <span className="text-xs">Loading Document...</span>
+          </div>
+        )}
+        <canvas ref={canvasRef} className="block mx-auto bg-white shadow-sm" />
+      </div>
+      <div className="flex items-center justify-between mt-3">
+        <div className="flex items-center">
+          <button onClick={() => setZoomIndex(zoomIndex - 1)} disabled={zoomIndex === 0} className={buttonClass} aria-label="Zoom out"><ZoomOut size={18} /></button>
+          <span className="text-xs font-semibold text-slate-400 w-10 text-center">{Math.round(ZOOM_LEVELS[zoomIndex] * 100)}%</span>
+          <button onClick={() => setZoomIndex(zoomIndex + 1)} disabled={zoomIndex === ZOOM_LEVELS.length - 1} className={buttonClass} aria-label="Zoom in"><ZoomIn size={18} /></button>
+        </div>
+        <div className="flex items-center">
+          <button onClick={() => goTo(page - 1)} disabled={!pdf || page === 1} className={buttonClass} aria-label="Previous page"><ChevronLeft size={20} /></button>
+          <span className="text-xs font-semibold text-slate-500 w-16 text-center">{pdf ? `${page} / ${pdf.numPages}` : '-'}</span>
+          <button onClick={() => goTo(page + 1)} disabled={!pdf || page === pdf.numPages} className={buttonClass} aria-label="Next page"><ChevronRight size={20} /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
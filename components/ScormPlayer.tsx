@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Slide, User } from '../types';
+import { downloadScorm, scormHostUrl, isScormDone, isScormResult, ScormResult, ScormHostMessage } from '../services/scorm';
+import { Loader2, AlertCircle, CheckCircle, RotateCcw } from 'lucide-react';
+
+interface ScormPlayerProps {
+  slide: Slide;
+  learner?: Pick<User, 'id' | 'name'>;
+  onResult: (result: ScormResult) => void; // Each time the package commits or finishes
+}
+
+const STATUS_LABELS: Record<ScormResult['lessonStatus'], string> = {
+  'not attempted': 'Not started',
+  browsed: 'Browsed',
+  incomplete: 'In progress',
+  completed: 'Completed',
+  passed: 'Passed',
+  failed: 'Not passed',
+};
+
+/**
+ * Plays a SCORM 1.2 package through the host page on the SCORM content origin
+ * (scormHost.ts), which stands in for the LMS. This component hands it the package
+ * and listens for the status and score it reports; the package never runs in the app.
+ */
+const ScormPlayer: React.FC<ScormPlayerProps> = ({ slide, learner, onResult }) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [isOpening, setIsOpening] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ScormResult | null>(null);
+  const [attempt, setAttempt] = useState(0); // A failed lesson is played again from the start
+  const hostUrl = scormHostUrl();
+
+  useEffect(() => {
+    if (!hostUrl) return;
+    let cancelled = false;
+    setIsOpening(true);
+    setError(null);
+    setResult(null);
+    const fail = (e: unknown) => {
+      console.error("SCORM package could not be launched", e);
+      if (!cancelled) setError(e instanceof Error ? e.message : typeof e === 'string' ? e : 'This package could not be opened.');
+    };
+    const zip = downloadScorm(slide);
+    zip.catch(fail);
+
+    // Only the host page in this player's frame is listened to, never the package inside it
+    const onMessage = async (event: MessageEvent<ScormHostMessage>) => {
+      const host = frameRef.current?.contentWindow;
+      if (!host || event.source !== host || event.origin !== new URL(hostUrl).origin) return;
+      const message = event.data;
+      if (message?.type === 'scorm-host-ready') {
+        const buffer = await zip.catch(() => null);
+        if (!buffer || cancelled) return;
+        const launch: ScormHostMessage = { type: 'scorm-launch', zip: buffer, scormLaunch: slide.scormLaunch!, learner: learner && { id: learner.id, name: learner.name } };
+        host.postMessage(launch, event.origin, [buffer]);
+      } else if (message?.type === 'scorm-started') {
+        setIsOpening(false);
+      } else if (message?.type === 'scorm-result' && isScormResult(message.result)) {
+        setResult(message.result);
+        onResult(message.result);
+      } else if (message?.type === 'scorm-error') {
+        fail(String(message.message));
+      }
+    };
+    window.addEventListener('message', onMessage);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('message', onMessage);
+    };
+  }, [slide.id, slide.content, attempt]);
+
+  if (!hostUrl) {
+    return (
+      <div className="w-full p-6 rounded-xl bg-red-50 border border-red-100 text-red-700 flex flex-col items-center gap-2 text-sm text-center">
+        <AlertCircle size={24} />
+        <p>SCORM lessons can't be played until a separate SCORM content origin is set up. Ask your administrator.</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="w-full p-6 rounded-xl bg-red-50 border border-red-100 text-red-700 flex flex-col items-center gap-2 text-sm text-center">
+        <AlertCircle size={24} />
+        <p>{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full flex flex-col">
+      <div className="w-full h-[60vh] rounded-xl border border-slate-200 bg-slate-100 overflow-hidden relative">
+        <iframe key={attempt} ref={frameRef} src={hostUrl} title={slide.title} className="absolute inset-0 w-full h-full bg-white" allow="autoplay; fullscreen" sandbox="allow-scripts allow-same-origin allow-forms allow-popups" />
+        {isOpening && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-400 bg-slate-100">
+            <Loader2 className="animate-spin text-mahsa-teal mb-2" size={32} />
+            <span className="text-xs">Opening Lesson...</span>
+          </div>
+        )}
+      </div>
+      <p className={`mt-4 text-xs text-center flex items-center justify-center gap-1 ${result && isScormDone(result.lessonStatus) ? 'text-green-600' : 'text-slate-400'}`}>
+        {result && isScormDone(result.lessonStatus) && <CheckCircle size={14} />}
+        {result ? STATUS_LABELS[result.lessonStatus] : 'Not started'}
+        {result?.scoreRaw !== undefined && ` (score ${result.scoreRaw})`}
+        {!(result && isScormDone(result.lessonStatus)) && '. Finish the lesson to continue.'}
+      </p>
+      {result?.lessonStatus === 'failed' && (
+        <button onClick={() => setAttempt(a => a + 1)} className="mt-2 mx-auto text-xs font-semibold text-mahsa-teal flex items-center gap-1">
+          <RotateCcw size={14} /> Start the lesson again
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ScormPlayer;
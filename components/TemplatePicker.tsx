@@ -0,0 +1,85 @@
+import React from 'react';
+import { CourseContent, CourseTemplate, SlideType } from '../types';
+import { BUILT_IN_TEMPLATES, templateContent } from '../services/courseTemplates';
+import { X, Plus, LayoutTemplate, Trash2 } from 'lucide-react';
+
+interface TemplatePickerProps {
+  templates: CourseTemplate[]; // Saved by educators; the built-in ones are always offered
+  onPick: (content: CourseContent | undefined) => void; // undefined for a blank course
+  onDeleteTemplate: (templateId: string) => void;
+  onClose: () => void;
+}
+
+const SLIDE_TYPE_LABELS: Record<SlideType, string> = {
+  intro: 'Content',
+  video: 'Video',
+  quiz: 'Quiz',
+  summary: 'Summary',
+  document: 'Document',
+  hotspot: 'Hotspot',
+  scenario: 'Scenario',
+  scorm: 'SCORM',
+};
+
+// What a new course starts from: nothing, a built-in outline, or a course saved as a template
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ templates, onPick, onDeleteTemplate, onClose }) => {
+  const handleDelete = (template: CourseTemplate) => {
+    if (confirm(`Delete the template "${template.name}"? Courses started from it are not affected.`)) {
+      onDeleteTemplate(template.id);
+    }
+  };
+
+  const renderTemplate = (template: CourseTemplate, canDelete: boolean) => (
+    <div key={template.id} className="flex items-stretch gap-2">
+      <button
+        onClick={() => onPick(templateContent(template))}
+        className="flex-1 text-left p-3 rounded-xl border border-slate-200 hover:border-indigo-300 hover:bg-indigo-50 transition-colors"
+      >
+        <p className="text-sm font-bold text-slate-800 flex items-center gap-2"><LayoutTemplate size={14} className="text-indigo-500" /> {template.name}</p>
+        {template.description && <p className="text-xs text-slate-500 mt-0.5">{template.description}</p>}
+        <p className="text-[10px] text-slate-400 mt-1">{template.content.slides.map(s => SLIDE_TYPE_LABELS[s.type]).join(' → ')}</p>
+      </button>
+      {canDelete && (
+        <button onClick={() => handleDelete(template)} className="px-2 text-slate-300 hover:text-red-500" title="Delete template">
+          <Trash2 size={16} />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/50 flex items-center justify-center p-4 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white w-full max-w-sm max-h-full overflow-y-auto rounded-3xl p-6 shadow-2xl animate-in zoom-in-95">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-mahsa-navy">New Course</h3>
+          <button onClick={onClose} className="p-2 bg-slate-50 rounded-full hover:bg-slate-100">
+            <X size={20} className="text-slate-500"/>
+          </button>
+        </div>
+
+        <button
+          onClick={() => onPick(undefined)}
+          className="w-full mb-4 p-3 rounded-xl border-2 border-dashed border-slate-200 text-sm font-bold text-slate-600 hover:border-indigo-300 hover:text-indigo-600 flex items-center justify-center gap-2"
+        >
+          <Plus size={16} /> Blank course
+        </button>
+
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Templates</h4>
+        <div className="space-y-2 mb-4">
+          {BUILT_IN_TEMPLATES.map(t => renderTemplate(t, false))}
+        </div>
+
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Saved by educators</h4>
+        {templates.length === 0 ? (
+          <p className="text-xs text-slate-400">None yet. Use "Save as Template" in the course builder to add one.</p>
+        ) : (
+          <div className="space-y-2">
+            {templates.map(t => renderTemplate(t, true))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePicker;
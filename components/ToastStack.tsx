@@ -0,0 +1,48 @@
+import React, { useState, useEffect } from 'react';
+import { notifications, Toast, ToastKind } from '../services/notifications';
+import { AlertCircle, CheckCircle, Info, X } from 'lucide-react';
+
+const STYLES: Record<ToastKind, string> = {
+  error: 'bg-red-600',
+  success: 'bg-green-600',
+  info: 'bg-mahsa-navy',
+};
+
+const ICONS: Record<ToastKind, React.ReactNode> = {
+  error: <AlertCircle size={18} className="shrink-0 mt-0.5" />,
+  success: <CheckCircle size={18} className="shrink-0 mt-0.5" />,
+  info: <Info size={18} className="shrink-0 mt-0.5" />,
+};
+
+// Renders toasts raised through `notifications`, stacked at the bottom of the screen
+const ToastStack: React.FC = () => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  useEffect(() => notifications.subscribe(setToasts), []);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-4 left-4 right-4 z-[60] flex flex-col gap-2 pointer-events-none">
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          role={toast.kind === 'error' ? 'alert' : 'status'}
+          className={`${STYLES[toast.kind]} text-white text-sm rounded-xl shadow-lg p-3 flex items-start gap-2 pointer-events-auto animate-in slide-in-from-bottom-4`}
+        >
+          {ICONS[toast.kind]}
+          <p className="flex-1">{toast.message}</p>
+          <button
+            onClick={() => notifications.dismiss(toast.id)}
+            className="opacity-70 hover:opacity-100"
+            aria-label="Dismiss"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ToastStack;
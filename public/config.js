@@ -0,0 +1,9 @@
+// Runtime configuration, read before the app starts. Edit on the server without rebuilding.
+// Any value set here overrides the VITE_* build-time settings.
+window.MAHSA_CONFIG = {
+  // dataProvider: 'rest',        // 'rest' | 'memory' | 'browser'
+  // apiBaseUrl: 'http://localhost/mahsa-api/api.php',
+  // fallbackProvider: 'memory',  // Used when the backend is unreachable; null to disable
+  // scormContentOrigin: 'https://scorm.hospital.example', // Where SCORM packages run, apart from the app
+  // streak: { timeZone: 'Asia/Kuala_Lumpur', dayStartHour: 4, graceDays: 1 },
+};
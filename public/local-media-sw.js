@@ -0,0 +1,25 @@
+// Serves files uploaded while the app runs on a local provider (memory or browser).
+// The app stores each one in Cache Storage under /local-media/ (see services/localMedia.ts);
+// every other request is left to the network.
+const CACHE_NAME = 'local-media';
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('fetch', event => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith('/local-media/')) return;
+  event.respondWith(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.match(url.origin + url.pathname))
+      .then(found => {
+        if (!found) return new Response('This file is not stored in this browser.', { status: 404 });
+        // Opened on its own, an uploaded SVG or other file must not run script in the app's origin
+        const headers = new Headers(found.headers);
+        headers.set('Content-Security-Policy', 'sandbox');
+        headers.set('X-Content-Type-Options', 'nosniff');
+        return new Response(found.body, { status: found.status, headers });
+      })
+  );
+});
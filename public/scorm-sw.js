@@ -0,0 +1,19 @@
+// Serves the files of SCORM packages played in courses. The host page (scorm-host.html,
+// on the SCORM content origin) unpacks each package into Cache Storage under
+// /scorm-content/<package>/ (see services/scorm.ts), and this
+// worker answers the package's page, scripts and media from there by path.
+const CACHE_NAME = 'scorm-packages';
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('fetch', event => {
+  const url = new URL(event.request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith('/scorm-content/')) return;
+  event.respondWith(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.match(url.origin + url.pathname))
+      .then(found => found || new Response('This file is not in the SCORM package.', { status: 404 }))
+  );
+});
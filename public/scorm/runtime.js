@@ -0,0 +1,788 @@
+// Course player for LMS packages. services/scormExport.ts copies this file into every
+// SCORM 1.2 and cmi5 export, next to course.js (which sets window.MAHSA_COURSE). It plays
+// the course by the same rules as the app's CoursePlayer and reports completion and score
+// to the LMS that launched it. Plain browser JavaScript: it runs inside other people's LMSs.
+(function () {
+  'use strict';
+
+  var course = window.MAHSA_COURSE;
+  var END_OF_COURSE = 'end';
+  var graded = typeof course.passPercent === 'number';
+  var app = document.getElementById('app');
+
+  // ---- Connections to the LMS ----
+
+  var sessionStart = Date.now();
+
+  var pad = function (n, width) {
+    var s = String(n);
+    while (s.length < width) s = '0' + s;
+    return s;
+  };
+
+  // SCORM 1.2 CMITimespan: HHHH:MM:SS
+  var scormTime = function (ms) {
+    var seconds = Math.floor(ms / 1000);
+    return pad(Math.floor(seconds / 3600), 4) + ':' + pad(Math.floor(seconds / 60) % 60, 2) + ':' + pad(seconds % 60, 2);
+  };
+
+  // xAPI duration: ISO 8601
+  var isoDuration = function (ms) {
+    return 'PT' + (Math.round(ms / 10) / 100) + 'S';
+  };
+
+  // The LMS's API sits on a parent frame, or on the window that opened this one
+  var findScormApi = function (win) {
+    for (var depth = 0; win && depth < 10; depth++) {
+      try {
+        if (win.API) return win.API;
+      } catch (e) { /* A frame from another origin */ }
+      if (win.parent === win) break;
+      win = win.parent;
+    }
+    return null;
+  };
+
+  var scorm12 = function () {
+    var api = findScormApi(window) || (window.opener && findScormApi(window.opener));
+    if (!api) return null;
+    var finished = false;
+    return {
+      start: function () {
+        api.LMSInitialize('');
+        var status = api.LMSGetValue('cmi.core.lesson_status');
+        if (status === 'not attempted' || status === '') {
+          api.LMSSetValue('cmi.core.lesson_status', 'incomplete');
+          api.LMSCommit('');
+        }
+        var saved = null;
+        try {
+          saved = JSON.parse(api.LMSGetValue('cmi.suspend_data') || 'null');
+        } catch (e) { /* Nothing usable to resume */ }
+        return Promise.resolve({ resume: saved, passPercent: course.passPercent });
+      },
+      save: function (progress) {
+        api.LMSSetValue('cmi.core.lesson_location', String(progress.slideIndex));
+        api.LMSSetValue('cmi.suspend_data', JSON.stringify(progress));
+        api.LMSCommit('');
+      },
+      finish: function (scorePercent, passed) {
+        if (scorePercent !== null) {
+          api.LMSSetValue('cmi.core.score.min', '0');
+          api.LMSSetValue('cmi.core.score.max', '100');
+          api.LMSSetValue('cmi.core.score.raw', String(scorePercent));
+        }
+        api.LMSSetValue('cmi.core.lesson_status', passed === null ? 'completed' : passed ? 'passed' : 'failed');
+        api.LMSSetValue('cmi.suspend_data', '');
+        api.LMSSetValue('cmi.core.exit', '');
+        api.LMSSetValue('cmi.core.session_time', scormTime(Date.now() - sessionStart));
+        api.LMSCommit('');
+        api.LMSFinish('');
+        finished = true;
+        return Promise.resolve();
+      },
+      leave: function () {
+        if (finished) return;
+        api.LMSSetValue('cmi.core.exit', 'suspend');
+        api.LMSSetValue('cmi.core.session_time', scormTime(Date.now() - sessionStart));
+        api.LMSCommit('');
+        api.LMSFinish('');
+        finished = true;
+      }
+    };
+  };
+
+  var uuid = function () {
+    if (window.crypto && crypto.randomUUID) return crypto.randomUUID();
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+      var r = Math.random() * 16 | 0;
+      return (c === 'x' ? r : (r & 0x3 | 0x8)).toString(16);
+    });
+  };
+
+  // cmi5: the LMS passes an xAPI endpoint and a one-time token fetch URL on the launch URL
+  var cmi5 = function () {
+    var params = new URLSearchParams(window.location.search);
+    var endpoint = params.get('endpoint');
+    var fetchUrl = params.get('fetch');
+    var actor = params.get('actor');
+    var registration = params.get('registration');
+    var activityId = params.get('activityId');
+    if (!endpoint || !fetchUrl || !actor || !registration || !activityId) return null;
+    if (endpoint.charAt(endpoint.length - 1) !== '/') endpoint += '/';
+
+    var token = null;
+    var launchData = {};
+    var finished = false;
+
+    var xapi = function (path, method, body, keepalive) {
+      return fetch(endpoint + path, {
+        method: method,
+        headers: {
+          'Authorization': 'Basic ' + token,
+          'X-Experience-API-Version': '1.0.3',
+          'Content-Type': 'application/json'
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        keepalive: !!keepalive
+      });
+    };
+
+    var stateUrl = function (stateId) {
+      return 'activities/state?stateId=' + encodeURIComponent(stateId) +
+        '&activityId=' + encodeURIComponent(activityId) +
+        '&agent=' + encodeURIComponent(actor) +
+        '&registration=' + encodeURIComponent(registration);
+    };
+
+    var statement = function (verb, result, moveOn) {
+      var context = JSON.parse(JSON.stringify(launchData.contextTemplate || {}));
+      context.registration = registration;
+      context.contextActivities = context.contextActivities || {};
+      var category = context.contextActivities.category || [];
+      category.push({ id: 'https://w3id.org/xapi/cmi5/context/categories/cmi5' });
+      if (moveOn) category.push({ id: 'https://w3id.org/xapi/cmi5/context/categories/moveon' });
+      context.contextActivities.category = category;
+      if ((verb === 'passed' || verb === 'failed') && typeof launchData.masteryScore === 'number') {
+        context.extensions = context.extensions || {};
+        context.extensions['https://w3id.org/xapi/cmi5/context/extensions/masteryscore'] = launchData.masteryScore;
+      }
+      return {
+        id: uuid(),
+        actor: JSON.parse(actor),
+        verb: { id: 'http://adlnet.gov/expapi/verbs/' + verb, display: { 'en-US': verb } },
+        object: { id: activityId, objectType: 'Activity' },
+        context: context,
+        result: result,
+        timestamp: new Date().toISOString()
+      };
+    };
+
+    var send = function (verb, result, moveOn, keepalive) {
+      return xapi('statements', 'POST', statement(verb, result, moveOn), keepalive);
+    };
+
+    var terminate = function (keepalive) {
+      finished = true;
+      return send('terminated', { duration: isoDuration(Date.now() - sessionStart) }, false, keepalive);
+    };
+
+    return {
+      start: function () {
+        return fetch(fetchUrl, { method: 'POST' })
+          .then(function (r) { return r.json(); })
+          .then(function (auth) {
+            token = auth['auth-token'];
+            return xapi(stateUrl('LMS.LaunchData'), 'GET');
+          })
+          .then(function (r) { return r.json(); })
+          .then(function (data) {
+            launchData = data || {};
+            return send('initialized');
+          })
+          .then(function () { return xapi(stateUrl('mahsa.progress'), 'GET'); })
+          .then(function (r) { return r.ok ? r.json() : null; })
+          .catch(function () { return null; })
+          .then(function (saved) {
+            // The LMS's mastery score, when it sets one, wins over the course's pass mark
+            var passPercent = typeof launchData.masteryScore === 'number' ? Math.round(launchData.masteryScore * 100) : course.passPercent;
+            return { resume: saved, passPercent: passPercent };
+          });
+      },
+      save: function (progress) {
+        xapi(stateUrl('mahsa.progress'), 'PUT', progress);
+      },
+      finish: function (scorePercent, passed) {
+        var duration = isoDuration(Date.now() - sessionStart);
+        var sends = Promise.resolve();
+        // Browse and Review launches are for looking only; cmi5 forbids recording a result
+        if (launchData.launchMode === undefined || launchData.launchMode === 'Normal') {
+          var score = scorePercent === null ? undefined : { scaled: scorePercent / 100, raw: scorePercent, min: 0, max: 100 };
+          if (passed !== false) {
+            sends = sends.then(function () { return send('completed', { completion: true, duration: duration }, true); });
+          }
+          if (passed !== null) {
+            sends = sends.then(function () {
+              return send(passed ? 'passed' : 'failed', { success: passed, score: score, duration: duration }, true);
+            });
+          }
+          sends = sends.then(function () { return xapi(stateUrl('mahsa.progress'), 'DELETE'); });
+        }
+        return sends
+          .then(function () { return terminate(false); })
+          .then(function () {
+            if (launchData.returnURL) window.location.href = launchData.returnURL;
+          });
+      },
+      leave: function () {
+        if (!finished) terminate(true);
+      }
+    };
+  };
+
+  var lms = (course.standard === 'cmi5' ? cmi5() : scorm12()) || null;
+
+  // ---- Course rules, as in services/quizScoring.ts and services/branching.ts ----
+
+  var shuffle = function (items) {
+    var copy = items.slice();
+    for (var i = copy.length - 1; i > 0; i--) {
+      var j = Math.floor(Math.random() * (i + 1));
+      var t = copy[i]; copy[i] = copy[j]; copy[j] = t;
+    }
+    return copy;
+  };
+
+  var range = function (n) {
+    var out = [];
+    for (var i = 0; i < n; i++) out.push(i);
+    return out;
+  };
+
+  var kindOf = function (quiz) { return quiz.kind || 'single'; };
+
+  var isQuestionSlide = function (slide) { return slide.type === 'quiz' || slide.type === 'hotspot'; };
+
+  var normalize = function (text) { return text.trim().replace(/\s+/g, ' ').toLowerCase(); };
+
+  var regionAt = function (quiz, x, y) {
+    var regions = quiz.regions || [];
+    for (var i = regions.length - 1; i >= 0; i--) {
+      var r = regions[i];
+      if (x >= r.x && x <= r.x + r.width && y >= r.y && y <= r.y + r.height) return i;
+    }
+    return -1;
+  };
+
+  var sameSet = function (a, b) {
+    return a.length === b.length && a.every(function (i) { return b.indexOf(i) >= 0; });
+  };
+
+  // Answers are kept in authored option indices, whatever order the options were shown in
+  var isCorrect = function (quiz, answer) {
+    switch (kindOf(quiz)) {
+      case 'multi': return sameSet(answer.selected, quiz.correctIndices || []);
+      case 'ordering': return answer.order.every(function (optionIdx, position) { return optionIdx === position; });
+      case 'fill_in': return (quiz.acceptedAnswers || []).some(function (a) { return normalize(a) === normalize(answer.text); });
+      case 'hotspot': return (quiz.correctIndices || []).indexOf(regionAt(quiz, answer.x, answer.y)) >= 0;
+      default: return answer.selected[0] === quiz.correctIndex;
+    }
+  };
+
+  var correctAnswer = function (quiz) {
+    switch (kindOf(quiz)) {
+      case 'multi':
+      case 'hotspot': return (quiz.correctIndices || []).map(function (i) { return quiz.options[i]; }).join('; ');
+      case 'ordering': return quiz.options.join(' > ');
+      case 'fill_in': return (quiz.acceptedAnswers || [])[0] || '';
+      default: return quiz.options[quiz.correctIndex] || '';
+    }
+  };
+
+  var rationales = function (quiz, answer) {
+    var relevant = [];
+    var kind = kindOf(quiz);
+    if (kind === 'single' || kind === 'true_false') relevant = answer.selected;
+    else if (kind === 'multi') {
+      relevant = answer.selected.concat((quiz.correctIndices || []).filter(function (i) { return answer.selected.indexOf(i) < 0; }));
+    } else if (kind === 'hotspot') {
+      var region = regionAt(quiz, answer.x, answer.y);
+      if (region >= 0) relevant = [region];
+    }
+    var lines = [];
+    relevant.forEach(function (i) {
+      var text = quiz.optionRationales && quiz.optionRationales[i] && quiz.optionRationales[i].trim();
+      if (text) lines.push(quiz.options[i] + ': ' + text);
+    });
+    if (quiz.rationale && quiz.rationale.trim()) lines.push(quiz.rationale.trim());
+    return lines;
+  };
+
+  // A fresh draw from the slide's question pool each time it is reached
+  var drawQuestions = function (slide) {
+    if (!isQuestionSlide(slide) || !slide.quizData) return [];
+    var pool = [slide.quizData].concat(slide.quizVariants || []);
+    var count = Math.min(Math.max(slide.drawCount || 1, 1), pool.length);
+    return shuffle(pool).slice(0, count).map(function (quiz) {
+      var kind = kindOf(quiz);
+      var shuffles = kind === 'single' || kind === 'multi';
+      return { quiz: quiz, optionOrder: shuffles ? shuffle(range(quiz.options.length)) : range(quiz.options.length) };
+    });
+  };
+
+  var scrambled = function (count) {
+    if (count < 2) return range(count);
+    var order;
+    do {
+      order = shuffle(range(count));
+    } while (order.every(function (optionIdx, position) { return optionIdx === position; }));
+    return order;
+  };
+
+  var resolveTarget = function (index, target) {
+    if (target === END_OF_COURSE) return null;
+    if (target) {
+      for (var i = 0; i < course.slides.length; i++) if (course.slides[i].id === target) return i;
+    }
+    return index + 1 < course.slides.length ? index + 1 : null;
+  };
+
+  var nextSlideIndex = function (index, choiceIndex) {
+    var slide = course.slides[index];
+    var target = slide.type === 'scenario'
+      ? (choiceIndex === null || !slide.choices[choiceIndex] ? undefined : slide.choices[choiceIndex].nextSlideId)
+      : slide.nextSlideId;
+    return resolveTarget(index, target);
+  };
+
+  var isNativeVideo = function (url) { return /\.(mp4|webm)(\?|#|$)/i.test(url.trim()); };
+
+  // ---- Player ----
+
+  var state = {
+    slideIndex: 0,
+    served: [],
+    questionIndex: 0,
+    answer: null,
+    checked: false,
+    correct: false,
+    choice: null,
+    watched: {}, // Seconds of the video on this slide that have played
+    duration: 0,
+    tally: { correct: 0, total: 0 }, // Graded: every answer; practice: first tries
+    triedSlides: {}, // Practice: question slides already counted in the tally
+    passPercent: course.passPercent,
+    result: null
+  };
+
+  var el = function (tag, className, text) {
+    var node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+  };
+
+  var button = function (label, className, onClick, disabled) {
+    var b = el('button', className, label);
+    b.type = 'button';
+    b.disabled = !!disabled;
+    b.addEventListener('click', onClick);
+    return b;
+  };
+
+  var slide = function () { return course.slides[state.slideIndex]; };
+  var question = function () { return state.served[state.questionIndex]; };
+
+  var emptyAnswer = function (q) {
+    if (!q) return null;
+    var kind = kindOf(q.quiz);
+    if (kind === 'ordering') return { order: scrambled(q.quiz.options.length) };
+    if (kind === 'fill_in') return { text: '' };
+    if (kind === 'hotspot') return { x: null, y: null };
+    return { selected: [] };
+  };
+
+  var answerComplete = function () {
+    var q = question();
+    var a = state.answer;
+    switch (kindOf(q.quiz)) {
+      case 'ordering': return true;
+      case 'fill_in': return a.text.trim() !== '';
+      case 'hotspot': return a.x !== null;
+      default: return a.selected.length > 0;
+    }
+  };
+
+  var scorePercent = function () {
+    return state.tally.total > 0 ? Math.floor((state.tally.correct / state.tally.total) * 100) : 100;
+  };
+
+  var progress = function () {
+    return { slideIndex: state.slideIndex, tally: state.tally, triedSlides: state.triedSlides };
+  };
+
+  var enterSlide = function (index) {
+    state.slideIndex = index;
+    state.served = drawQuestions(slide());
+    state.questionIndex = 0;
+    state.answer = emptyAnswer(question());
+    state.checked = false;
+    state.correct = false;
+    state.choice = null;
+    state.watched = {};
+    state.duration = 0;
+  };
+
+  var finish = function () {
+    var percent = scorePercent();
+    var hasQuestions = state.tally.total > 0;
+    var passed = graded ? percent >= state.passPercent : null;
+    state.result = { percent: percent, passed: passed, hasQuestions: hasQuestions, saving: !!lms };
+    render();
+    if (lms) {
+      lms.finish(graded || hasQuestions ? percent : null, passed)
+        .catch(function () { state.result.error = true; })
+        .then(function () {
+          state.result.saving = false;
+          render();
+        });
+    }
+  };
+
+  var advance = function () {
+    var next = nextSlideIndex(state.slideIndex, state.choice);
+    if (next === null) return finish();
+    enterSlide(next);
+    if (lms && !graded) lms.save(progress());
+    render();
+  };
+
+  var submitAnswer = function () {
+    var q = question();
+    var s = slide();
+    var correct = isCorrect(q.quiz, state.answer);
+    if (graded) {
+      state.tally.correct += correct ? 1 : 0;
+      state.tally.total += 1;
+      if (state.questionIndex < state.served.length - 1) {
+        state.questionIndex += 1;
+        state.answer = emptyAnswer(question());
+        render();
+      } else {
+        advance();
+      }
+      return;
+    }
+    // Practice: only the first answer to each question counts towards the reported score
+    var key = s.id + ':' + state.questionIndex;
+    if (!state.triedSlides[key]) {
+      state.triedSlides[key] = true;
+      state.tally.correct += correct ? 1 : 0;
+      state.tally.total += 1;
+    }
+    state.checked = true;
+    state.correct = correct;
+    render();
+  };
+
+  var blockedLabel = function () {
+    var s = slide();
+    if (s.type === 'video' && isNativeVideo(s.content) && s.minWatchPercent) {
+      var percent = state.duration > 0 ? Math.min(100, Math.floor(Object.keys(state.watched).length / state.duration * 100)) : 0;
+      if (percent < s.minWatchPercent) return 'Watch ' + s.minWatchPercent + '% to continue';
+    }
+    if (s.type === 'scenario' && state.choice === null) return 'Choose what to do';
+    return null;
+  };
+
+  var renderText = function (s, container, className) {
+    if (s.html !== undefined) {
+      var div = el('div', 'markdown ' + (className || ''));
+      div.innerHTML = s.html; // Rendered and escaped at export from the app's Markdown dialect
+      container.appendChild(div);
+    } else {
+      container.appendChild(el('p', 'text ' + (className || ''), s.content));
+    }
+  };
+
+  var renderVideo = function (s, body) {
+    var frame = el('div', 'video');
+    if (isNativeVideo(s.content)) {
+      var video = el('video');
+      video.src = s.content;
+      video.controls = true;
+      video.playsInline = true;
+      if (s.captionsUrl) {
+        var track = el('track');
+        track.kind = 'captions';
+        track.src = s.captionsUrl;
+        track.srclang = 'en';
+        track.label = 'English';
+        track.default = true;
+        video.appendChild(track);
+      }
+      video.addEventListener('loadedmetadata', function () { state.duration = Math.floor(video.duration) || 0; });
+      video.addEventListener('timeupdate', function () {
+        state.watched[Math.floor(video.currentTime)] = true;
+        if (s.minWatchPercent) renderFooter();
+      });
+      frame.appendChild(video);
+    } else {
+      var iframe = el('iframe');
+      iframe.src = s.content;
+      iframe.title = s.title;
+      iframe.allow = 'accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture';
+      iframe.allowFullscreen = true;
+      frame.appendChild(iframe);
+    }
+    body.appendChild(frame);
+  };
+
+  var renderOptions = function (q, body, multi) {
+    var list = el('div', 'options');
+    q.optionOrder.forEach(function (authored) {
+      var picked = state.answer.selected.indexOf(authored) >= 0;
+      var className = 'option';
+      if (state.checked) {
+        var right = multi ? (q.quiz.correctIndices || []).indexOf(authored) >= 0 : authored === q.quiz.correctIndex;
+        className += right ? ' right' : picked ? ' wrong' : ' muted';
+      } else if (picked) className += ' picked';
+      list.appendChild(button((multi ? (picked ? '☑ ' : '☐ ') : '') + q.quiz.options[authored], className, function () {
+        if (multi) {
+          state.answer.selected = picked
+            ? state.answer.selected.filter(function (i) { return i !== authored; })
+            : state.answer.selected.concat([authored]);
+        } else {
+          state.answer.selected = [authored];
+        }
+        render();
+      }, state.checked));
+    });
+    body.appendChild(list);
+  };
+
+  var renderOrdering = function (q, body) {
+    var list = el('div', 'options');
+    state.answer.order.forEach(function (optionIdx, position) {
+      var row = el('div', 'option ordering');
+      row.appendChild(el('span', 'position', String(position + 1)));
+      row.appendChild(el('span', 'grow', q.quiz.options[optionIdx]));
+      var move = function (delta) {
+        return function () {
+          var order = state.answer.order;
+          var target = position + delta;
+          var t = order[position]; order[position] = order[target]; order[target] = t;
+          render();
+        };
+      };
+      row.appendChild(button('↑', 'move', move(-1), state.checked || position === 0));
+      row.appendChild(button('↓', 'move', move(1), state.checked || position === state.answer.order.length - 1));
+      list.appendChild(row);
+    });
+    body.appendChild(list);
+  };
+
+  var renderFillIn = function (body) {
+    var input = el('input', 'fill-in');
+    input.type = 'text';
+    input.placeholder = 'Type your answer';
+    input.value = state.answer.text;
+    input.disabled = state.checked;
+    input.addEventListener('input', function () {
+      state.answer.text = input.value;
+      renderFooter();
+    });
+    body.appendChild(input);
+  };
+
+  var renderHotspot = function (s, q, body) {
+    var frame = el('div', 'hotspot');
+    var img = el('img');
+    img.src = s.image;
+    img.alt = s.title;
+    frame.appendChild(img);
+    if (state.answer.x !== null) {
+      var marker = el('span', 'marker');
+      marker.style.left = state.answer.x + '%';
+      marker.style.top = state.answer.y + '%';
+      frame.appendChild(marker);
+    }
+    frame.addEventListener('click', function (e) {
+      if (state.checked) return;
+      var box = img.getBoundingClientRect();
+      state.answer.x = ((e.clientX - box.left) / box.width) * 100;
+      state.answer.y = ((e.clientY - box.top) / box.height) * 100;
+      render();
+    });
+    body.appendChild(frame);
+  };
+
+  var renderQuiz = function (s, body) {
+    var q = question();
+    if (!q) return body.appendChild(el('p', 'text', 'This question is missing.'));
+    if (state.served.length > 1) {
+      body.appendChild(el('p', 'eyebrow', 'Question ' + (state.questionIndex + 1) + ' of ' + state.served.length));
+    }
+    body.appendChild(el('h2', null, q.quiz.question));
+    switch (kindOf(q.quiz)) {
+      case 'multi': renderOptions(q, body, true); break;
+      case 'ordering': renderOrdering(q, body); break;
+      case 'fill_in': renderFillIn(body); break;
+      case 'hotspot': renderHotspot(s, q, body); break;
+      default: renderOptions(q, body, false);
+    }
+    if (state.checked) {
+      var feedback = el('div', 'feedback ' + (state.correct ? 'right' : 'wrong'));
+      feedback.appendChild(el('strong', null, state.correct ? 'Correct!' : 'Not quite.'));
+      if (!state.correct) feedback.appendChild(el('p', null, 'Correct answer: ' + correctAnswer(q.quiz)));
+      rationales(q.quiz, state.answer).forEach(function (line) { feedback.appendChild(el('p', null, line)); });
+      body.appendChild(feedback);
+    }
+  };
+
+  var renderScenario = function (s, body) {
+    if (s.image) {
+      var img = el('img', 'banner');
+      img.src = s.image;
+      img.alt = s.title;
+      body.appendChild(img);
+    }
+    body.appendChild(el('h2', null, s.title));
+    renderText(s, body);
+    body.appendChild(el('p', 'eyebrow', 'What do you do?'));
+    var list = el('div', 'options');
+    (s.choices || []).forEach(function (c, idx) {
+      var className = 'option' + (state.choice === null ? '' : state.choice === idx ? ' picked' : ' muted');
+      list.appendChild(button(c.label, className, function () {
+        state.choice = idx;
+        render();
+      }, state.choice !== null));
+    });
+    body.appendChild(list);
+    var chosen = state.choice === null ? null : s.choices[state.choice];
+    if (chosen && chosen.consequence) {
+      var box = el('div', 'feedback neutral');
+      box.appendChild(el('strong', null, 'What happens'));
+      box.appendChild(el('p', null, chosen.consequence));
+      body.appendChild(box);
+    }
+  };
+
+  var renderSlide = function (body) {
+    var s = slide();
+    switch (s.type) {
+      case 'intro':
+      case 'summary':
+        if (s.image) {
+          var img = el('img', 'banner');
+          img.src = s.image;
+          img.alt = s.title;
+          body.appendChild(img);
+        }
+        body.appendChild(el('h2', null, s.title));
+        renderText(s, body);
+        break;
+      case 'video':
+        body.appendChild(el('h2', null, s.title));
+        renderVideo(s, body);
+        break;
+      case 'document':
+        body.appendChild(el('h2', null, s.title));
+        var doc = el('iframe', 'document');
+        doc.src = s.content;
+        doc.title = s.title;
+        body.appendChild(doc);
+        var link = el('a', 'link', 'Open the document in a new window');
+        link.href = s.content;
+        link.target = '_blank';
+        link.rel = 'noopener noreferrer';
+        body.appendChild(link);
+        break;
+      case 'scenario':
+        renderScenario(s, body);
+        break;
+      case 'quiz':
+      case 'hotspot':
+        renderQuiz(s, body);
+        break;
+      default:
+        body.appendChild(el('h2', null, s.title));
+    }
+  };
+
+  var renderResult = function (body) {
+    var r = state.result;
+    if (graded) {
+      body.appendChild(el('h2', 'center', r.passed ? 'Assessment Passed' : 'Not Passed Yet'));
+      body.appendChild(el('p', 'score', r.percent + '%'));
+      body.appendChild(el('p', 'text center', 'Pass mark: ' + state.passPercent + '%'));
+    } else {
+      body.appendChild(el('h2', 'center', 'Module Complete'));
+      if (r.hasQuestions) body.appendChild(el('p', 'text center', r.percent + '% of questions right first time.'));
+    }
+    var note = !lms
+      ? 'Not connected to an LMS, so this result was not recorded.'
+      : r.saving ? 'Saving your result...'
+        : r.error ? 'Your result could not be sent to the LMS. Please tell your educator.'
+          : 'Your result has been recorded. You can close this window.';
+    body.appendChild(el('p', 'note center', note));
+  };
+
+  var footer;
+
+  var renderFooter = function () {
+    footer.innerHTML = '';
+    if (state.result) return;
+    var s = slide();
+    var q = question();
+    var isLast = nextSlideIndex(state.slideIndex, state.choice) === null;
+    if (isQuestionSlide(s) && q && !state.checked) {
+      var label = graded ? (isLast && state.questionIndex === state.served.length - 1 ? 'Submit Assessment' : 'Submit Answer') : 'Check Answer';
+      footer.appendChild(button(label, 'primary', submitAnswer, !answerComplete()));
+    } else if (isQuestionSlide(s) && q && !state.correct) {
+      footer.appendChild(button('Try Again', 'secondary', function () {
+        state.checked = false;
+        if (kindOf(q.quiz) !== 'ordering') state.answer = emptyAnswer(q);
+        render();
+      }));
+    } else if (isQuestionSlide(s) && state.questionIndex < state.served.length - 1) {
+      footer.appendChild(button('Next Question', 'primary', function () {
+        state.questionIndex += 1;
+        state.answer = emptyAnswer(question());
+        state.checked = false;
+        render();
+      }));
+    } else {
+      var blocked = blockedLabel();
+      footer.appendChild(button(blocked || (isLast ? (graded ? 'Submit Assessment' : 'Finish Module') : 'Continue'), 'primary', advance, blocked !== null));
+    }
+  };
+
+  var render = function () {
+    app.innerHTML = '';
+    var header = el('header');
+    header.appendChild(el('h1', null, course.title));
+    var bar = el('div', 'bar');
+    var fill = el('div', 'fill');
+    fill.style.width = (state.result ? 100 : ((state.slideIndex + 1) / course.slides.length) * 100) + '%';
+    bar.appendChild(fill);
+    header.appendChild(bar);
+    app.appendChild(header);
+
+    var body = el('main');
+    if (state.result) renderResult(body);
+    else renderSlide(body);
+    app.appendChild(body);
+
+    footer = el('footer');
+    app.appendChild(footer);
+    renderFooter();
+  };
+
+  var begin = function (started) {
+    state.passPercent = started.passPercent;
+    var saved = started.resume;
+    enterSlide(0);
+    // Graded attempts always start over, as in the app
+    if (!graded && saved && typeof saved.slideIndex === 'number' && saved.slideIndex < course.slides.length) {
+      enterSlide(saved.slideIndex);
+      state.tally = saved.tally || state.tally;
+      state.triedSlides = saved.triedSlides || {};
+    }
+    render();
+  };
+
+  if (course.slides.length === 0) {
+    app.appendChild(el('p', 'note center', 'This course has no slides.'));
+    return;
+  }
+  app.appendChild(el('p', 'note center', 'Loading...'));
+  window.addEventListener('pagehide', function () { if (lms) lms.leave(); });
+  (lms ? lms.start() : Promise.resolve({ resume: null, passPercent: course.passPercent }))
+    .catch(function () {
+      // Play on without recording rather than leave the learner stuck
+      lms = null;
+      return { resume: null, passPercent: course.passPercent };
+    })
+    .then(begin);
+})();
@@ -0,0 +1,29 @@
+import { unpackScorm, createScormApi, ScormHostMessage } from './services/scorm';
+
+/**
+ * The page SCORM packages play in, loaded by ScormPlayer from the SCORM content origin
+ * (see config.ts) so that a package's scripts can't reach the app. The app sends the
+ * package; this page unpacks it, plays it in a frame with `window.API` as its LMS and
+ * posts the status and score back to the app that sent it.
+ */
+const frame = document.getElementById('package') as HTMLIFrameElement;
+
+const send = (message: ScormHostMessage, origin: string) => window.parent.postMessage(message, origin);
+
+window.addEventListener('message', async (event: MessageEvent<ScormHostMessage>) => {
+  // One package per page load; ScormPlayer reloads the page to start again
+  if (event.source !== window.parent || event.data?.type !== 'scorm-launch' || window.API) return;
+  const { zip, scormLaunch, learner } = event.data;
+
+  window.API = createScormApi(learner, result => send({ type: 'scorm-result', result }, event.origin));
+  try {
+    frame.src = await unpackScorm(zip, scormLaunch);
+    send({ type: 'scorm-started' }, event.origin);
+  } catch (e) {
+    console.error("SCORM package could not be launched", e);
+    send({ type: 'scorm-error', message: e instanceof Error ? e.message : 'This package could not be opened.' }, event.origin);
+  }
+});
+
+// Nothing private in this one, so any embedding page may hear it
+send({ type: 'scorm-host-ready' }, '*');
@@ -1,57 +1,252 @@
-import { User, Course, QuizAttempt } from '../types';
+import { User, Course, CourseVersion, CourseTemplate, QuizAttempt, AssessmentAttempt, VideoWatch, ScenarioDecision, Session, PinResetCode, PinResetRecord, Badge, CourseProgress } from '../types';
+import { ApiAction, PUBLIC_ACTIONS, ACTION_DESCRIPTIONS, canPerform } from './permissions';
+import { offlineQueue, QueuedWrite, QueuedAction, QueuedBody, NewWrite } from './offlineQueue';
+import type { DataProvider } from './dataProvider';
 
-// CONFIGURATION: Point this to where your IT team hosts the PHP script
-const API_BASE_URL = 'http://localhost/mahsa-api/api.php'; 
+// `server`: the backend reported a failure. `network`: it could not be reached or answered unreadably, so trying again may help.
+export type ApiErrorCode = 'unauthenticated' | 'forbidden' | 'throttled' | 'locked' | 'invalid' | 'server' | 'network';
 
-// Helper to handle API requests
-async function apiRequest<T>(action: string, method: 'GET' | 'POST', body?: any): Promise<T> {
-  try {
-    const options: RequestInit = {
-      method,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    };
-
-    if (body) {
-      options.body = JSON.stringify(body);
-    }
+// Extra context the server attaches to auth failures
+export interface ApiErrorDetails {
+  retryAt?: number;           // Epoch ms when a throttled or locked login may be retried
+  attemptsRemaining?: number; // Failed logins left before the Staff ID is locked
+}
+
+export class ApiError extends Error {
+  constructor(public code: ApiErrorCode, message: string, public action: ApiAction, public details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Decoded outcome of one backend call
+export type ApiResult<T> = { ok: true; data: T } | { ok: false; error: ApiError };
+
+// Backend in use; chosen at startup from config (see services/config.ts)
+let provider: DataProvider | null = null;
+
+// Identity attached to every request. Set on login, cleared on logout.
+let currentSession: Session | null = null;
+
+export const getSession = () => currentSession;
+
+const activeProvider = (): DataProvider => {
+  if (!provider) throw new Error('No data provider configured. Call api.useProvider() first.');
+  return provider;
+};
+
+// Client-side mirror of the server's permission check, so a forbidden call fails before it is sent
+function authorize(action: ApiAction, targetUserId?: string) {
+  if (PUBLIC_ACTIONS.includes(action)) return;
+  if (!currentSession) {
+    throw new ApiError('unauthenticated', 'Your session has ended. Please sign in again.', action);
+  }
+  if (!canPerform(currentSession.user, action, targetUserId)) {
+    throw new ApiError('forbidden', `A ${currentSession.user.role} account is not allowed to ${ACTION_DESCRIPTIONS[action]}.`, action);
+  }
+}
+
+// Authorizes, then runs the call against the active provider
+async function providerRequest<T>(action: ApiAction, call: (p: DataProvider) => Promise<T>, targetUserId?: string): Promise<T> {
+  authorize(action, targetUserId);
+  return call(activeProvider());
+}
+
+/**
+ * Mutations are persisted to the offline queue first and sent by `flushQueue`,
+ * so nothing is lost when ward Wi-Fi drops. Permission errors are still thrown immediately.
+ */
+async function queuedRequest<A extends QueuedAction>(action: A, body: QueuedBody<A>, targetUserId?: string): Promise<void> {
+  authorize(action, targetUserId);
+  await offlineQueue.enqueue({
+    ...{ action, body } as NewWrite,
+    requestId: crypto.randomUUID(),
+    targetUserId,
+    queuedBy: currentSession!.user.id,
+    dataSource: activeProvider().kind,
+    dedupeKey: `${action}:${JSON.stringify(body)}`,
+    createdAt: Date.now()
+  });
+}
 
-    // Append action to URL
-    const url = `${API_BASE_URL}?action=${action}`;
-    
-    const response = await fetch(url, options);
-    
-    if (!response.ok) {
-      throw new Error(`API Error: ${response.statusText}`);
+// Sends one queued write through the matching provider operation
+function replayWrite(p: DataProvider, write: QueuedWrite): Promise<void> {
+  const options = { requestId: write.requestId };
+  switch (write.action) {
+    case 'save_user': return p.saveUser(write.body, options);
+    case 'log_quiz_attempt': return p.logQuizAttempt(write.body.userId, write.body.attempt, options);
+    case 'update_user_progress': return p.updateUserProgress(write.body, options);
+    case 'save_course_progress': return p.saveCourseProgress(write.body.userId, write.body.courseId, write.body.progress, options);
+    case 'log_assessment_attempt': return p.logAssessmentAttempt(write.body.userId, write.body.attempt, options);
+    case 'log_video_watch': return p.logVideoWatch(write.body.userId, write.body.watch, options);
+    case 'log_scenario_decision': return p.logScenarioDecision(write.body.userId, write.body.decision, options);
+    case 'log_review_attempt': return p.logReviewAttempt(write.body.userId, write.body.attempt, options);
+    case 'delete_user': return p.deleteUser(write.body.id, options);
+    case 'unlock_user': return p.unlockUser(write.body.id, options);
+    case 'save_course': return p.saveCourse(write.body, options);
+    case 'publish_course': return p.publishCourse(write.body.courseId, write.body.fromVersion, options);
+    case 'archive_course': return p.archiveCourse(write.body.courseId, write.body.archived, options);
+    case 'save_template': return p.saveTemplate(write.body, options);
+    case 'delete_template': return p.deleteTemplate(write.body.id, options);
+    case 'save_badge': return p.saveBadge(write.body, options);
+    default: {
+      // Every action is handled above; only a write stored by another version of the app gets here
+      const stored: never = write;
+      const action = (stored as QueuedWrite).action;
+      return Promise.reject(new ApiError('invalid', `'${action}' cannot be replayed.`, action));
     }
+  }
+}
 
-    const data = await response.json();
-    return data as T;
-  } catch (error) {
-    console.error(`Request failed for action: ${action}`, error);
-    throw error;
+let isFlushing = false;
+
+/**
+ * Replays queued writes in order under the current session, to the provider they were
+ * made against: writes for the backend wait while a fallback is in use.
+ * Stops at the first connection problem (the rest wait for the next flush) and
+ * drops writes that fail any other way, returning those errors for the UI.
+ */
+async function flushQueue(): Promise<ApiError[]> {
+  if (isFlushing || !currentSession || !provider) return [];
+  isFlushing = true;
+  const rejected: ApiError[] = [];
+
+  try {
+    while (currentSession && provider) {
+      const userId: string = currentSession.user.id;
+      const source = provider.kind;
+      // Re-read each time so writes queued mid-flush are picked up in order.
+      // A memory provider's mock data is gone once another provider is in use, and with it any point in its writes.
+      const next = (await offlineQueue.getAll()).find(w => w.queuedBy === userId
+        && (w.dataSource === source || (w.dataSource === 'memory' && source !== 'memory')));
+      if (!next) break;
+      if (next.dataSource !== source) {
+        await offlineQueue.remove(next.seq!);
+        continue;
+      }
+
+      try {
+        authorize(next.action, next.targetUserId);
+        await replayWrite(activeProvider(), next);
+      } catch (error) {
+        const isRetryable = error instanceof ApiError
+          && (error.code === 'network' || error.code === 'unauthenticated' || error.code === 'throttled');
+        if (isRetryable) break;
+        // Anything else would fail the same way on every retry and hold up the writes behind it
+        if (!(error instanceof ApiError)) console.error(`Queued '${next.action}' could not be replayed`, error);
+        rejected.push(error instanceof ApiError
+          ? error
+          : new ApiError('invalid', 'The change could not be sent and was discarded.', next.action));
+      }
+      await offlineQueue.remove(next.seq!);
+    }
+  } finally {
+    isFlushing = false;
   }
+
+  return rejected;
 }
 
 export const api = {
+  // --- SETUP ---
+  useProvider: (next: DataProvider) => { provider = next; },
+  setSession: (session: Session | null) => { currentSession = session; },
+
+  // Sends any writes waiting in the offline queue; resolves to the ones the server refused
+  flushQueue,
+
+  // --- AUTH ---
+  // Public reachability check, used at startup to decide between the backend and the fallback
+  ping: () => providerRequest('ping', p => p.ping()),
+
+  // Server verifies the PIN against its stored hash and issues a session token
+  login: (id: string, pin: string) => providerRequest('login', p => p.login(id, pin)),
+  logout: () => providerRequest('logout', p => p.logout()),
+
   // --- GET DATA ---
-  getUsers: () => apiRequest<User[]>('get_users', 'GET'),
-  getCourses: () => apiRequest<Course[]>('get_courses', 'GET'),
+  getUsers: () => providerRequest('get_users', p => p.getUsers()),
+  getCourses: () => providerRequest('get_courses', p => p.getCourses()),
+  getBadges: () => providerRequest('get_badges', p => p.getBadges()),
 
   // --- USER ACTIONS ---
-  saveUser: (user: User) => apiRequest('save_user', 'POST', user),
-  
+  // `pin` is optional: when present the server hashes it, when absent the stored PIN is kept.
+  // Nurses may only save their own record, and only the PIN is applied.
+  // Saves carrying a PIN go straight to the provider so a plaintext PIN is never written to disk.
+  saveUser: (user: User) => user.pin
+    ? providerRequest('save_user', p => p.saveUser(user), user.id)
+    : queuedRequest('save_user', user, user.id),
+
   // Send quiz attempt to DB (Logs it in quiz_attempts table AND updates user state)
-  logQuizAttempt: (userId: string, attempt: QuizAttempt) => 
-    apiRequest('log_quiz_attempt', 'POST', { userId, attempt }),
+  logQuizAttempt: (userId: string, attempt: QuizAttempt) =>
+    queuedRequest('log_quiz_attempt', { userId, attempt }, userId),
 
   // Update user stats (XP, Badges, Completed Courses)
-  updateUserProgress: (user: User) => 
-    apiRequest('update_user_progress', 'POST', user),
+  updateUserProgress: (user: User) =>
+    queuedRequest('update_user_progress', user, user.id),
+
+  // Where the user left an unfinished course; `null` once it is finished
+  saveCourseProgress: (userId: string, courseId: string, progress: CourseProgress | null) =>
+    queuedRequest('save_course_progress', { userId, courseId, progress }, userId),
+
+  // A graded run: logged unfinished as it starts, then again with the result, passed or not
+  logAssessmentAttempt: (userId: string, attempt: AssessmentAttempt) =>
+    queuedRequest('log_assessment_attempt', { userId, attempt }, userId),
+
+  // Watch time on a self-hosted video slide, for analytics
+  logVideoWatch: (userId: string, watch: VideoWatch) =>
+    queuedRequest('log_video_watch', { userId, watch }, userId),
+
+  // A choice made on a branching scenario slide, so educators can review decision patterns
+  logScenarioDecision: (userId: string, decision: ScenarioDecision) =>
+    queuedRequest('log_scenario_decision', { userId, decision }, userId),
 
-  deleteUser: (userId: string) => apiRequest('delete_user', 'POST', { id: userId }),
+  // An answer given in spaced-repetition review; kept out of the course quiz history
+  logReviewAttempt: (userId: string, attempt: QuizAttempt) =>
+    queuedRequest('log_review_attempt', { userId, attempt }, userId),
+
+  deleteUser: (userId: string) => queuedRequest('delete_user', { id: userId }, userId),
+
+  // Clears failed login attempts and any lockout for a Staff ID
+  unlockUser: (userId: string) => queuedRequest('unlock_user', { id: userId }, userId),
+
+  // --- PIN RESET ---
+  // Educator issues a short-lived one-time code; any earlier unused code for the user is revoked
+  issueResetCode: (userId: string): Promise<PinResetCode> =>
+    providerRequest('issue_reset_code', p => p.issueResetCode(userId), userId),
+
+  // Public: the nurse redeems the code to set a new PIN
+  resetPin: (id: string, code: string, pin: string) =>
+    providerRequest('reset_pin', p => p.resetPin(id, code, pin)),
+
+  getPinResets: (userId: string): Promise<PinResetRecord[]> =>
+    providerRequest('get_pin_resets', p => p.getPinResets(userId), userId),
 
   // --- COURSE ACTIONS ---
-  saveCourse: (course: Course) => apiRequest('save_course', 'POST', course),
-};
\ No newline at end of file
+  // Saved as a draft; nurses only see a course's changes once it is published
+  saveCourse: (course: Course) => queuedRequest('save_course', course),
+
+  // Each publish adds a version to the course's history; `fromVersion` rolls back to an earlier one
+  publishCourse: (courseId: string, fromVersion?: number) =>
+    queuedRequest('publish_course', { courseId, fromVersion }),
+
+  getCourseVersions: (courseId: string): Promise<CourseVersion[]> =>
+    providerRequest('get_course_versions', p => p.getCourseVersions(courseId)),
+
+  // Retires a course without losing its completions or answers; `archived: false` restores it
+  archiveCourse: (courseId: string, archived: boolean) =>
+    queuedRequest('archive_course', { courseId, archived }),
+
+  // --- TEMPLATE ACTIONS ---
+  // Only the templates educators saved; courses built from a template keep no link to it
+  getTemplates: () => providerRequest('get_templates', p => p.getTemplates()),
+  saveTemplate: (template: CourseTemplate) => queuedRequest('save_template', template),
+  deleteTemplate: (templateId: string) => queuedRequest('delete_template', { id: templateId }),
+
+  // --- BADGE ACTIONS ---
+  // Creates, edits or retires (`retired: true`) a badge; there is no delete
+  saveBadge: (badge: Badge) => queuedRequest('save_badge', badge),
+
+  // --- MEDIA ---
+  // Sent straight away rather than queued: the returned URL is what the slide needs
+  uploadMedia: (file: Blob): Promise<string> => providerRequest('upload_media', p => p.uploadMedia(file)),
+};
@@ -0,0 +1,27 @@
+import { User, Course, AssessmentAttempt } from '../types';
+
+export const DEFAULT_PASS_PERCENT = 80;
+
+export const assessmentAttempts = (user: User, courseId: string): AssessmentAttempt[] =>
+  (user.assessmentAttempts || []).filter(a => a.courseId === courseId);
+
+// Adds an attempt, replacing the unfinished one logged when the same run started
+export const withAttempt = (attempts: AssessmentAttempt[], attempt: AssessmentAttempt): AssessmentAttempt[] => [
+  ...attempts.filter(a => !(attempt.startedAt !== undefined && a.courseId === attempt.courseId && a.startedAt === attempt.startedAt)),
+  attempt,
+];
+
+// Attempts still allowed at a graded course; null when there is no limit
+export const attemptsLeft = (user: User, course: Course): number | null => {
+  const max = course.assessment?.maxAttempts;
+  if (max === undefined) return null;
+  return Math.max(0, max - assessmentAttempts(user, course.id).length);
+};
+
+// A graded course that was never passed and has no attempts left can't be started again
+export const isLockedOut = (user: User, course: Course): boolean =>
+  !!course.assessment && !user.completedCourses.includes(course.id) && attemptsLeft(user, course) === 0;
+
+// Rounded down, so 79.9% never clears an 80% pass mark. A run with no questions scores 0, as nothing was shown to be known.
+export const scorePercent = (correct: number, total: number): number =>
+  total > 0 ? Math.floor((correct / total) * 100) : 0;
@@ -0,0 +1,17 @@
+import { User } from '../types';
+
+// Salted SHA-256 of a PIN, so plaintext PINs never sit in app state or storage
+export const hashPin = async (staffId: string, pin: string): Promise<string> => {
+  const data = new TextEncoder().encode(`mahsa:${staffId}:${pin}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Drop the write-only PIN before a user object is kept in state
+export const toPublicUser = ({ pin, ...user }: User): User => user;
+
+// 6-digit one-time code from the platform CSPRNG
+export const generateResetCode = () =>
+  (crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).toString().padStart(6, '0');
@@ -0,0 +1,91 @@
+import { User, Course, Badge, BadgeRule } from '../types';
+
+// Something a learner just did that may earn a badge
+export type BadgeEvent =
+  | { type: 'course_completed'; courseId: string; isPerfectScore: boolean }
+  | { type: 'quiz_answered' };
+
+type RuleKind = BadgeRule['kind'];
+
+// Events after which each rule is worth checking
+const RULE_EVENTS: Record<RuleKind, BadgeEvent['type'][]> = {
+  courses_completed: ['course_completed'],
+  xp_reached: ['course_completed'],
+  perfect_score: ['course_completed'],
+  category_completed: ['course_completed'],
+  first_try_correct: ['quiz_answered'],
+  streak_days: ['course_completed', 'quiz_answered'], // Both count as the day's learning activity
+};
+
+// Labels for the badge editor, in the order they are offered
+export const RULE_LABELS: Record<RuleKind, string> = {
+  courses_completed: 'Complete a number of courses',
+  xp_reached: 'Reach an XP total',
+  perfect_score: 'Get a perfect score on a course',
+  category_completed: 'Complete every course in a category',
+  first_try_correct: 'Answer questions right first time',
+  streak_days: 'Keep a daily learning streak',
+};
+
+// A rule of the given kind with sensible starting values
+export const defaultRule = (kind: RuleKind): BadgeRule => {
+  switch (kind) {
+    case 'courses_completed': return { kind, count: 5 };
+    case 'xp_reached': return { kind, xp: 1000 };
+    case 'perfect_score': return { kind };
+    case 'category_completed': return { kind, category: '' };
+    case 'first_try_correct': return { kind, count: 10 };
+    case 'streak_days': return { kind, days: 7 };
+  }
+};
+
+export const describeRule = (rule: BadgeRule): string => {
+  switch (rule.kind) {
+    case 'courses_completed': return `Complete ${rule.count} course${rule.count === 1 ? '' : 's'}`;
+    case 'xp_reached': return `Earn ${rule.xp}+ XP`;
+    case 'perfect_score': return 'Perfect score on a course';
+    case 'category_completed': return `Complete every ${rule.category || '…'} course`;
+    case 'first_try_correct': return `${rule.count} questions right first time`;
+    case 'streak_days': return `${rule.days}-day learning streak`;
+  }
+};
+
+// Questions whose earliest recorded answer was correct
+const firstTryCorrectCount = (user: User): number => {
+  const firstAnswers = new Map<string, boolean>();
+  [...(user.quizAttempts || [])]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(a => {
+      const key = `${a.courseId}:${a.slideId}`;
+      if (!firstAnswers.has(key)) firstAnswers.set(key, a.isCorrect);
+    });
+  return Array.from(firstAnswers.values()).filter(Boolean).length;
+};
+
+const isSatisfied = (rule: BadgeRule, user: User, courses: Course[], event: BadgeEvent): boolean => {
+  switch (rule.kind) {
+    case 'courses_completed': return user.completedCourses.length >= rule.count;
+    case 'xp_reached': return user.xp >= rule.xp;
+    case 'perfect_score': return event.type === 'course_completed' && event.isPerfectScore;
+    case 'category_completed': {
+      const inCategory = courses.filter(c => c.category === rule.category);
+      return inCategory.length > 0 && inCategory.every(c => user.completedCourses.includes(c.id));
+    }
+    case 'first_try_correct': return firstTryCorrectCount(user) >= rule.count;
+    case 'streak_days': return user.streak >= rule.days;
+  }
+};
+
+/**
+ * Checks the active badges whose rules `event` can affect and adds any the user now qualifies for.
+ * Badges are never taken away. Returns the same object when nothing was earned.
+ */
+export const awardBadges = (user: User, badges: Badge[], courses: Course[], event: BadgeEvent): User => {
+  const earned = badges
+    .filter(b => !b.retired && !user.badges.includes(b.id))
+    .filter(b => RULE_EVENTS[b.rule.kind].includes(event.type))
+    .filter(b => isSatisfied(b.rule, user, courses, event))
+    .map(b => b.id);
+
+  return earned.length > 0 ? { ...user, badges: [...user.badges, ...earned] } : user;
+};
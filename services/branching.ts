@@ -0,0 +1,99 @@
+import { Course, Slide } from '../types';
+
+// Stands in for a slide id where a branch finishes the course
+export const END_OF_COURSE = 'end';
+
+// Courses that use branches at all; the rest play straight through
+export const isBranching = (course: Pick<Course, 'slides'>) =>
+  course.slides.some(s => s.type === 'scenario' || !!s.nextSlideId);
+
+// Where a branch target sends the learner from slide `index`: a slide index, or null for the end
+const resolveTarget = (slides: Slide[], index: number, target: string | undefined): number | null => {
+  if (target === END_OF_COURSE) return null;
+  if (target) {
+    const found = slides.findIndex(s => s.id === target);
+    if (found >= 0) return found;
+  }
+  return index + 1 < slides.length ? index + 1 : null;
+};
+
+/**
+ * The slide to play after slide `index`, or null when the course is finished.
+ * Scenario slides go where the chosen option leads; other slides follow their
+ * own jump, if any, or the slide after them. Targets that no longer exist fall
+ * back to the following slide.
+ */
+export const nextSlideIndex = (slides: Slide[], index: number, choiceIndex: number | null = null): number | null => {
+  const slide = slides[index];
+  const target = slide.type === 'scenario'
+    ? (choiceIndex === null ? undefined : slide.choices?.[choiceIndex]?.nextSlideId)
+    : slide.nextSlideId;
+  return resolveTarget(slides, index, target);
+};
+
+export interface BranchReport {
+  errors: string[]; // Block publishing
+  warnings: string[];
+}
+
+/**
+ * Checks that every path through the course reaches an end: no branch points at a
+ * deleted slide, every scenario offers a real choice, and no reachable slide leads
+ * only into a loop. Slides no path reaches are reported as warnings.
+ */
+export const checkBranches = (slides: Slide[]): BranchReport => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (slides.length === 0) return { errors, warnings };
+
+  const ids = new Set(slides.map(s => s.id));
+  const name = (i: number) => `#${i + 1} "${slides[i].title}"`;
+
+  // Every slide a learner can go to from each slide; null is the end
+  const exits = slides.map((slide, i) => {
+    const choices = slide.type === 'scenario' ? slide.choices || [] : [];
+    const targets = choices.length > 0 ? choices.map(c => c.nextSlideId) : [slide.nextSlideId];
+    targets.forEach(t => {
+      if (t && t !== END_OF_COURSE && !ids.has(t)) errors.push(`Slide ${name(i)} leads to a slide that was removed.`);
+    });
+    return targets.map(t => resolveTarget(slides, i, t));
+  });
+
+  slides.forEach((slide, i) => {
+    if (slide.type === 'scenario' && (slide.choices || []).length < 2) {
+      errors.push(`Scenario ${name(i)} needs at least two choices.`);
+    }
+  });
+
+  const reachable = new Set<number>([0]);
+  const queue = [0];
+  while (queue.length > 0) {
+    const i = queue.shift()!;
+    exits[i].forEach(next => {
+      if (next !== null && !reachable.has(next)) {
+        reachable.add(next);
+        queue.push(next);
+      }
+    });
+  }
+
+  // Slides from which some path finishes the course, grown backwards from the end
+  const canFinish = new Set<number>();
+  let grew = true;
+  while (grew) {
+    grew = false;
+    exits.forEach((next, i) => {
+      if (!canFinish.has(i) && next.some(n => n === null || canFinish.has(n))) {
+        canFinish.add(i);
+        grew = true;
+      }
+    });
+  }
+
+  slides.forEach((_, i) => {
+    if (!reachable.has(i)) warnings.push(`Slide ${name(i)} is not on any path.`);
+    else if (!canFinish.has(i)) errors.push(`Slide ${name(i)} only leads around in a loop and never reaches the end.`);
+  });
+
+  return { errors, warnings };
+};
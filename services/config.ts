@@ -0,0 +1,70 @@
+import { StreakRules } from './streak';
+
+export type DataProviderKind = 'rest' | 'memory' | 'browser';
+
+export interface AppConfig {
+  dataProvider: DataProviderKind;
+  apiBaseUrl: string;
+  // Used when the REST backend can't be reached at startup; null keeps trying the backend
+  fallbackProvider: DataProviderKind | null;
+  // Origin that serves scorm-host.html for SCORM slides, e.g. https://scorm.hospital.example.
+  // SCORM slides don't play while this is empty or the app's own origin.
+  scormContentOrigin: string;
+  streak: StreakRules;
+}
+
+declare global {
+  interface Window {
+    // Runtime overrides from /config.js, editable on the server without rebuilding
+    MAHSA_CONFIG?: Partial<Omit<AppConfig, 'streak'>> & { streak?: Partial<StreakRules> };
+  }
+}
+
+const DEFAULTS: AppConfig = {
+  dataProvider: 'rest',
+  apiBaseUrl: 'http://localhost/mahsa-api/api.php',
+  fallbackProvider: 'memory',
+  scormContentOrigin: '',
+  streak: {
+    timeZone: 'Asia/Kuala_Lumpur',
+    dayStartHour: 4,
+    graceDays: 1,
+  },
+};
+
+const PROVIDER_KINDS: DataProviderKind[] = ['rest', 'memory', 'browser'];
+
+// Unset or non-numeric values fall through to the next source
+const asNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const asProviderKind = (value: unknown): DataProviderKind | undefined =>
+  PROVIDER_KINDS.includes(value as DataProviderKind) ? value as DataProviderKind : undefined;
+
+/**
+ * Resolves the app config. Later sources win:
+ * defaults → build-time VITE_* env vars → runtime window.MAHSA_CONFIG.
+ */
+export const loadConfig = (): AppConfig => {
+  const env = import.meta.env;
+  const runtime = (typeof window !== 'undefined' && window.MAHSA_CONFIG) || {};
+
+  const envFallback = env.VITE_FALLBACK_PROVIDER === 'none' ? null : asProviderKind(env.VITE_FALLBACK_PROVIDER);
+  const runtimeFallback = runtime.fallbackProvider === null ? null : asProviderKind(runtime.fallbackProvider);
+
+  return {
+    dataProvider: asProviderKind(runtime.dataProvider) ?? asProviderKind(env.VITE_DATA_PROVIDER) ?? DEFAULTS.dataProvider,
+    apiBaseUrl: runtime.apiBaseUrl || env.VITE_API_BASE_URL || DEFAULTS.apiBaseUrl,
+    fallbackProvider: runtimeFallback !== undefined
+      ? runtimeFallback
+      : envFallback !== undefined ? envFallback : DEFAULTS.fallbackProvider,
+    scormContentOrigin: (runtime.scormContentOrigin || env.VITE_SCORM_CONTENT_ORIGIN || DEFAULTS.scormContentOrigin).replace(/\/+$/, ''),
+    streak: {
+      timeZone: runtime.streak?.timeZone || env.VITE_HOSPITAL_TIMEZONE || DEFAULTS.streak.timeZone,
+      dayStartHour: asNumber(runtime.streak?.dayStartHour) ?? asNumber(env.VITE_STREAK_DAY_START_HOUR) ?? DEFAULTS.streak.dayStartHour,
+      graceDays: asNumber(runtime.streak?.graceDays) ?? asNumber(env.VITE_STREAK_GRACE_DAYS) ?? DEFAULTS.streak.graceDays,
+    },
+  };
+};
@@ -0,0 +1,331 @@
+import { Course, CourseContent, QuizData, Slide, SlideType } from '../types';
+import { QUESTION_KIND_LABELS, isQuestionSlide } from './quizScoring';
+import { isNativeVideo } from './video';
+import { END_OF_COURSE } from './branching';
+import { courseContent, currentVersion } from './courseVersions';
+import { copySlides } from './courseTemplates';
+import { isMediaType } from './media';
+
+/**
+ * A course in one self-contained JSON file, for moving modules between campuses.
+ * Media the exporting browser could download travels inside the file; slides point
+ * at it with "media:<key>" references in place of URLs. On import the files are
+ * uploaded like any other media and the references become their URLs.
+ *
+ * Bump PACKAGE_VERSION whenever the shape changes in a way older apps can't read,
+ * and teach `readPackage` to upgrade the older versions.
+ */
+export const PACKAGE_FORMAT = 'mahsa-course-package';
+export const PACKAGE_VERSION = 1;
+export const PACKAGE_EXTENSION = '.mahsa-course.json';
+
+// Larger files stay as links; a package has to fit through email and file shares
+const MAX_BUNDLED_BYTES = 15 * 1024 * 1024;
+
+export const MEDIA_PREFIX = 'media:';
+
+export interface PackagedMedia {
+  sourceUrl: string; // Where it was downloaded from, for reference
+  dataUri: string;
+}
+
+export interface CoursePackage {
+  format: typeof PACKAGE_FORMAT;
+  formatVersion: number;
+  exportedAt: number;
+  exportedFrom: string; // Origin of the app that made it
+  sourceId: string; // Course ID on the exporting campus; never reused on import
+  sourceVersion?: number;
+  course: CourseContent;
+  media: Record<string, PackagedMedia>;
+}
+
+// Every slide type this app can play; a package with any other is refused
+const SLIDE_TYPES: Record<SlideType, true> = {
+  intro: true, video: true, quiz: true, summary: true, document: true, hotspot: true, scenario: true, scorm: true,
+};
+
+type MediaField = 'image' | 'content' | 'captionsUrl';
+
+// Slide fields that hold a link to a file, as opposed to text or an embed
+const mediaFields = (slide: Slide): MediaField[] => {
+  const fields: MediaField[] = [];
+  if (slide.image) fields.push('image');
+  if (slide.type === 'document' || slide.type === 'scorm' || (slide.type === 'video' && isNativeVideo(slide.content))) fields.push('content');
+  if (slide.captionsUrl) fields.push('captionsUrl');
+  return fields;
+};
+
+const slideName = (slides: Slide[], slide: Slide) => `Slide #${slides.indexOf(slide) + 1} "${slide.title}"`;
+
+const readAsDataUri = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const downloadMedia = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const blob = await response.blob();
+  if (blob.size > MAX_BUNDLED_BYTES) throw new Error('too large');
+  return readAsDataUri(blob);
+};
+
+/**
+ * Packages what nurses currently get (or, for a draft, the draft). Media that can't be
+ * downloaded, because the host blocks it or it is too large, stays a link and is listed
+ * in `warnings`.
+ */
+export const buildPackage = async (course: Course): Promise<{ pkg: CoursePackage; warnings: string[] }> => {
+  const content = courseContent(course);
+  const media: Record<string, PackagedMedia> = {};
+  const keys = new Map<string, string>(); // URL -> media key, so a file used twice is bundled once
+  const warnings: string[] = [];
+
+  const slides: Slide[] = [];
+  for (const slide of content.slides) {
+    const packaged: Slide = { ...slide };
+    for (const field of mediaFields(slide)) {
+      const url = slide[field]!.trim();
+      let key = keys.get(url);
+      if (!key) {
+        try {
+          const dataUri = await downloadMedia(url);
+          key = `m${keys.size + 1}`;
+          media[key] = { sourceUrl: url.startsWith('data:') ? '' : url, dataUri };
+          keys.set(url, key);
+        } catch (e) {
+          const reason = e instanceof Error && e.message === 'too large' ? 'is too large to bundle' : 'could not be downloaded';
+          warnings.push(`${slideName(content.slides, slide)}: ${url} ${reason}, so the package links to it instead.`);
+          continue;
+        }
+      }
+      packaged[field] = `${MEDIA_PREFIX}${key}`;
+    }
+    slides.push(packaged);
+  }
+
+  return {
+    pkg: {
+      format: PACKAGE_FORMAT,
+      formatVersion: PACKAGE_VERSION,
+      exportedAt: Date.now(),
+      exportedFrom: window.location.origin,
+      sourceId: course.id,
+      sourceVersion: currentVersion(course),
+      course: { ...content, slides },
+      media,
+    },
+    warnings,
+  };
+};
+
+export const packageFileName = (title: string) =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'course'}${PACKAGE_EXTENSION}`;
+
+// What checking a package found. `content` is set only when there are no errors.
+export interface PackageReport {
+  content: CourseContent | null; // Slides still refer to `files` as "media:<key>"
+  files: Record<string, Blob>; // Uploaded by `uploadBundledMedia` once the educator goes ahead
+  errors: string[]; // The package can't be imported
+  warnings: string[]; // It can, but the educator should know
+}
+
+// Links a package may contain: web addresses, paths on this server and bundled files.
+// Anything else (`javascript:`, `data:text/html`...) could run script once shown in a frame.
+const LINK_SCHEMES = ['http', 'https', 'media'];
+
+const LINK_LABELS: Record<MediaField, string> = { image: 'an image', content: 'a media', captionsUrl: 'a captions' };
+
+const isAllowedLink = (url: string) => {
+  // Browsers ignore whitespace and control characters in a scheme, so `java\tscript:` counts too
+  const scheme = url.replace(/[\u0000-\u0020]/g, '').match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || LINK_SCHEMES.includes(scheme[1].toLowerCase());
+};
+
+// A bundled file as bytes, with the type its data URI declares
+export const decodeDataUri = (uri: string): { data: Uint8Array; type: string } => {
+  const comma = uri.indexOf(',');
+  const header = uri.slice(5, comma);
+  const body = uri.slice(comma + 1);
+  const data = header.endsWith(';base64')
+    ? Uint8Array.from(atob(body), c => c.charCodeAt(0))
+    : new TextEncoder().encode(decodeURIComponent(body));
+  return { data, type: header.split(';')[0].toLowerCase() };
+};
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(s => typeof s === 'string');
+
+const checkQuestion = (quiz: unknown, where: string, errors: string[]) => {
+  if (!isObject(quiz)) {
+    errors.push(`${where} has no question.`);
+    return;
+  }
+  const q = quiz as Partial<QuizData>;
+  if (q.kind !== undefined && !(q.kind in QUESTION_KIND_LABELS)) {
+    errors.push(`${where} uses the question type "${q.kind}", which this app doesn't support.`);
+  }
+  if (typeof q.question !== 'string') errors.push(`${where} has no question text.`);
+  if (!isStringArray(q.options)) errors.push(`${where} has no answer options.`);
+  if (typeof q.correctIndex !== 'number') errors.push(`${where} doesn't say which answer is correct.`);
+};
+
+const checkSlide = (slide: unknown, index: number, errors: string[]) => {
+  const where = `Slide #${index + 1}`;
+  if (!isObject(slide)) {
+    errors.push(`${where} is unreadable.`);
+    return;
+  }
+  const name = `${where} "${slide.title}"`;
+  if (typeof slide.id !== 'string' || typeof slide.title !== 'string' || typeof slide.content !== 'string') {
+    errors.push(`${where} is missing its ID, title or content.`);
+  }
+  if (!(slide.type in SLIDE_TYPES)) {
+    errors.push(`${name} is a "${slide.type}" slide, which this app can't play.`);
+    return;
+  }
+  if (isQuestionSlide(slide as Slide)) {
+    checkQuestion(slide.quizData, name, errors);
+    (Array.isArray(slide.quizVariants) ? slide.quizVariants : []).forEach((v: unknown, i: number) => checkQuestion(v, `${name}, pool question ${i + 2}`, errors));
+  }
+  const links: MediaField[] = ['image', 'captionsUrl'];
+  if (slide.type === 'video' || slide.type === 'document' || slide.type === 'scorm') links.push('content');
+  links.forEach(field => {
+    const value = slide[field];
+    if (value !== undefined && !(typeof value === 'string' && isAllowedLink(value))) {
+      errors.push(`${name} has ${LINK_LABELS[field]} link this app won't open; only web addresses and bundled files are allowed.`);
+    }
+  });
+  if (slide.type === 'scorm' && typeof slide.scormLaunch !== 'string') {
+    errors.push(`${name} doesn't say which page starts its SCORM package.`);
+  }
+  if (slide.type === 'scenario' && !(Array.isArray(slide.choices) && slide.choices.every((c: unknown) => isObject(c) && typeof c.label === 'string'))) {
+    errors.push(`${name} has unreadable choices.`);
+  }
+};
+
+// The bundled files the slides refer to, checked against the file types that may be uploaded
+const readBundledFiles = (slides: Slide[], media: Record<string, PackagedMedia>, errors: string[]): Record<string, Blob> => {
+  const files: Record<string, Blob> = {};
+  slides.forEach(slide => {
+    (['image', 'content', 'captionsUrl'] as MediaField[]).forEach(field => {
+      const value = slide[field];
+      if (!value?.startsWith(MEDIA_PREFIX)) return;
+      const key = value.slice(MEDIA_PREFIX.length);
+      const file = media[key];
+      if (!isObject(file) || typeof file.dataUri !== 'string' || !file.dataUri.startsWith('data:')) {
+        errors.push(`${slideName(slides, slide)} refers to a bundled file that is missing from the package.`);
+        return;
+      }
+      const { data, type } = decodeDataUri(file.dataUri);
+      if (!isMediaType(type)) {
+        errors.push(`${slideName(slides, slide)} bundles a file of type "${type || 'unknown'}", which this app won't open.`);
+      } else {
+        files[key] = new Blob([data as BlobPart], { type });
+      }
+    });
+  });
+  return files;
+};
+
+/**
+ * Checks a parsed package file against the format and against this campus's courses.
+ * Everything gets new IDs, so an import never overwrites or merges with an existing
+ * course; what would otherwise clash is reported as a warning.
+ */
+export const readPackage = (raw: unknown, existing: Course[]): PackageReport => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const fail = (message: string): PackageReport => ({ content: null, files: {}, errors: [message], warnings });
+
+  if (!isObject(raw) || raw.format !== PACKAGE_FORMAT) return fail('This file is not a course package.');
+  if (typeof raw.formatVersion !== 'number' || raw.formatVersion > PACKAGE_VERSION) {
+    return fail(`This package was made by a newer version of the app (format ${raw.formatVersion}); this one reads up to format ${PACKAGE_VERSION}.`);
+  }
+
+  const course = raw.course;
+  if (!isObject(course)) return fail('The package has no course in it.');
+  if (typeof course.title !== 'string' || !course.title.trim()) errors.push('The course has no title.');
+  if (typeof course.category !== 'string') errors.push('The course has no category.');
+  if (!Array.isArray(course.slides) || course.slides.length === 0) return fail('The course has no slides.');
+  course.slides.forEach((s: unknown, i: number) => checkSlide(s, i, errors));
+
+  const assessment = course.assessment;
+  if (assessment !== undefined && assessment !== null && !(isObject(assessment) && typeof assessment.passPercent === 'number')) {
+    errors.push('The graded assessment settings are unreadable.');
+  }
+  if (errors.length > 0) return { content: null, files: {}, errors, warnings };
+
+  const slides = course.slides as Slide[];
+  let files: Record<string, Blob> = {};
+  try {
+    files = readBundledFiles(slides, isObject(raw.media) ? raw.media : {}, errors);
+  } catch {
+    errors.push('A bundled file in the package is damaged.');
+  }
+  if (errors.length > 0) return { content: null, files: {}, errors, warnings };
+
+  const ids = new Set(slides.map(s => s.id));
+  slides.forEach(s => {
+    const targets = [s.nextSlideId, ...(s.choices || []).map(c => c.nextSlideId)];
+    if (targets.some(t => t && t !== END_OF_COURSE && !ids.has(t))) {
+      warnings.push(`${slideName(slides, s)} branches to a slide that isn't in the package; fix its path before publishing.`);
+    }
+  });
+
+  const sameTitle = existing.find(c => c.title.trim().toLowerCase() === course.title.trim().toLowerCase());
+  if (sameTitle) warnings.push(`A course called "${sameTitle.title}" already exists here. The import will be a separate course; rename it if that is confusing.`);
+  if (existing.some(c => c.id === raw.sourceId)) {
+    warnings.push('The exporting campus used the same course ID as a course here. The import gets new IDs, so nothing is overwritten.');
+  }
+  if (!existing.some(c => c.category === course.category)) warnings.push(`The category "${course.category}" is new here and will be created.`);
+
+  const linked = slides.reduce((n, s) => n + mediaFields(s).filter(f => !s[f]!.startsWith(MEDIA_PREFIX)).length, 0);
+  if (linked > 0) {
+    warnings.push(`${linked} media file${linked === 1 ? " wasn't" : "s weren't"} bundled and still link${linked === 1 ? 's' : ''} elsewhere; check ${linked === 1 ? 'it loads' : 'they load'} here.`);
+  }
+
+  return {
+    content: {
+      ...courseContent(course as CourseContent),
+      assessment: assessment ?? undefined,
+      slides: copySlides(slides),
+      // Recalculated by the builder on save, as for any course
+      durationMinutes: slides.length * 2,
+      xpReward: slides.length * 50,
+    },
+    files,
+    errors,
+    warnings,
+  };
+};
+
+/**
+ * Uploads the files an import bundles, through `upload` (api.uploadMedia), and points
+ * its slides at where they were stored.
+ */
+export const uploadBundledMedia = async (
+  content: CourseContent,
+  files: Record<string, Blob>,
+  upload: (file: Blob) => Promise<string>
+): Promise<CourseContent> => {
+  const urls: Record<string, string> = {};
+  for (const [key, file] of Object.entries(files)) {
+    urls[key] = await upload(file);
+  }
+  return {
+    ...content,
+    slides: content.slides.map(slide => {
+      const stored: Slide = { ...slide };
+      (['image', 'content', 'captionsUrl'] as MediaField[]).forEach(field => {
+        const value = slide[field];
+        if (value?.startsWith(MEDIA_PREFIX)) stored[field] = urls[value.slice(MEDIA_PREFIX.length)];
+      });
+      return stored;
+    }),
+  };
+};
@@ -0,0 +1,60 @@
+import { Course, CourseProgress } from '../types';
+import { currentVersion } from './courseVersions';
+
+const storageKey = (userId: string) => `mahsa_progress_${userId}`;
+
+/**
+ * Copy of each user's resume points kept on this device, so a course resumes
+ * even before queued progress has reached the backend.
+ */
+export const localProgress = {
+  load: (userId: string): CourseProgress[] => {
+    try {
+      const saved = localStorage.getItem(storageKey(userId));
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      console.error("Stored course progress unreadable", e);
+      return [];
+    }
+  },
+
+  save: (userId: string, progress: CourseProgress[]) => {
+    try {
+      localStorage.setItem(storageKey(userId), JSON.stringify(progress));
+    } catch (e) {
+      console.error("Failed to store course progress", e);
+    }
+  },
+};
+
+// Newest entry per course wins
+export const mergeProgress = (...sources: CourseProgress[][]): CourseProgress[] => {
+  const byCourse = new Map<string, CourseProgress>();
+  sources.flat().forEach(p => {
+    const existing = byCourse.get(p.courseId);
+    if (!existing || p.updatedAt > existing.updatedAt) byCourse.set(p.courseId, p);
+  });
+  return Array.from(byCourse.values());
+};
+
+/**
+ * Fits a saved resume point to the course as it is now, since an educator may
+ * have edited it in between. Returns undefined when there is nothing to resume,
+ * including when a newer version has been published since the run began.
+ */
+export const resumePoint = (course: Course, progress: CourseProgress | undefined): CourseProgress | undefined => {
+  if (!progress || course.slides.length === 0) return undefined;
+  if (progress.courseVersion !== undefined && progress.courseVersion !== currentVersion(course)) return undefined;
+  const slideIds = new Set(course.slides.map(s => s.id));
+  return {
+    ...progress,
+    slideIndex: Math.min(Math.max(progress.slideIndex, 0), course.slides.length - 1),
+    failedSlideIds: progress.failedSlideIds.filter(id => slideIds.has(id)),
+  };
+};
+
+// Share of slides finished, 0-100
+export const progressPercent = (course: Course, progress: CourseProgress | undefined): number => {
+  const point = resumePoint(course, progress);
+  return point ? Math.round((point.slideIndex / course.slides.length) * 100) : 0;
+};
@@ -0,0 +1,102 @@
+import { Course, CourseContent, CourseTemplate, Slide } from '../types';
+import { END_OF_COURSE } from './branching';
+import { courseContent, editableContent } from './courseVersions';
+
+/**
+ * Deep-copies slides under fresh IDs and points branch targets at the copies.
+ * Answers, progress and scenario decisions are keyed by slide ID, so nothing
+ * recorded against the originals carries over.
+ */
+export const copySlides = (slides: Slide[], idPrefix = `s-${Date.now()}`): Slide[] => {
+  const ids = new Map(slides.map((s, i) => [s.id, `${idPrefix}-${i + 1}`]));
+  // Targets that were already broken stay broken, for the branch check to report
+  const remap = (target: string) => target === END_OF_COURSE ? target : ids.get(target) ?? target;
+
+  return slides.map(slide => {
+    const copy: Slide = { ...JSON.parse(JSON.stringify(slide)), id: ids.get(slide.id)! };
+    if (copy.nextSlideId) copy.nextSlideId = remap(copy.nextSlideId);
+    copy.choices?.forEach(choice => {
+      if (choice.nextSlideId) choice.nextSlideId = remap(choice.nextSlideId);
+    });
+    return copy;
+  });
+};
+
+const copyContent = (content: CourseContent): CourseContent => ({
+  ...courseContent(content),
+  slides: copySlides(content.slides),
+  assessment: content.assessment && { ...content.assessment },
+});
+
+// The builder's starting point for "Duplicate": the latest edits, under a new title and new slide IDs
+export const duplicateContent = (course: Course): CourseContent => {
+  const content = editableContent(course);
+  return { ...copyContent(content), title: `Copy of ${content.title}` };
+};
+
+// The builder's starting point for a new course from a template
+export const templateContent = (template: CourseTemplate): CourseContent => copyContent(template.content);
+
+// Saved without a title, so courses started from it don't share the original's name
+export const toTemplate = (name: string, content: CourseContent, createdBy: string): CourseTemplate => ({
+  id: `t-${Date.now()}`,
+  name,
+  content: { ...copyContent(content), title: '' },
+  createdBy,
+  createdAt: Date.now(),
+});
+
+// Placeholder text educators replace; kept short so it is obvious what to fill in
+const PLACEHOLDER_QUIZ = {
+  question: 'Replace with your question',
+  options: ['Correct answer', 'Wrong answer', 'Wrong answer'],
+  correctIndex: 0,
+};
+
+const outline = (slides: Omit<Slide, 'id'>[]): CourseContent => ({
+  title: '',
+  category: '',
+  slides: slides.map((s, i) => ({ ...s, id: `tpl-${i + 1}` })),
+  durationMinutes: slides.length * 2,
+  xpReward: slides.length * 50,
+});
+
+export const BUILT_IN_TEMPLATES: CourseTemplate[] = [
+  {
+    id: 'builtin-policy-update',
+    name: 'Policy update',
+    description: 'Explain what changed, have staff read the policy, check they understood and recap.',
+    content: outline([
+      { type: 'intro', title: "What's changing", content: 'Summarise the change and why it matters on the ward.', contentFormat: 'markdown' },
+      { type: 'document', title: 'Read the policy', content: '', requireLastPage: true },
+      { type: 'quiz', title: 'Check your understanding', content: '', quizData: PLACEHOLDER_QUIZ },
+      { type: 'summary', title: 'Key points', content: '- First thing to remember\n- Second thing to remember', contentFormat: 'markdown' },
+    ]),
+  },
+  {
+    id: 'builtin-skill-refresher',
+    name: 'Skill refresher',
+    description: 'Recap a clinical skill with a demonstration video, then test recall of the steps.',
+    content: outline([
+      { type: 'intro', title: 'Why this skill matters', content: 'When the skill is used and what goes wrong without it.', contentFormat: 'markdown' },
+      { type: 'video', title: 'Watch the demonstration', content: '' },
+      { type: 'quiz', title: 'Put the steps in order', content: '', quizData: { kind: 'ordering', question: 'Put these steps in the correct order', options: ['First step', 'Second step', 'Third step'], correctIndex: 0 } },
+      { type: 'quiz', title: 'Quick check', content: '', quizData: PLACEHOLDER_QUIZ },
+      { type: 'summary', title: 'Remember', content: 'The one thing to take away from this refresher.', contentFormat: 'markdown' },
+    ]),
+  },
+  {
+    id: 'builtin-incident-scenario',
+    name: 'Incident scenario',
+    description: 'Walk through a realistic situation where each decision leads somewhere different.',
+    content: outline([
+      { type: 'intro', title: 'The situation', content: 'Set the scene: the patient, the time of day, who is around.', contentFormat: 'markdown' },
+      { type: 'scenario', title: 'What do you do?', content: 'Describe the moment a decision is needed.', contentFormat: 'markdown', choices: [
+        { label: 'The right call', consequence: 'What happens next, and why it works.', nextSlideId: 'tpl-4' },
+        { label: 'A tempting mistake', consequence: 'What goes wrong.', nextSlideId: 'tpl-3' },
+      ] },
+      { type: 'intro', title: 'What went wrong', content: 'Explain the risk and what should have happened instead.', contentFormat: 'markdown' },
+      { type: 'summary', title: 'Lessons learned', content: 'The safe way to handle this situation.', contentFormat: 'markdown' },
+    ]),
+  },
+];
@@ -0,0 +1,138 @@
+import { Course, CourseContent, CourseVersion, Slide } from '../types';
+
+export const isPublished = (course: Course) => course.status !== 'draft';
+
+export const isArchived = (course: Course) => !!course.archivedAt;
+
+// Courses nurses can see and take, and that count towards compliance
+export const isLive = (course: Course) => isPublished(course) && !isArchived(course);
+
+// Courses published before versioning existed count as version 1
+export const currentVersion = (course: Course): number | undefined =>
+  isPublished(course) ? course.version ?? 1 : undefined;
+
+export const courseContent = (course: CourseContent): CourseContent => ({
+  title: course.title,
+  category: course.category,
+  slides: course.slides,
+  xpReward: course.xpReward,
+  durationMinutes: course.durationMinutes,
+  assessment: course.assessment,
+});
+
+// What the builder opens: pending edits if there are any, otherwise what nurses see
+export const editableContent = (course: Course): CourseContent => course.draft ?? courseContent(course);
+
+/**
+ * Stores edits without touching what nurses see. A course that was never published
+ * takes them directly; a published one keeps them aside in `draft` until publishing.
+ */
+export const saveDraft = (course: Course, content: CourseContent): Course =>
+  isPublished(course)
+    ? { ...course, draft: courseContent(content) }
+    : { ...course, ...courseContent(content), status: 'draft' };
+
+// Makes `content` the next version nurses get
+const publishContent = (course: Course, content: CourseContent): Course =>
+  ({ ...course, ...courseContent(content), status: 'published', version: (currentVersion(course) ?? 0) + 1 });
+
+// The pending edits (or, for a draft course, the course itself) become the next version
+export const publishDraft = (course: Course): Course => {
+  const { draft: _published, ...rest } = publishContent(course, editableContent(course));
+  return rest;
+};
+
+// An earlier version is republished as the next one, so history only grows. Pending edits are kept.
+export const rollBack = (course: Course, to: CourseVersion): Course => publishContent(course, to.content);
+
+// The immutable record of what a published course currently gives nurses
+export const snapshotVersion = (course: Course, publishedAt: number, publishedBy: string): CourseVersion => ({
+  courseId: course.id,
+  version: currentVersion(course) ?? 1,
+  content: courseContent(course),
+  publishedAt,
+  publishedBy,
+});
+
+// What nurses are sent: live courses only, without pending edits
+export const forLearners = (courses: Course[]): Course[] =>
+  courses.filter(isLive).map(({ draft: _hidden, ...course }) => course);
+
+// Archiving only hides a course; restoring puts it back as it was
+export const setArchived = (course: Course, archivedAt: number | null): Course => {
+  const { archivedAt: _previous, ...rest } = course;
+  return archivedAt === null ? rest : { ...rest, archivedAt };
+};
+
+// How each slide field is named in a diff. `id` is left out: slides are matched by it.
+const SLIDE_FIELD_LABELS: Record<Exclude<keyof Slide, 'id'>, string> = {
+  type: 'slide type',
+  title: 'title',
+  content: 'content',
+  contentFormat: 'content',
+  image: 'image',
+  captionsUrl: 'captions',
+  minWatchPercent: 'watch requirement',
+  requireLastPage: 'read-to-end',
+  scormLaunch: 'package',
+  quizData: 'question',
+  quizVariants: 'question pool',
+  drawCount: 'questions drawn',
+  choices: 'choices',
+  nextSlideId: 'path',
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const describeAssessment = (a: CourseContent['assessment']) =>
+  a ? `graded, pass mark ${a.passPercent}%${a.maxAttempts ? `, ${a.maxAttempts} attempts` : ''}` : 'practice';
+
+/**
+ * Readable list of what changed from `before` to `after`, one line per change,
+ * for the version history. Slides are matched by ID, so an edited slide is not
+ * reported as removed and re-added.
+ */
+export const diffCourseContent = (before: CourseContent, after: CourseContent): string[] => {
+  const changes: string[] = [];
+  if (before.title !== after.title) changes.push(`Title changed from "${before.title}" to "${after.title}"`);
+  if (before.category !== after.category) changes.push(`Category changed from ${before.category} to ${after.category}`);
+  if (!same(before.assessment, after.assessment)) {
+    changes.push(`Now ${describeAssessment(after.assessment)} (was ${describeAssessment(before.assessment)})`);
+  }
+
+  const beforeIds = before.slides.map(s => s.id);
+  const afterIds = after.slides.map(s => s.id);
+
+  before.slides
+    .filter(s => !afterIds.includes(s.id))
+    .forEach(s => changes.push(`Removed slide "${s.title}"`));
+
+  after.slides.forEach((slide, i) => {
+    const old = before.slides.find(s => s.id === slide.id);
+    if (!old) {
+      changes.push(`Added slide #${i + 1} "${slide.title}"`);
+      return;
+    }
+    const keys = Object.keys(SLIDE_FIELD_LABELS) as (keyof typeof SLIDE_FIELD_LABELS)[];
+    const edited = Array.from(new Set(keys
+      .filter(k => !same(old[k], slide[k]))
+      .map(k => SLIDE_FIELD_LABELS[k])));
+    if (edited.length > 0) changes.push(`Edited slide #${i + 1} "${slide.title}": ${edited.join(', ')}`);
+  });
+
+  const kept = beforeIds.filter(id => afterIds.includes(id));
+  if (!same(kept, afterIds.filter(id => beforeIds.includes(id)))) changes.push('Slides reordered');
+
+  return changes;
+};
+
+// Each version with what it changed from the one before it, newest first
+export const versionHistory = (versions: CourseVersion[]): { version: CourseVersion; changes: string[] }[] => {
+  const sorted = [...versions].sort((a, b) => a.version - b.version);
+  return sorted
+    .map((version, i) => ({
+      version,
+      changes: i === 0 ? ['First published'] : diffCourseContent(sorted[i - 1].content, version.content),
+    }))
+    .reverse();
+};
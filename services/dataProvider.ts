@@ -0,0 +1,72 @@
+import { User, Course, CourseVersion, CourseTemplate, QuizAttempt, AssessmentAttempt, VideoWatch, ScenarioDecision, Session, PinResetCode, PinResetRecord, Badge, CourseProgress } from '../types';
+import { AppConfig, DataProviderKind } from './config';
+import { createRestProvider } from './restProvider';
+import { createLocalProvider, memoryStore, browserStore } from './localProvider';
+
+export interface WriteOptions {
+  requestId?: string; // Idempotency key, so a replayed write is applied once
+}
+
+/**
+ * Everything the app can ask of a backend. `api` layers the client-side permission
+ * check and the offline write queue on top of whichever provider is active.
+ * Providers enforce permissions themselves, the same way the PHP backend does.
+ */
+export interface DataProvider {
+  readonly kind: DataProviderKind;
+
+  ping(): Promise<void>;
+  login(id: string, pin: string): Promise<Session>;
+  logout(): Promise<void>;
+
+  getUsers(): Promise<User[]>;
+  getCourses(): Promise<Course[]>;
+
+  saveUser(user: User, options?: WriteOptions): Promise<void>;
+  logQuizAttempt(userId: string, attempt: QuizAttempt, options?: WriteOptions): Promise<void>;
+  updateUserProgress(user: User, options?: WriteOptions): Promise<void>;
+  // `progress: null` forgets the resume point, e.g. once the course is finished
+  saveCourseProgress(userId: string, courseId: string, progress: CourseProgress | null, options?: WriteOptions): Promise<void>;
+  // Rejected once the course's attempt limit is used up
+  logAssessmentAttempt(userId: string, attempt: AssessmentAttempt, options?: WriteOptions): Promise<void>;
+  logVideoWatch(userId: string, watch: VideoWatch, options?: WriteOptions): Promise<void>;
+  logScenarioDecision(userId: string, decision: ScenarioDecision, options?: WriteOptions): Promise<void>;
+  logReviewAttempt(userId: string, attempt: QuizAttempt, options?: WriteOptions): Promise<void>;
+  deleteUser(userId: string, options?: WriteOptions): Promise<void>;
+  unlockUser(userId: string, options?: WriteOptions): Promise<void>;
+
+  issueResetCode(userId: string): Promise<PinResetCode>;
+  resetPin(id: string, code: string, pin: string): Promise<void>;
+  getPinResets(userId: string): Promise<PinResetRecord[]>;
+
+  // Saves a draft; for a published course nurses keep the published content
+  saveCourse(course: Course, options?: WriteOptions): Promise<void>;
+  // Publishes the draft, or with `fromVersion` republishes that earlier version (a rollback)
+  publishCourse(courseId: string, fromVersion?: number, options?: WriteOptions): Promise<void>;
+  getCourseVersions(courseId: string): Promise<CourseVersion[]>;
+  // Hides a course from nurses and compliance (or, with `archived: false`, restores it); nothing is deleted
+  archiveCourse(courseId: string, archived: boolean, options?: WriteOptions): Promise<void>;
+
+  // Templates educators saved; the built-in ones live in courseTemplates.ts
+  getTemplates(): Promise<CourseTemplate[]>;
+  saveTemplate(template: CourseTemplate, options?: WriteOptions): Promise<void>;
+  deleteTemplate(templateId: string, options?: WriteOptions): Promise<void>;
+
+  getBadges(): Promise<Badge[]>;
+  saveBadge(badge: Badge, options?: WriteOptions): Promise<void>;
+
+  // Stores a file for slides to link to (see media.ts) and resolves to its URL
+  uploadMedia(file: Blob): Promise<string>;
+}
+
+export const createDataProvider = (
+  kind: DataProviderKind,
+  config: AppConfig,
+  getSession: () => Session | null
+): DataProvider => {
+  switch (kind) {
+    case 'rest': return createRestProvider(config.apiBaseUrl, getSession);
+    case 'memory': return createLocalProvider('memory', memoryStore(), getSession);
+    case 'browser': return createLocalProvider('browser', browserStore(), getSession);
+  }
+};
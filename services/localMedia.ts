@@ -0,0 +1,34 @@
+import { MEDIA_TYPES } from './media';
+
+/**
+ * Uploaded files while a local provider stands in for the backend. They are kept in
+ * Cache Storage and served from /local-media/ by /local-media-sw.js, so slides link to
+ * them by an ordinary URL, the same as to files on the server.
+ */
+const CACHE_NAME = 'local-media';
+const MEDIA_ROOT = '/local-media/';
+
+let workerReady: Promise<void> | null = null;
+
+// The worker has to control the app's page before the page's <img> and <video> requests reach it
+const controlled = () => new Promise<void>(resolve => {
+  if (navigator.serviceWorker.controller) return resolve();
+  navigator.serviceWorker.addEventListener('controllerchange', () => resolve(), { once: true });
+});
+
+// Stores the file and resolves to the URL slides refer to it by
+export const storeLocalMedia = async (file: Blob): Promise<string> => {
+  if (!('serviceWorker' in navigator) || !('caches' in window)) {
+    throw new Error('This browser cannot keep uploaded files here (it needs HTTPS and a recent browser).');
+  }
+  workerReady ??= navigator.serviceWorker.register('/local-media-sw.js', { scope: '/' })
+    .then(() => navigator.serviceWorker.ready)
+    .then(controlled);
+  await workerReady;
+
+  const type = file.type.toLowerCase();
+  const url = `${MEDIA_ROOT}${crypto.randomUUID()}.${MEDIA_TYPES[type]}`;
+  const cache = await caches.open(CACHE_NAME);
+  await cache.put(url, new Response(file, { headers: { 'Content-Type': type, 'Content-Length': String(file.size) } }));
+  return url;
+};
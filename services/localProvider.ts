@@ -0,0 +1,443 @@
+import { User, Course, CourseVersion, CourseTemplate, QuizAttempt, AssessmentAttempt, VideoWatch, ScenarioDecision, Session, PinResetCode, PinResetRecord, Badge, CourseProgress } from '../types';
+import { DataProvider } from './dataProvider';
+import { DataProviderKind } from './config';
+import { ApiAction, canPerform } from './permissions';
+import { ApiError } from './api';
+import { INITIAL_USERS, INITIAL_COURSES, INITIAL_BADGES, MOCK_PIN_HASHES } from './mockData';
+import { isPublished, saveDraft, publishDraft, rollBack, snapshotVersion, forLearners, setArchived } from './courseVersions';
+import { hashPin, toPublicUser, generateResetCode } from './auth';
+import { withAttempt } from './assessment';
+import { mediaProblem } from './media';
+import { storeLocalMedia } from './localMedia';
+import { LoginAttemptRecord, EMPTY_ATTEMPT_RECORD, checkThrottle, recordFailure, attemptsRemaining, delayAfterFailures } from './loginThrottle';
+
+// Sessions last one 12-hour shift
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+// CONFIGURATION: Keep in sync with the RESET_CODE_* constants in api.php
+const RESET_CODE_TTL_MS = 15 * 60 * 1000;
+const RESET_CODE_MAX_TRIES = 5; // Wrong guesses before a code is burned
+
+// Reset codes double as the reset log
+type StoredResetCode = PinResetRecord & { codeHash: string; failedTries: number };
+
+// Everything the PHP backend keeps in MySQL
+export interface LocalState {
+  users: User[];
+  courses: Course[];
+  courseVersions: CourseVersion[]; // Append-only
+  templates: CourseTemplate[]; // Saved by educators
+  badges: Badge[];
+  pinHashes: Record<string, string>;
+  loginAttempts: Record<string, LoginAttemptRecord>; // Keyed by the Staff ID typed, known or not
+  resetCodes: StoredResetCode[];
+}
+
+export interface LocalStore {
+  load(): LocalState;
+  save(state: LocalState): void;
+}
+
+const seedState = (): LocalState => ({
+  users: INITIAL_USERS.map(u => ({ ...u })),
+  courses: INITIAL_COURSES.map(c => ({ ...c })),
+  courseVersions: [],
+  templates: [],
+  badges: INITIAL_BADGES.map(b => ({ ...b })),
+  pinHashes: { ...MOCK_PIN_HASHES },
+  loginAttempts: {},
+  resetCodes: [],
+});
+
+// Seeded from mockData; every change is lost on reload
+export const memoryStore = (): LocalStore => {
+  let state = seedState();
+  return {
+    load: () => state,
+    save: next => { state = next; },
+  };
+};
+
+// Seeded from mockData on first use, then kept in localStorage
+export const browserStore = (key = 'mahsa_data'): LocalStore => ({
+  load: () => {
+    try {
+      const saved = localStorage.getItem(key);
+      if (saved) return { ...seedState(), ...JSON.parse(saved) };
+    } catch (e) {
+      console.error("Stored data unreadable, reseeding", e);
+    }
+    return seedState();
+  },
+  save: state => localStorage.setItem(key, JSON.stringify(state)),
+});
+
+/**
+ * In-browser stand-in for the PHP backend, used for demos, tests and as the offline fallback.
+ * Mirrors the server's rules: hashed PINs, sessions, login throttling, one-time reset
+ * codes and role permissions.
+ */
+export const createLocalProvider = (
+  kind: DataProviderKind,
+  store: LocalStore,
+  getSession: () => Session | null
+): DataProvider => {
+  let state = store.load();
+
+  // Sessions are never persisted, so a reload always means signing in again
+  const sessions: Record<string, { userId: string; expiresAt: number }> = {};
+
+  const commit = (next: LocalState) => {
+    state = next;
+    store.save(state);
+  };
+
+  // Server-side equivalent of the session + $PERMISSIONS check in api.php
+  const requireCaller = (action: ApiAction, targetUserId?: string): User => {
+    const session = getSession();
+    const record = session ? sessions[session.token] : undefined;
+    const caller = record && record.expiresAt > Date.now() ? state.users.find(u => u.id === record.userId) : undefined;
+    if (!caller) {
+      throw new ApiError('unauthenticated', 'Your session has ended. Please sign in again.', action);
+    }
+    if (!canPerform(caller, action, targetUserId)) {
+      throw new ApiError('forbidden', `A ${caller.role} account is not allowed to perform '${action}'.`, action);
+    }
+    return caller;
+  };
+
+  // A course published before versioning has no stored history; its content stands as version 1
+  const versionsOf = (course: Course): CourseVersion[] => {
+    const stored = state.courseVersions.filter(v => v.courseId === course.id);
+    if (stored.length > 0 || !isPublished(course)) return stored;
+    return [snapshotVersion(course, course.timestamp ?? 0, '')];
+  };
+
+  const updateUser = (id: string, changes: Partial<User>) => {
+    commit({ ...state, users: state.users.map(u => u.id === id ? { ...u, ...changes } : u) });
+  };
+
+  return {
+    kind,
+
+    ping: async () => {},
+
+    login: async (id: string, pin: string) => {
+      // Hashed first, so the throttle is checked and updated with no await in between
+      // and parallel guesses each see the failures before them
+      const pinHash = await hashPin(id, pin);
+      const record = state.loginAttempts[id] || EMPTY_ATTEMPT_RECORD;
+      const throttle = checkThrottle(record);
+      if (throttle.status !== 'ok') {
+        throw new ApiError(throttle.status, throttle.status === 'locked'
+          ? 'Too many failed attempts. This account is locked.'
+          : 'Please wait before trying again.', 'login', { retryAt: throttle.retryAt });
+      }
+
+      const user = state.users.find(u => u.id === id);
+
+      if (!user || pinHash !== state.pinHashes[id]) {
+        const updated = recordFailure(record);
+        commit({ ...state, loginAttempts: { ...state.loginAttempts, [id]: updated } });
+        if (updated.lockedUntil) {
+          throw new ApiError('locked', 'Too many failed attempts. This account is locked.', 'login', { retryAt: updated.lockedUntil });
+        }
+        throw new ApiError('unauthenticated', 'Invalid Staff ID or PIN', 'login', {
+          attemptsRemaining: attemptsRemaining(updated),
+          retryAt: updated.lastFailedAt + delayAfterFailures(updated.failedCount)
+        });
+      }
+
+      const { [id]: _cleared, ...loginAttempts } = state.loginAttempts;
+      commit({ ...state, loginAttempts });
+
+      const token = `local-${crypto.randomUUID()}`;
+      const expiresAt = Date.now() + SESSION_TTL_MS;
+      sessions[token] = { userId: id, expiresAt };
+      return { token, expiresAt, user: toPublicUser(user) };
+    },
+
+    logout: async () => {
+      const session = getSession();
+      if (session) delete sessions[session.token];
+    },
+
+    getUsers: async () => {
+      const caller = requireCaller('get_users');
+      const now = Date.now();
+      return state.users.map(u => {
+        const lockedUntil = state.loginAttempts[u.id]?.lockedUntil;
+        return {
+          ...u,
+          // Nurses only see their own quiz history and progress; only educators see lockouts
+          quizAttempts: caller.role === 'Educator' || u.id === caller.id ? u.quizAttempts : [],
+          assessmentAttempts: caller.role === 'Educator' || u.id === caller.id ? u.assessmentAttempts : [],
+          videoWatches: caller.role === 'Educator' || u.id === caller.id ? u.videoWatches : [],
+          scenarioDecisions: caller.role === 'Educator' || u.id === caller.id ? u.scenarioDecisions : [],
+          reviewAttempts: caller.role === 'Educator' || u.id === caller.id ? u.reviewAttempts : [],
+          courseProgress: caller.role === 'Educator' || u.id === caller.id ? u.courseProgress : [],
+          lockedUntil: caller.role === 'Educator' && lockedUntil && lockedUntil > now ? lockedUntil : undefined,
+        };
+      });
+    },
+
+    // Nurses get published courses only, as published
+    getCourses: async () => {
+      const caller = requireCaller('get_courses');
+      return caller.role === 'Educator' ? state.courses : forLearners(state.courses);
+    },
+
+    saveUser: async (user: User) => {
+      const caller = requireCaller('save_user', user.id);
+      const pinHashes = user.pin ? { ...state.pinHashes, [user.id]: await hashPin(user.id, user.pin) } : state.pinHashes;
+
+      // Nurses may change their own PIN, nothing else
+      if (caller.role !== 'Educator') {
+        commit({ ...state, pinHashes });
+        return;
+      }
+
+      const saved = toPublicUser(user);
+      const exists = state.users.some(u => u.id === user.id);
+      commit({
+        ...state,
+        pinHashes,
+        users: exists ? state.users.map(u => u.id === user.id ? { ...u, ...saved } : u) : [...state.users, saved],
+      });
+    },
+
+    logQuizAttempt: async (userId: string, attempt: QuizAttempt) => {
+      requireCaller('log_quiz_attempt', userId);
+      const user = state.users.find(u => u.id === userId);
+      if (user) updateUser(userId, { quizAttempts: [...(user.quizAttempts || []), attempt] });
+    },
+
+    updateUserProgress: async (user: User) => {
+      requireCaller('update_user_progress', user.id);
+      // A graded course is only completed by passing it, so each newly completed one needs a passing attempt on record
+      const stored = state.users.find(u => u.id === user.id);
+      const unearned = user.completedCourses.some(courseId => !stored?.completedCourses.includes(courseId)
+        && state.courses.find(c => c.id === courseId)?.assessment
+        && !(stored?.assessmentAttempts || []).some(a => a.courseId === courseId && a.passed && !a.unfinished));
+      if (unearned) {
+        throw new ApiError('forbidden', 'A graded course is only completed by passing its assessment.', 'update_user_progress');
+      }
+      updateUser(user.id, {
+        xp: user.xp,
+        streak: user.streak,
+        lastActiveDay: user.lastActiveDay,
+        badges: user.badges,
+        completedCourses: user.completedCourses,
+        completions: user.completions,
+      });
+    },
+
+    saveCourseProgress: async (userId: string, courseId: string, progress: CourseProgress | null) => {
+      requireCaller('save_course_progress', userId);
+      const user = state.users.find(u => u.id === userId);
+      if (!user) return;
+      const others = (user.courseProgress || []).filter(p => p.courseId !== courseId);
+      updateUser(userId, { courseProgress: progress ? [...others, progress] : others });
+    },
+
+    logAssessmentAttempt: async (userId: string, attempt: AssessmentAttempt) => {
+      requireCaller('log_assessment_attempt', userId);
+      const user = state.users.find(u => u.id === userId);
+      if (!user) return;
+      const maxAttempts = state.courses.find(c => c.id === attempt.courseId)?.assessment?.maxAttempts;
+      const previous = (user.assessmentAttempts || []).filter(a => a.courseId === attempt.courseId);
+      // Submitting a run that was logged as it started uses no further attempt
+      const isSameRun = attempt.startedAt !== undefined && previous.some(a => a.startedAt === attempt.startedAt);
+      if (maxAttempts !== undefined && !isSameRun && previous.length >= maxAttempts) {
+        throw new ApiError('forbidden', 'No attempts left for this assessment.', 'log_assessment_attempt');
+      }
+      updateUser(userId, { assessmentAttempts: withAttempt(user.assessmentAttempts || [], attempt) });
+    },
+
+    logVideoWatch: async (userId: string, watch: VideoWatch) => {
+      requireCaller('log_video_watch', userId);
+      const user = state.users.find(u => u.id === userId);
+      if (user) updateUser(userId, { videoWatches: [...(user.videoWatches || []), watch] });
+    },
+
+    logScenarioDecision: async (userId: string, decision: ScenarioDecision) => {
+      requireCaller('log_scenario_decision', userId);
+      const user = state.users.find(u => u.id === userId);
+      if (user) updateUser(userId, { scenarioDecisions: [...(user.scenarioDecisions || []), decision] });
+    },
+
+    logReviewAttempt: async (userId: string, attempt: QuizAttempt) => {
+      requireCaller('log_review_attempt', userId);
+      const user = state.users.find(u => u.id === userId);
+      if (user) updateUser(userId, { reviewAttempts: [...(user.reviewAttempts || []), attempt] });
+    },
+
+    deleteUser: async (userId: string) => {
+      const caller = requireCaller('delete_user', userId);
+      if (userId === caller.id) {
+        throw new ApiError('forbidden', 'You cannot delete your own account while logged in.', 'delete_user');
+      }
+      commit({ ...state, users: state.users.filter(u => u.id !== userId) });
+    },
+
+    unlockUser: async (userId: string) => {
+      requireCaller('unlock_user', userId);
+      const { [userId]: _cleared, ...loginAttempts } = state.loginAttempts;
+      commit({ ...state, loginAttempts });
+    },
+
+    issueResetCode: async (userId: string): Promise<PinResetCode> => {
+      const caller = requireCaller('issue_reset_code', userId);
+      const now = Date.now();
+      const code = generateResetCode();
+      const expiresAt = now + RESET_CODE_TTL_MS;
+
+      // Only the newest code is valid
+      const resetCodes = state.resetCodes.map(c =>
+        c.userId === userId && !c.usedAt && c.expiresAt > now ? { ...c, expiresAt: now } : c
+      );
+      resetCodes.push({
+        userId,
+        issuedBy: caller.id,
+        issuedAt: now,
+        expiresAt,
+        usedAt: null,
+        codeHash: await hashPin(userId, `reset:${code}`),
+        failedTries: 0
+      });
+      commit({ ...state, resetCodes });
+      return { code, expiresAt };
+    },
+
+    resetPin: async (id: string, code: string, pin: string) => {
+      if (!/^\d{4}$/.test(pin)) throw new ApiError('invalid', 'PIN must be 4 digits.', 'reset_pin');
+      // Hashed first, so the code is looked up, checked and updated with no await in between
+      // and parallel guesses each see the tries before them
+      const codeHash = await hashPin(id, `reset:${code}`);
+      const pinHash = await hashPin(id, pin);
+      const now = Date.now();
+      const active = state.resetCodes.find(c => c.userId === id && !c.usedAt && c.expiresAt > now);
+      if (!active) {
+        throw new ApiError('invalid', 'No active reset code for this Staff ID. Ask an educator for a new one.', 'reset_pin');
+      }
+
+      if (codeHash !== active.codeHash) {
+        const failedTries = active.failedTries + 1;
+        const burned = { ...active, failedTries, expiresAt: failedTries >= RESET_CODE_MAX_TRIES ? now : active.expiresAt };
+        commit({ ...state, resetCodes: state.resetCodes.map(c => c === active ? burned : c) });
+        throw new ApiError('invalid', 'Incorrect reset code.', 'reset_pin');
+      }
+
+      // Sign out old sessions and clear any lockout on this Staff ID
+      Object.keys(sessions).forEach(token => {
+        if (sessions[token].userId === id) delete sessions[token];
+      });
+      const { [id]: _cleared, ...loginAttempts } = state.loginAttempts;
+      commit({
+        ...state,
+        loginAttempts,
+        pinHashes: { ...state.pinHashes, [id]: pinHash },
+        resetCodes: state.resetCodes.map(c => c === active ? { ...active, usedAt: now } : c),
+      });
+    },
+
+    getPinResets: async (userId: string) => {
+      requireCaller('get_pin_resets', userId);
+      return state.resetCodes
+        .filter(c => c.userId === userId)
+        .map(({ codeHash, failedTries, ...record }) => record)
+        .sort((a, b) => b.issuedAt - a.issuedAt);
+    },
+
+    // Only ever a draft: what nurses see changes through publishCourse alone
+    saveCourse: async (course: Course) => {
+      requireCaller('save_course');
+      const stored = state.courses.find(c => c.id === course.id);
+      // Archiving has its own action, so saving an archived draft keeps it archived
+      const saved: Course = stored && isPublished(stored)
+        ? saveDraft(stored, course.draft ?? course)
+        : setArchived({ ...course, status: 'draft' }, stored?.archivedAt ?? null);
+      commit({
+        ...state,
+        courses: stored ? state.courses.map(c => c.id === course.id ? saved : c) : [...state.courses, saved],
+      });
+    },
+
+    publishCourse: async (courseId: string, fromVersion?: number) => {
+      const caller = requireCaller('publish_course');
+      const course = state.courses.find(c => c.id === courseId);
+      if (!course) throw new ApiError('invalid', 'That course does not exist.', 'publish_course');
+
+      const history = versionsOf(course);
+      const target = history.find(v => v.version === fromVersion);
+      if (fromVersion !== undefined && !target) {
+        throw new ApiError('invalid', `Version ${fromVersion} of this course does not exist.`, 'publish_course');
+      }
+
+      const published = target ? rollBack(course, target) : publishDraft(course);
+      commit({
+        ...state,
+        courses: state.courses.map(c => c.id === courseId ? published : c),
+        courseVersions: [
+          ...state.courseVersions.filter(v => v.courseId !== courseId),
+          ...history,
+          snapshotVersion(published, Date.now(), caller.id),
+        ],
+      });
+    },
+
+    getCourseVersions: async (courseId: string) => {
+      requireCaller('get_course_versions');
+      const course = state.courses.find(c => c.id === courseId);
+      return course ? versionsOf(course) : [];
+    },
+
+    archiveCourse: async (courseId: string, archived: boolean) => {
+      requireCaller('archive_course');
+      const archivedAt = archived ? Date.now() : null;
+      commit({ ...state, courses: state.courses.map(c => c.id === courseId ? setArchived(c, archivedAt) : c) });
+    },
+
+    getTemplates: async () => {
+      requireCaller('get_templates');
+      return state.templates;
+    },
+
+    saveTemplate: async (template: CourseTemplate) => {
+      requireCaller('save_template');
+      const exists = state.templates.some(t => t.id === template.id);
+      commit({
+        ...state,
+        templates: exists ? state.templates.map(t => t.id === template.id ? template : t) : [...state.templates, template],
+      });
+    },
+
+    deleteTemplate: async (templateId: string) => {
+      requireCaller('delete_template');
+      commit({ ...state, templates: state.templates.filter(t => t.id !== templateId) });
+    },
+
+    getBadges: async () => {
+      requireCaller('get_badges');
+      return state.badges;
+    },
+
+    // Badges are retired rather than deleted, so earned badges always resolve
+    saveBadge: async (badge: Badge) => {
+      requireCaller('save_badge');
+      const exists = state.badges.some(b => b.id === badge.id);
+      commit({
+        ...state,
+        badges: exists ? state.badges.map(b => b.id === badge.id ? badge : b) : [...state.badges, badge],
+      });
+    },
+
+    // Kept out of `state`, which is rewritten whole on every change
+    uploadMedia: async (file: Blob) => {
+      requireCaller('upload_media');
+      const problem = mediaProblem(file);
+      if (problem) throw new ApiError('invalid', problem, 'upload_media');
+      return storeLocalMedia(file);
+    },
+  };
+};
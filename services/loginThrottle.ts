@@ -0,0 +1,46 @@
+// CONFIGURATION: Keep in sync with the LOGIN_* constants in api.php
+export const LOGIN_THROTTLE = {
+  maxAttempts: 5,               // Failures before the Staff ID is locked
+  baseDelayMs: 1000,            // Wait after the 1st failure; doubles with each further failure
+  lockoutMs: 15 * 60 * 1000,    // How long a lockout lasts unless an educator unlocks it sooner
+};
+
+export interface LoginAttemptRecord {
+  failedCount: number;
+  lastFailedAt: number;
+  lockedUntil: number | null;
+}
+
+export type ThrottleCheck =
+  | { status: 'ok' }
+  | { status: 'throttled' | 'locked'; retryAt: number };
+
+export const EMPTY_ATTEMPT_RECORD: LoginAttemptRecord = { failedCount: 0, lastFailedAt: 0, lockedUntil: null };
+
+// Progressive delay: 1s, 2s, 4s, 8s... after each consecutive failure
+export const delayAfterFailures = (failedCount: number) =>
+  failedCount > 0 ? LOGIN_THROTTLE.baseDelayMs * Math.pow(2, failedCount - 1) : 0;
+
+export const checkThrottle = (record: LoginAttemptRecord, now = Date.now()): ThrottleCheck => {
+  if (record.lockedUntil && record.lockedUntil > now) {
+    return { status: 'locked', retryAt: record.lockedUntil };
+  }
+  const retryAt = record.lastFailedAt + delayAfterFailures(record.failedCount);
+  if (retryAt > now) {
+    return { status: 'throttled', retryAt };
+  }
+  return { status: 'ok' };
+};
+
+export const recordFailure = (record: LoginAttemptRecord, now = Date.now()): LoginAttemptRecord => {
+  // An expired lockout starts a fresh count
+  const failedCount = (record.lockedUntil && record.lockedUntil <= now ? 0 : record.failedCount) + 1;
+  return {
+    failedCount,
+    lastFailedAt: now,
+    lockedUntil: failedCount >= LOGIN_THROTTLE.maxAttempts ? now + LOGIN_THROTTLE.lockoutMs : null,
+  };
+};
+
+export const attemptsRemaining = (record: LoginAttemptRecord) =>
+  Math.max(0, LOGIN_THROTTLE.maxAttempts - record.failedCount);
@@ -0,0 +1,131 @@
+/**
+ * A small Markdown dialect for slide text: headings, paragraphs, bullet and numbered
+ * lists, tables, `> ` warning callouts, **bold**, *italic*, `code` and [links](https://...).
+ * It parses to a tree that MarkdownContent renders as React elements, never as HTML,
+ * so nothing in the source can inject markup or script.
+ */
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: Inline[] }
+  | { type: 'em'; children: Inline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: Inline[] };
+
+export type Block =
+  | { type: 'heading'; level: 1 | 2 | 3; children: Inline[] }
+  | { type: 'paragraph'; lines: Inline[][] }
+  | { type: 'list'; ordered: boolean; items: Inline[][] }
+  | { type: 'table'; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'callout'; lines: Inline[][] };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+// Only absolute links with a known-safe protocol; `javascript:` and friends are dropped
+export const safeHref = (url: string): string | null => {
+  try {
+    const parsed = new URL(url.trim());
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// Earliest match wins; at the same position, the longer marker (** before *) is tried first
+const INLINE_PATTERN = /(\*\*(.+?)\*\*)|(`([^`]+)`)|(\[([^\]]+)\]\(([^)\s]+)\))|(\*([^*]+)\*)|(_([^_]+)_)/;
+
+export const parseInline = (source: string): Inline[] => {
+  const result: Inline[] = [];
+  let rest = source;
+
+  while (rest) {
+    const match = rest.match(INLINE_PATTERN);
+    if (!match || match.index === undefined) {
+      result.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) result.push({ type: 'text', text: rest.slice(0, match.index) });
+
+    if (match[1]) {
+      result.push({ type: 'strong', children: parseInline(match[2]) });
+    } else if (match[3]) {
+      result.push({ type: 'code', text: match[4] });
+    } else if (match[5]) {
+      const href = safeHref(match[7]);
+      result.push(href ? { type: 'link', href, children: parseInline(match[6]) } : { type: 'text', text: match[6] });
+    } else {
+      result.push({ type: 'em', children: parseInline(match[9] ?? match[11]) });
+    }
+    rest = rest.slice(match.index + match[0].length);
+  }
+  return result;
+};
+
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const CALLOUT = /^>\s?(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const tableCells = (line: string) =>
+  line.trim().replace(/^\||\|$/g, '').split('|').map(cell => parseInline(cell.trim()));
+
+export const parseMarkdown = (source: string): Block[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  // Consumes consecutive lines matching `pattern`, returning each one's captured text
+  const takeWhile = (pattern: RegExp): string[] => {
+    const taken: string[] = [];
+    while (i < lines.length) {
+      const m = lines[i].match(pattern);
+      if (!m) break;
+      taken.push(m[1] ?? lines[i]);
+      i++;
+    }
+    return taken;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+      i++;
+    } else if (BULLET.test(line)) {
+      blocks.push({ type: 'list', ordered: false, items: takeWhile(BULLET).map(parseInline) });
+    } else if (NUMBERED.test(line)) {
+      blocks.push({ type: 'list', ordered: true, items: takeWhile(NUMBERED).map(parseInline) });
+    } else if (CALLOUT.test(line)) {
+      blocks.push({ type: 'callout', lines: takeWhile(CALLOUT).map(parseInline) });
+    } else if (TABLE_ROW.test(line) && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = tableCells(line);
+      i += 2;
+      const rows = takeWhile(TABLE_ROW).map(tableCells);
+      blocks.push({ type: 'table', header, rows });
+    } else {
+      // A paragraph runs until a blank line or the start of another block
+      const paragraph: Inline[][] = [];
+      while (i < lines.length && lines[i].trim() && !HEADING.test(lines[i]) && !BULLET.test(lines[i])
+        && !NUMBERED.test(lines[i]) && !CALLOUT.test(lines[i]) && !TABLE_ROW.test(lines[i])) {
+        paragraph.push(parseInline(lines[i]));
+        i++;
+      }
+      if (paragraph.length === 0) {
+        // A lone table-looking row without a divider is just text
+        paragraph.push(parseInline(lines[i]));
+        i++;
+      }
+      blocks.push({ type: 'paragraph', lines: paragraph });
+    }
+  }
+  return blocks;
+};
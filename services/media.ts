@@ -0,0 +1,27 @@
+/**
+ * Files slides link to once uploaded: images, self-hosted video, PDFs, captions and
+ * SCORM packages. They are stored apart from the course (see `upload_media` in api.php,
+ * or localMedia.ts for the local providers) so course data stays small.
+ */
+
+// File types that may be uploaded, with the extension they are stored under.
+// Keep in sync with $MEDIA_TYPES in api.php.
+export const MEDIA_TYPES: Record<string, string> = {
+  'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif', 'image/webp': 'webp', 'image/svg+xml': 'svg',
+  'video/mp4': 'mp4', 'video/webm': 'webm',
+  'application/pdf': 'pdf',
+  'text/vtt': 'vtt',
+  'application/zip': 'zip', 'application/x-zip-compressed': 'zip',
+};
+
+// Keep in sync with MEDIA_MAX_BYTES in api.php
+export const MAX_MEDIA_BYTES = 15 * 1024 * 1024;
+
+export const isMediaType = (type: string) => type.toLowerCase() in MEDIA_TYPES;
+
+// Why a file can't be uploaded, or null when it can
+export const mediaProblem = (file: Blob): string | null => {
+  if (!isMediaType(file.type)) return `Files of type "${file.type || 'unknown'}" can't be uploaded.`;
+  if (file.size > MAX_MEDIA_BYTES) return `The file is ${Math.ceil(file.size / 1024 / 1024)} MB; the limit is ${MAX_MEDIA_BYTES / 1024 / 1024} MB.`;
+  return null;
+};
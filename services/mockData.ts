@@ -1,9 +1,8 @@
-import { User, Course } from '../types';
+import { User, Course, Badge } from '../types';
 
 export const INITIAL_USERS: User[] = [
   {
     id: '12345',
-    pin: '1234',
     name: 'Sarah Jenkins',
     role: 'Nurse',
     avatar: 'https://ui-avatars.com/api/?name=Sarah+Jenkins&background=0ea5e9&color=fff',
@@ -15,7 +14,6 @@ export const INITIAL_USERS: User[] = [
   },
   {
     id: '54321',
-    pin: '1234',
     name: 'Mike Ross',
     role: 'Nurse',
     avatar: 'https://ui-avatars.com/api/?name=Mike+Ross&background=f59e0b&color=fff',
@@ -27,7 +25,6 @@ export const INITIAL_USERS: User[] = [
   },
   {
     id: '99901',
-    pin: '1234',
     name: 'Emily Blunt',
     role: 'Nurse',
     avatar: 'https://ui-avatars.com/api/?name=Emily+Blunt&background=10b981&color=fff',
@@ -39,7 +36,6 @@ export const INITIAL_USERS: User[] = [
   },
   {
     id: 'admin',
-    pin: '1234',
     name: 'Dr. A. Wong',
     role: 'Educator',
     avatar: 'https://ui-avatars.com/api/?name=Dr+Wong&background=6366f1&color=fff',
@@ -51,11 +47,19 @@ export const INITIAL_USERS: User[] = [
   }
 ];
 
-export const AVAILABLE_BADGES = [
-  { id: 'b1', name: 'Fast Starter', icon: '⚡', description: 'Completed first course' },
-  { id: 'b2', name: 'Knowledge Seeker', icon: '📚', description: 'Earned 1000+ XP' },
-  { id: 'b3', name: 'Streak Master', icon: '🔥', description: '7-day login streak' },
-  { id: 'b4', name: 'Quiz Whiz', icon: '🧠', description: 'Perfect score on a quiz' },
+// Offline login only: SHA-256 of "mahsa:<staffId>:<pin>" (every demo account uses PIN 1234)
+export const MOCK_PIN_HASHES: Record<string, string> = {
+  '12345': '52d15469e1b7ffc79e1714672c32987ed8de064d9d3591d27b51fba331031372',
+  '54321': 'a6c11a19e57fa553000afa66221a587ea5732d4bd2ff35f5467aec6a04e68c95',
+  '99901': '43df34d0cfdc991698a4531e2263a3dd2737d641e4ccf1d886c70a3073d0a595',
+  'admin': '528210a294bfc010b9941bd26e5f448810edf724c7448e38dfbb9889506ca2e1',
+};
+
+export const INITIAL_BADGES: Badge[] = [
+  { id: 'b1', name: 'Fast Starter', icon: '⚡', description: 'Completed first course', rule: { kind: 'courses_completed', count: 1 } },
+  { id: 'b2', name: 'Knowledge Seeker', icon: '📚', description: 'Earned 1000+ XP', rule: { kind: 'xp_reached', xp: 1000 } },
+  { id: 'b3', name: 'Streak Master', icon: '🔥', description: '7-day learning streak', rule: { kind: 'streak_days', days: 7 } },
+  { id: 'b4', name: 'Quiz Whiz', icon: '🧠', description: 'Perfect score on a quiz', rule: { kind: 'perfect_score' } },
 ];
 
 export const INITIAL_COURSES: Course[] = [
@@ -107,6 +111,7 @@ export const INITIAL_COURSES: Course[] = [
     durationMinutes: 8,
     xpReward: 150,
     timestamp: Date.now(), // Created just now (NEW)
+    assessment: { passPercent: 80, maxAttempts: 3 }, // Mandatory, so graded
     slides: [
       {
         id: 's1',
@@ -0,0 +1,54 @@
+export type ToastKind = 'error' | 'success' | 'info';
+
+export interface Toast {
+  id: number;
+  kind: ToastKind;
+  message: string;
+}
+
+type Listener = (toasts: Toast[]) => void;
+
+// Errors stay up longer since they usually need acting on
+const TOAST_DURATION_MS: Record<ToastKind, number> = {
+  error: 8000,
+  success: 3000,
+  info: 4000,
+};
+
+// Older toasts are dropped beyond this, so a burst of failures can't fill the screen
+const MAX_TOASTS = 3;
+
+const listeners = new Set<Listener>();
+let toasts: Toast[] = [];
+let nextId = 0;
+
+const emit = () => listeners.forEach(listener => listener(toasts));
+
+export const notifications = {
+  show: (kind: ToastKind, message: string) => {
+    // An identical toast already showing is enough
+    if (toasts.some(t => t.kind === kind && t.message === message)) return;
+
+    const toast = { id: ++nextId, kind, message };
+    toasts = [...toasts, toast].slice(-MAX_TOASTS);
+    emit();
+    setTimeout(() => notifications.dismiss(toast.id), TOAST_DURATION_MS[kind]);
+  },
+
+  error: (message: string) => notifications.show('error', message),
+  success: (message: string) => notifications.show('success', message),
+  info: (message: string) => notifications.show('info', message),
+
+  dismiss: (id: number) => {
+    if (!toasts.some(t => t.id === id)) return;
+    toasts = toasts.filter(t => t.id !== id);
+    emit();
+  },
+
+  // Called with the current toasts now and after every change. Returns an unsubscribe function.
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    listener(toasts);
+    return () => { listeners.delete(listener); };
+  },
+};
@@ -0,0 +1,161 @@
+import { User, Course, CourseTemplate, QuizAttempt, AssessmentAttempt, VideoWatch, ScenarioDecision, Badge, CourseProgress } from '../types';
+import type { DataProviderKind } from './config';
+
+// Each action that can be queued, with the body it carries
+export type QueuedCall =
+  | { action: 'save_user'; body: User }
+  | { action: 'log_quiz_attempt'; body: { userId: string; attempt: QuizAttempt } }
+  | { action: 'update_user_progress'; body: User }
+  | { action: 'save_course_progress'; body: { userId: string; courseId: string; progress: CourseProgress | null } }
+  | { action: 'log_assessment_attempt'; body: { userId: string; attempt: AssessmentAttempt } }
+  | { action: 'log_video_watch'; body: { userId: string; watch: VideoWatch } }
+  | { action: 'log_scenario_decision'; body: { userId: string; decision: ScenarioDecision } }
+  | { action: 'log_review_attempt'; body: { userId: string; attempt: QuizAttempt } }
+  | { action: 'delete_user'; body: { id: string } }
+  | { action: 'unlock_user'; body: { id: string } }
+  | { action: 'save_course'; body: Course }
+  | { action: 'publish_course'; body: { courseId: string; fromVersion?: number } }
+  | { action: 'archive_course'; body: { courseId: string; archived: boolean } }
+  | { action: 'save_template'; body: CourseTemplate }
+  | { action: 'delete_template'; body: { id: string } }
+  | { action: 'save_badge'; body: Badge };
+
+export type QueuedAction = QueuedCall['action'];
+
+export type QueuedBody<A extends QueuedAction> = Extract<QueuedCall, { action: A }>['body'];
+
+export type NewWrite = QueuedCall & {
+  requestId: string;     // Sent as X-Request-Id so the server applies a replay at most once
+  targetUserId?: string;
+  queuedBy: string;      // Only replayed under this user's session
+  dataSource: DataProviderKind; // Only replayed to the provider it was made against
+  dedupeKey: string;
+  createdAt: number;
+};
+
+export type QueuedWrite = NewWrite & {
+  seq?: number;          // IndexedDB key; preserves the order writes were made in
+};
+
+type Listener = (pending: number) => void;
+
+const DB_NAME = 'mahsa-microlearn';
+const DB_VERSION = 1;
+const STORE = 'pending_writes';
+
+const listeners = new Set<Listener>();
+
+// Used when IndexedDB is unavailable (e.g. some private browsing modes): not durable, but nothing is dropped mid-session
+let memoryQueue: QueuedWrite[] = [];
+let memorySeq = 0;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("IndexedDB unavailable, queueing writes in memory", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one IndexedDB transaction and resolves with the last request's result once it commits
+const runTransaction = <T>(db: IDBDatabase, mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest | void): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    let result: T;
+    const request = work(tx.objectStore(STORE));
+    if (request) request.onsuccess = () => { result = request.result as T; };
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Whether `write` repeats the last write its user still has waiting
+const isRepeat = (pending: QueuedWrite[], write: NewWrite) => {
+  const latest = pending.filter(w => w.queuedBy === write.queuedBy).pop();
+  return latest?.dedupeKey === write.dedupeKey;
+};
+
+const notify = async () => {
+  const pending = await offlineQueue.count();
+  listeners.forEach(listener => listener(pending));
+};
+
+export const offlineQueue = {
+  /**
+   * Persists a write. Resolves to false when the same user's latest pending write is
+   * identical, so double taps and retried handlers don't send it twice. Only the latest
+   * one counts: publish, edit, publish again must replay both publishes.
+   */
+  enqueue: async (write: NewWrite): Promise<boolean> => {
+    const db = await openDb();
+    let added = false;
+
+    if (!db) {
+      if (!isRepeat(memoryQueue, write)) {
+        memoryQueue.push({ ...write, seq: ++memorySeq });
+        added = true;
+      }
+    } else {
+      // Read and add in one transaction so two quick writes can't both pass the duplicate check
+      await runTransaction(db, 'readwrite', store => {
+        const existing = store.getAll();
+        existing.onsuccess = () => {
+          // getAll returns writes in key order, oldest first
+          if (!isRepeat(existing.result as QueuedWrite[], write)) {
+            store.add(write);
+            added = true;
+          }
+        };
+      });
+    }
+
+    await notify();
+    return added;
+  },
+
+  // All pending writes, oldest first
+  getAll: async (): Promise<QueuedWrite[]> => {
+    const db = await openDb();
+    if (!db) return [...memoryQueue];
+    const writes = await runTransaction<QueuedWrite[]>(db, 'readonly', store => store.getAll());
+    return writes.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+  },
+
+  remove: async (seq: number) => {
+    const db = await openDb();
+    if (!db) {
+      memoryQueue = memoryQueue.filter(w => w.seq !== seq);
+    } else {
+      await runTransaction(db, 'readwrite', store => store.delete(seq));
+    }
+    await notify();
+  },
+
+  count: async (): Promise<number> => {
+    const db = await openDb();
+    if (!db) return memoryQueue.length;
+    return runTransaction<number>(db, 'readonly', store => store.count());
+  },
+
+  // Called with the pending count now and after every change. Returns an unsubscribe function.
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    offlineQueue.count().then(listener).catch(e => console.error("Failed to read write queue", e));
+    return () => { listeners.delete(listener); };
+  },
+};
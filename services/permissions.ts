@@ -0,0 +1,109 @@
+import { Role, User } from '../types';
+
+export type ApiAction =
+  | 'ping'
+  | 'login'
+  | 'logout'
+  | 'get_users'
+  | 'get_courses'
+  | 'save_user'
+  | 'log_quiz_attempt'
+  | 'update_user_progress'
+  | 'delete_user'
+  | 'unlock_user'
+  | 'issue_reset_code'
+  | 'reset_pin'
+  | 'get_pin_resets'
+  | 'save_course'
+  | 'publish_course'
+  | 'get_course_versions'
+  | 'archive_course'
+  | 'get_templates'
+  | 'save_template'
+  | 'delete_template'
+  | 'get_badges'
+  | 'save_badge'
+  | 'save_course_progress'
+  | 'log_assessment_attempt'
+  | 'log_video_watch'
+  | 'log_scenario_decision'
+  | 'log_review_attempt'
+  | 'upload_media';
+
+// Actions that can be called without a session
+export const PUBLIC_ACTIONS: ApiAction[] = ['ping', 'login', 'reset_pin'];
+
+// Roles allowed to call each action. Keep in sync with $PERMISSIONS in api.php.
+const ACTION_ROLES: Record<ApiAction, Role[]> = {
+  ping: ['Nurse', 'Educator'],
+  login: ['Nurse', 'Educator'],
+  logout: ['Nurse', 'Educator'],
+  get_users: ['Nurse', 'Educator'],
+  get_courses: ['Nurse', 'Educator'],
+  save_user: ['Nurse', 'Educator'],
+  log_quiz_attempt: ['Nurse', 'Educator'],
+  update_user_progress: ['Nurse', 'Educator'],
+  delete_user: ['Educator'],
+  unlock_user: ['Educator'],
+  issue_reset_code: ['Educator'],
+  reset_pin: ['Nurse', 'Educator'],
+  get_pin_resets: ['Educator'],
+  save_course: ['Educator'],
+  publish_course: ['Educator'],
+  get_course_versions: ['Educator'],
+  archive_course: ['Educator'],
+  get_templates: ['Educator'],
+  save_template: ['Educator'],
+  delete_template: ['Educator'],
+  get_badges: ['Nurse', 'Educator'],
+  save_badge: ['Educator'],
+  save_course_progress: ['Nurse', 'Educator'],
+  log_assessment_attempt: ['Nurse', 'Educator'],
+  log_video_watch: ['Nurse', 'Educator'],
+  log_scenario_decision: ['Nurse', 'Educator'],
+  log_review_attempt: ['Nurse', 'Educator'],
+  upload_media: ['Educator'],
+};
+
+// Non-educators may only call these against their own record
+const SELF_SERVICE_ACTIONS: ApiAction[] = ['save_user', 'log_quiz_attempt', 'update_user_progress', 'save_course_progress', 'log_assessment_attempt', 'log_video_watch', 'log_scenario_decision', 'log_review_attempt'];
+
+// Human-readable phrasing used in permission errors
+export const ACTION_DESCRIPTIONS: Record<ApiAction, string> = {
+  ping: 'check the connection',
+  login: 'sign in',
+  logout: 'sign out',
+  get_users: 'view staff',
+  get_courses: 'view courses',
+  save_user: 'edit staff accounts',
+  log_quiz_attempt: 'record quiz answers',
+  update_user_progress: 'change training progress',
+  delete_user: 'remove staff',
+  unlock_user: 'unlock staff accounts',
+  issue_reset_code: 'issue PIN reset codes',
+  reset_pin: 'reset a PIN',
+  get_pin_resets: 'view the PIN reset log',
+  save_course: 'create or edit courses',
+  publish_course: 'publish courses',
+  get_course_versions: 'view course version history',
+  archive_course: 'archive or restore courses',
+  get_templates: 'view course templates',
+  save_template: 'save course templates',
+  delete_template: 'delete course templates',
+  get_badges: 'view badges',
+  save_badge: 'create, edit or retire badges',
+  save_course_progress: 'save course progress',
+  log_assessment_attempt: 'submit assessments',
+  log_video_watch: 'record video watch time',
+  log_scenario_decision: 'record scenario choices',
+  log_review_attempt: 'record review answers',
+  upload_media: 'upload course files',
+};
+
+export const canPerform = (caller: User, action: ApiAction, targetUserId?: string): boolean => {
+  if (!ACTION_ROLES[action].includes(caller.role)) return false;
+  if (caller.role !== 'Educator' && SELF_SERVICE_ACTIONS.includes(action)) {
+    return targetUserId === caller.id;
+  }
+  return true;
+};
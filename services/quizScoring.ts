@@ -0,0 +1,181 @@
+import { QuizData, QuizResponse, QuestionKind, Slide } from '../types';
+
+export const questionKind = (quiz: QuizData): QuestionKind => quiz.kind ?? 'single';
+
+export const QUESTION_KIND_LABELS: Record<QuestionKind, string> = {
+  single: 'Single Choice',
+  multi: 'Select All',
+  true_false: 'True / False',
+  ordering: 'Ordering',
+  fill_in: 'Fill In',
+  hotspot: 'Image Hotspot',
+};
+
+// Slides that ask questions, score them and earn XP only when answered right
+export const isQuestionSlide = (slide: Slide) => slide.type === 'quiz' || slide.type === 'hotspot';
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const sameSet = (a: number[], b: number[]) =>
+  a.length === b.length && a.every(i => b.includes(i));
+
+// Region under a tap, or -1. Regions drawn later sit on top, so they win where two overlap.
+export const regionAt = (quiz: QuizData, x: number, y: number): number => {
+  const regions = quiz.regions || [];
+  for (let i = regions.length - 1; i >= 0; i--) {
+    const r = regions[i];
+    if (x >= r.x && x <= r.x + r.width && y >= r.y && y <= r.y + r.height) return i;
+  }
+  return -1;
+};
+
+export const isCorrectResponse = (quiz: QuizData, response: QuizResponse): boolean => {
+  switch (response.kind) {
+    case 'single':
+    case 'true_false':
+      return response.selectedIndex === quiz.correctIndex;
+    case 'multi':
+      return sameSet(response.selectedIndices, quiz.correctIndices || []);
+    case 'ordering':
+      return response.order.length === quiz.options.length && response.order.every((optionIdx, position) => optionIdx === position);
+    case 'fill_in':
+      return (quiz.acceptedAnswers || []).some(a => normalize(a) === normalize(response.text));
+    case 'hotspot':
+      return (quiz.correctIndices || []).includes(regionAt(quiz, response.x, response.y));
+  }
+};
+
+// Readable form of an answer, as stored in `QuizAttempt.selectedOption`
+export const describeResponse = (quiz: QuizData, response: QuizResponse): string => {
+  switch (response.kind) {
+    case 'single':
+    case 'true_false':
+      return quiz.options[response.selectedIndex] ?? '';
+    case 'multi':
+      return [...response.selectedIndices].sort((a, b) => a - b).map(i => quiz.options[i]).join('; ');
+    case 'ordering':
+      return response.order.map(i => quiz.options[i]).join(' > ');
+    case 'fill_in':
+      return response.text.trim();
+    case 'hotspot': {
+      const region = regionAt(quiz, response.x, response.y);
+      return region >= 0 ? quiz.options[region] : 'Outside every region';
+    }
+  }
+};
+
+// Readable form of the expected answer, shown after a wrong attempt
+export const describeCorrectAnswer = (quiz: QuizData): string => {
+  switch (questionKind(quiz)) {
+    case 'multi':
+    case 'hotspot': return (quiz.correctIndices || []).map(i => quiz.options[i]).join('; ');
+    case 'ordering': return quiz.options.join(' > ');
+    case 'fill_in': return (quiz.acceptedAnswers || [])[0] ?? '';
+    default: return quiz.options[quiz.correctIndex] ?? '';
+  }
+};
+
+/**
+ * Explanations to show after an answer: the rationale of each option the learner picked
+ * (and, for select-all, each correct option they missed), then the general rationale.
+ */
+export const rationalesFor = (quiz: QuizData, response: QuizResponse): string[] => {
+  const optionRationale = (i: number) => quiz.optionRationales?.[i]?.trim()
+    ? `${quiz.options[i]}: ${quiz.optionRationales[i].trim()}`
+    : null;
+
+  let relevant: number[] = [];
+  if (response.kind === 'single' || response.kind === 'true_false') {
+    relevant = [response.selectedIndex];
+  } else if (response.kind === 'multi') {
+    const missed = (quiz.correctIndices || []).filter(i => !response.selectedIndices.includes(i));
+    relevant = [...response.selectedIndices, ...missed];
+  } else if (response.kind === 'hotspot') {
+    relevant = [regionAt(quiz, response.x, response.y)].filter(i => i >= 0);
+  }
+
+  const lines = relevant.map(optionRationale).filter((line): line is string => line !== null);
+  if (quiz.rationale?.trim()) lines.push(quiz.rationale.trim());
+  return lines;
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Starting order for an ordering question: shuffled, and never already correct
+export const shuffledOrder = (count: number): number[] => {
+  const identity = Array.from({ length: count }, (_, i) => i);
+  if (count < 2) return identity;
+  let order: number[];
+  do {
+    order = shuffle(identity);
+  } while (order.every((optionIdx, position) => optionIdx === position));
+  return order;
+};
+
+// Every question a quiz slide can ask; index 0 is `quizData`
+export const questionPool = (slide: Slide): QuizData[] =>
+  slide.quizData ? [slide.quizData, ...(slide.quizVariants || [])] : [];
+
+// One question as a learner sees it
+export interface ServedQuestion {
+  variant: number; // Index into questionPool
+  optionOrder: number[]; // Authored option indices in display order
+  quiz: QuizData; // Options already in display order, answers re-pointed to match
+}
+
+// True/false keeps its fixed order; ordering is scrambled by the player; fill-in has no options; hotspot regions stay put
+const shufflesOptions = (quiz: QuizData) => {
+  const kind = questionKind(quiz);
+  return kind === 'single' || kind === 'multi';
+};
+
+const serve = (quiz: QuizData, variant: number): ServedQuestion => {
+  const identity = quiz.options.map((_, i) => i);
+  const optionOrder = shufflesOptions(quiz) ? shuffle(identity) : identity;
+  const displayIndex = (authored: number) => optionOrder.indexOf(authored);
+  return {
+    variant,
+    optionOrder,
+    quiz: {
+      ...quiz,
+      options: optionOrder.map(i => quiz.options[i]),
+      optionRationales: quiz.optionRationales && optionOrder.map(i => quiz.optionRationales![i] ?? ''),
+      correctIndex: displayIndex(quiz.correctIndex),
+      correctIndices: quiz.correctIndices?.map(displayIndex),
+    },
+  };
+};
+
+// Draws the slide's questions for one attempt, each with freshly shuffled options
+export const drawQuestions = (slide: Slide): ServedQuestion[] => {
+  const pool = questionPool(slide);
+  const count = Math.min(Math.max(slide.drawCount ?? 1, 1), pool.length);
+  return shuffle(pool.map((quiz, variant) => ({ quiz, variant })))
+    .slice(0, count)
+    .map(({ quiz, variant }) => serve(quiz, variant));
+};
+
+// Maps an answer on a served question back to authored option indices, so reports compare like with like
+export const toAuthoredResponse = (response: QuizResponse, optionOrder: number[]): QuizResponse => {
+  switch (response.kind) {
+    case 'single':
+    case 'true_false':
+      return { ...response, selectedIndex: optionOrder[response.selectedIndex] };
+    case 'multi':
+      return { ...response, selectedIndices: response.selectedIndices.map(i => optionOrder[i]).sort((a, b) => a - b) };
+    case 'ordering':
+      return { ...response, order: response.order.map(i => optionOrder[i]) };
+    case 'fill_in':
+    case 'hotspot':
+      return response;
+  }
+};
@@ -0,0 +1,185 @@
+import { User, Course, CourseVersion, CourseTemplate, QuizAttempt, AssessmentAttempt, VideoWatch, ScenarioDecision, Session, PinResetCode, PinResetRecord, Badge, CourseProgress } from '../types';
+import { DataProvider, WriteOptions } from './dataProvider';
+import { ApiAction, ACTION_DESCRIPTIONS } from './permissions';
+import { ApiError, ApiErrorCode, ApiResult } from './api';
+
+// Transient failures are retried this many times, waiting 0.5s, 1s, 2s... in between
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+// What api.php answers with when something went wrong. Note it may arrive with HTTP 200.
+interface ErrorBody {
+  error: string;
+  code?: string;
+  retryAt?: number;
+  attemptsRemaining?: number;
+}
+
+const ERROR_CODES: ApiErrorCode[] = ['unauthenticated', 'forbidden', 'throttled', 'locked', 'invalid', 'server', 'network'];
+
+const isErrorBody = (data: unknown): data is ErrorBody =>
+  typeof data === 'object' && data !== null && typeof (data as ErrorBody).error === 'string';
+
+// HTTP status decides when the body doesn't name the error
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 401) return 'unauthenticated';
+  if (status === 403) return 'forbidden';
+  if (status === 429) return 'throttled';
+  if (status === 400) return 'invalid';
+  if (status >= 500) return 'network';
+  return 'server';
+};
+
+const fallbackMessages: Partial<Record<ApiErrorCode, string>> = {
+  throttled: 'Too many attempts. Please wait before trying again.',
+  invalid: 'The request was rejected.',
+  network: 'Could not reach the server. Please check your connection.',
+};
+
+/**
+ * Turns a response into a typed result. Failures are recognised by status code
+ * and by an `error` field in the body, whatever the status.
+ */
+async function decodeResponse<T>(action: ApiAction, response: Response, role: string): Promise<ApiResult<T>> {
+  const data: unknown = await response.json().catch(() => undefined);
+
+  if (response.ok && data !== undefined && !isErrorBody(data)) {
+    return { ok: true, data: data as T };
+  }
+
+  const body: Partial<ErrorBody> = isErrorBody(data) ? data : {};
+  const code = ERROR_CODES.includes(body.code as ApiErrorCode) ? body.code as ApiErrorCode : codeForStatus(response.status);
+  const message = body.error
+    || (code === 'unauthenticated' || code === 'forbidden'
+      ? `A ${role} account is not allowed to ${ACTION_DESCRIPTIONS[action]}.`
+      : fallbackMessages[code] || `API Error: ${response.statusText || 'unreadable response'}`);
+
+  return {
+    ok: false,
+    error: new ApiError(code, message, action, { attemptsRemaining: body.attemptsRemaining, retryAt: body.retryAt })
+  };
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface RequestOptions {
+  body?: any;
+  file?: Blob; // Sent as the raw request body instead of JSON
+  requestId?: string;
+  retry?: boolean; // Only for requests that are safe to send twice
+}
+
+/**
+ * Talks to the PHP backend (see README). `baseUrl` is where your IT team hosts api.php.
+ */
+export const createRestProvider = (baseUrl: string, getSession: () => Session | null): DataProvider => {
+  // Sends one request and decodes the answer; a dropped connection becomes a `network` error
+  async function send<T>(action: ApiAction, method: 'GET' | 'POST', { body, file, requestId }: RequestOptions): Promise<ApiResult<T>> {
+    const session = getSession();
+    const headers: Record<string, string> = {
+      'Content-Type': file ? file.type : 'application/json',
+    };
+    if (session) {
+      headers['Authorization'] = `Bearer ${session.token}`;
+    }
+    if (requestId) {
+      headers['X-Request-Id'] = requestId;
+    }
+
+    const options: RequestInit = {
+      method,
+      headers,
+    };
+
+    if (file) {
+      options.body = file;
+    } else if (body) {
+      options.body = JSON.stringify(body);
+    }
+
+    // Append action to URL
+    const url = `${baseUrl}?action=${action}`;
+
+    try {
+      const response = await fetch(url, options);
+      return decodeResponse<T>(action, response, session?.user.role ?? 'signed-out');
+    } catch {
+      return { ok: false, error: new ApiError('network', fallbackMessages.network!, action) };
+    }
+  }
+
+  // Helper to handle API requests, retrying transient failures with exponential backoff
+  async function request<T>(action: ApiAction, method: 'GET' | 'POST', options: RequestOptions = {}): Promise<T> {
+    const attempts = options.retry ? RETRY_ATTEMPTS : 1;
+    let result = await send<T>(action, method, options);
+
+    for (let attempt = 1; !result.ok && result.error.code === 'network' && attempt < attempts; attempt++) {
+      await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      result = await send<T>(action, method, options);
+    }
+
+    if (!result.ok) {
+      console.error(`Request failed for action: ${action}`, result.error);
+      throw result.error;
+    }
+    return result.data;
+  }
+
+  // Writes are only retried when they carry an idempotency key, since the server then applies them once
+  const write = (action: ApiAction, body: any, options?: WriteOptions) =>
+    request<void>(action, 'POST', { body, requestId: options?.requestId, retry: !!options?.requestId });
+
+  return {
+    kind: 'rest',
+
+    // Not retried: startup should fall back quickly when the backend is down
+    ping: () => request<void>('ping', 'GET'),
+    login: (id: string, pin: string) => request<Session>('login', 'POST', { body: { id, pin } }),
+    logout: () => request<void>('logout', 'POST'),
+
+    getUsers: () => request<User[]>('get_users', 'GET', { retry: true }),
+    getCourses: () => request<Course[]>('get_courses', 'GET', { retry: true }),
+
+    saveUser: (user: User, options?: WriteOptions) => write('save_user', user, options),
+    logQuizAttempt: (userId: string, attempt: QuizAttempt, options?: WriteOptions) =>
+      write('log_quiz_attempt', { userId, attempt }, options),
+    updateUserProgress: (user: User, options?: WriteOptions) => write('update_user_progress', user, options),
+    saveCourseProgress: (userId: string, courseId: string, progress: CourseProgress | null, options?: WriteOptions) =>
+      write('save_course_progress', { userId, courseId, progress }, options),
+    logAssessmentAttempt: (userId: string, attempt: AssessmentAttempt, options?: WriteOptions) =>
+      write('log_assessment_attempt', { userId, attempt }, options),
+    logVideoWatch: (userId: string, watch: VideoWatch, options?: WriteOptions) =>
+      write('log_video_watch', { userId, watch }, options),
+    logScenarioDecision: (userId: string, decision: ScenarioDecision, options?: WriteOptions) =>
+      write('log_scenario_decision', { userId, decision }, options),
+    logReviewAttempt: (userId: string, attempt: QuizAttempt, options?: WriteOptions) =>
+      write('log_review_attempt', { userId, attempt }, options),
+    deleteUser: (userId: string, options?: WriteOptions) => write('delete_user', { id: userId }, options),
+    unlockUser: (userId: string, options?: WriteOptions) => write('unlock_user', { id: userId }, options),
+
+    issueResetCode: (userId: string) => request<PinResetCode>('issue_reset_code', 'POST', { body: { id: userId } }),
+    resetPin: (id: string, code: string, pin: string) => request<void>('reset_pin', 'POST', { body: { id, code, pin } }),
+    getPinResets: (userId: string) => request<PinResetRecord[]>('get_pin_resets', 'POST', { body: { id: userId }, retry: true }),
+
+    saveCourse: (course: Course, options?: WriteOptions) => write('save_course', course, options),
+    publishCourse: (courseId: string, fromVersion?: number, options?: WriteOptions) =>
+      write('publish_course', { courseId, fromVersion }, options),
+    getCourseVersions: (courseId: string) =>
+      request<CourseVersion[]>('get_course_versions', 'POST', { body: { courseId }, retry: true }),
+    archiveCourse: (courseId: string, archived: boolean, options?: WriteOptions) =>
+      write('archive_course', { courseId, archived }, options),
+
+    getTemplates: () => request<CourseTemplate[]>('get_templates', 'GET', { retry: true }),
+    saveTemplate: (template: CourseTemplate, options?: WriteOptions) => write('save_template', template, options),
+    deleteTemplate: (templateId: string, options?: WriteOptions) => write('delete_template', { id: templateId }, options),
+
+    getBadges: () => request<Badge[]>('get_badges', 'GET', { retry: true }),
+    saveBadge: (badge: Badge, options?: WriteOptions) => write('save_badge', badge, options),
+
+    // Not retried: a second upload of a large file would only store it twice
+    uploadMedia: async (file: Blob) => {
+      const { id } = await request<{ id: string }>('upload_media', 'POST', { file });
+      return `${baseUrl}?action=get_media&id=${encodeURIComponent(id)}`;
+    },
+  };
+};
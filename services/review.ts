@@ -0,0 +1,106 @@
+import { Course, QuizAttempt, QuizData, Slide, User } from '../types';
+import { isQuestionSlide, questionPool } from './quizScoring';
+import { currentVersion } from './courseVersions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days until a question is due again, by how many times in a row it has been recalled
+const INTERVAL_DAYS = [1, 2, 4, 8, 16, 32];
+
+// A right answer this soon after a wrong one is a retry, not recall, so it doesn't lengthen the interval
+const RETRY_WINDOW_MS = 10 * 60 * 1000;
+
+// Questions asked per review session
+export const REVIEW_SESSION_SIZE = 5;
+
+export const REVIEW_COURSE_ID = 'review';
+
+// One question from a course's pool, with where it stands in the schedule
+export interface ReviewItem {
+  key: string;
+  courseId: string;
+  courseVersion?: number; // Version of the course as it is now, which the question is asked from
+  slide: Slide; // The course slide it comes from
+  variant: number; // Index into the slide's question pool
+  quiz: QuizData;
+  recalled: number; // Right answers in a row
+  lastCorrect: boolean;
+  lastAnsweredAt: number;
+  dueAt: number;
+}
+
+const itemKey = (courseId: string, slideId: string, variant: number) => `${courseId}:${slideId}:${variant}`;
+
+const intervalMs = (recalled: number) => INTERVAL_DAYS[Math.min(recalled, INTERVAL_DAYS.length - 1)] * DAY_MS;
+
+/**
+ * Every question the user has answered, in courses or in review, with its next due time.
+ * Each right answer roughly doubles the wait; a wrong one brings the question back the next day.
+ * Questions whose slide or pool entry has since been removed are left out.
+ */
+export const reviewSchedule = (user: User, courses: Course[]): ReviewItem[] => {
+  const history = [...(user.quizAttempts || []), ...(user.reviewAttempts || [])].sort((a, b) => a.timestamp - b.timestamp);
+  const standing = new Map<string, { attempt: QuizAttempt; recalled: number }>();
+
+  history.forEach(attempt => {
+    const key = itemKey(attempt.courseId, attempt.slideId, attempt.variant ?? 0);
+    const previous = standing.get(key);
+    const isRetry = !!previous && !previous.attempt.isCorrect && attempt.timestamp - previous.attempt.timestamp < RETRY_WINDOW_MS;
+    const recalled = !attempt.isCorrect ? 0 : isRetry ? 0 : (previous?.recalled ?? 0) + 1;
+    standing.set(key, { attempt, recalled });
+  });
+
+  return Array.from(standing.entries()).flatMap(([key, { attempt, recalled }]) => {
+    const course = courses.find(c => c.id === attempt.courseId);
+    const slide = course?.slides.find(s => s.id === attempt.slideId && isQuestionSlide(s));
+    const quiz = slide && questionPool(slide)[attempt.variant ?? 0];
+    if (!slide || !quiz) return [];
+    return [{
+      key,
+      courseId: attempt.courseId,
+      courseVersion: course && currentVersion(course),
+      slide,
+      variant: attempt.variant ?? 0,
+      quiz,
+      recalled,
+      lastCorrect: attempt.isCorrect,
+      lastAnsweredAt: attempt.timestamp,
+      dueAt: attempt.timestamp + intervalMs(recalled),
+    }];
+  });
+};
+
+/**
+ * The questions to ask now: those due, missed ones first, then the longest overdue
+ * for their interval, so questions not seen in a while come up before recent ones.
+ */
+export const nextReviewSession = (user: User, courses: Course[], now: number): ReviewItem[] => {
+  const overdue = (item: ReviewItem) => (now - item.dueAt) / intervalMs(item.recalled);
+  return reviewSchedule(user, courses)
+    .filter(item => item.dueAt <= now)
+    .sort((a, b) => Number(a.lastCorrect) - Number(b.lastCorrect) || overdue(b) - overdue(a))
+    .slice(0, REVIEW_SESSION_SIZE);
+};
+
+// Plays a review session through the normal course player, one slide per question
+export const buildReviewCourse = (items: ReviewItem[]): Course => ({
+  id: REVIEW_COURSE_ID,
+  title: 'Review',
+  category: 'Review',
+  xpReward: 0,
+  durationMinutes: items.length,
+  slides: items.map(item => ({
+    id: item.key,
+    type: item.slide.type,
+    title: item.slide.title,
+    content: '',
+    image: item.slide.image,
+    quizData: item.quiz,
+  })),
+});
+
+// Points an answer given in review back at the question's own course, slide and pool entry
+export const toReviewAttempt = (answer: Omit<QuizAttempt, 'timestamp'>, items: ReviewItem[]): Omit<QuizAttempt, 'timestamp'> => {
+  const item = items.find(i => i.key === answer.slideId);
+  return item ? { ...answer, courseId: item.courseId, courseVersion: item.courseVersion, slideId: item.slide.id, variant: item.variant } : answer;
+};
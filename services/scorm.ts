@@ -0,0 +1,367 @@
+import { CourseContent, Slide, User } from '../types';
+import { readZip, crc32 } from './zip';
+import { MEDIA_PREFIX, PackageReport } from './coursePackage';
+import { MAX_MEDIA_BYTES } from './media';
+import { loadConfig } from './config';
+
+/**
+ * SCORM slides: a SCORM 1.2 package (a .zip from an authoring tool or another LMS)
+ * played inside a course. Packages run in a host page (scorm-host.html) on the SCORM
+ * content origin, apart from the app, so their scripts can't reach the session or data.
+ * Without a separate origin configured, SCORM slides don't play at all.
+ * The host unpacks the package into Cache Storage, where /scorm-sw.js serves it from
+ * /scorm-content/, stands in for the LMS by offering the SCORM 1.2 API the package
+ * looks for in its parent window, and passes the results to the app by postMessage.
+ */
+
+// The page an exported or imported package starts on, as found in its manifest
+export interface ScormManifest {
+  title: string;
+  launch: string; // Path inside the package, with any launch parameters
+}
+
+const attr = (el: Element, localName: string) =>
+  Array.from(el.attributes).find(a => a.localName.toLowerCase() === localName)?.value;
+
+const children = (el: Element, localName: string) =>
+  Array.from(el.children).filter(c => c.localName === localName);
+
+const joinPath = (...parts: (string | undefined)[]) =>
+  parts.filter(Boolean).join('').replace(/^\.\//, '').replace(/\/\.\//g, '/');
+
+/**
+ * Finds the one lesson (SCO) a package launches. Only simple packages are accepted:
+ * SCORM 1.2 with a single SCO. Throws with a message for the educator otherwise.
+ */
+export const readScormManifest = (files: Map<string, Uint8Array>): ScormManifest => {
+  if (files.has('cmi5.xml')) throw new Error('This is a cmi5 package. Only SCORM 1.2 packages can be played here.');
+  const source = files.get('imsmanifest.xml');
+  if (!source) throw new Error('This zip has no imsmanifest.xml at its top level, so it is not a SCORM package.');
+
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(source), 'application/xml');
+  const manifest = doc.documentElement;
+  if (manifest.localName !== 'manifest' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The package manifest (imsmanifest.xml) is unreadable.');
+  }
+
+  const schemaVersion = manifest.getElementsByTagNameNS('*', 'schemaversion')[0]?.textContent?.trim() ?? '';
+  if (/2004|CAM 1\.3/i.test(schemaVersion)) {
+    throw new Error(`This is a SCORM 2004 package (${schemaVersion}). Re-export it from the authoring tool as SCORM 1.2.`);
+  }
+
+  const organizations = manifest.getElementsByTagNameNS('*', 'organizations')[0];
+  const orgs = organizations ? children(organizations, 'organization') : [];
+  const defaultOrg = organizations && attr(organizations, 'default');
+  const org = orgs.find(o => attr(o, 'identifier') === defaultOrg) ?? orgs[0];
+  const resourcesEl = manifest.getElementsByTagNameNS('*', 'resources')[0];
+  const resources = resourcesEl ? children(resourcesEl, 'resource') : [];
+
+  const items = org ? Array.from(org.getElementsByTagNameNS('*', 'item')).filter(i => attr(i, 'identifierref')) : [];
+  const launchable = items
+    .map(item => ({ item, resource: resources.find(r => attr(r, 'identifier') === attr(item, 'identifierref')) }))
+    .filter(({ resource }) => resource && attr(resource, 'href'));
+  const scos = launchable.filter(({ resource }) => attr(resource!, 'scormtype')?.toLowerCase() === 'sco');
+
+  if (scos.length > 1) {
+    throw new Error(`This package has ${scos.length} lessons (SCOs). Only single-lesson packages can be played here.`);
+  }
+  const chosen = scos[0] ?? launchable[0];
+  if (!chosen) throw new Error('The package manifest does not name a page to launch.');
+
+  const { item, resource } = chosen;
+  const href = joinPath(attr(resourcesEl!, 'base'), attr(resource!, 'base'), attr(resource!, 'href'));
+  const parameters = attr(item, 'parameters') ?? '';
+  const file = decodeURIComponent(href.split(/[?#]/)[0]);
+  if (!files.has(file)) throw new Error(`The package launches ${file}, which is missing from the zip.`);
+
+  const title = (children(item, 'title')[0] ?? (org && children(org, 'title')[0]))?.textContent?.trim();
+  return {
+    title: title || 'SCORM lesson',
+    launch: parameters ? `${href}${href.includes('?') ? '&' : '?'}${parameters.replace(/^[?&]/, '')}` : href,
+  };
+};
+
+/**
+ * Checks a SCORM zip the educator picked and reads what its slide needs. The zip is
+ * then uploaded like other media (see media.ts), and the slide keeps only its URL.
+ */
+export const readScormFile = async (file: File): Promise<{ title: string; scormLaunch: string; zip: Blob }> => {
+  if (file.size > MAX_MEDIA_BYTES) {
+    throw new Error(`The package is ${Math.ceil(file.size / 1024 / 1024)} MB; the limit is ${MAX_MEDIA_BYTES / 1024 / 1024} MB. Host larger packages and link to them.`);
+  }
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(await file.arrayBuffer());
+  } catch {
+    throw new Error('This file is not a readable zip.');
+  }
+  const manifest = readScormManifest(files);
+  // Typed here, as some systems give zips another type or none
+  return { title: manifest.title, scormLaunch: manifest.launch, zip: new Blob([file], { type: 'application/zip' }) };
+};
+
+// A SCORM zip picked in the dashboard's Import becomes a one-slide course, opened in the builder once the zip is uploaded
+export const readScormImport = async (file: File): Promise<PackageReport> => {
+  try {
+    const { title, scormLaunch, zip } = await readScormFile(file);
+    const content: CourseContent = {
+      title,
+      category: '',
+      slides: [{ id: `s-${Date.now()}-1`, type: 'scorm', title, content: `${MEDIA_PREFIX}package`, scormLaunch }],
+      durationMinutes: 2,
+      xpReward: 50,
+    };
+    return { content, files: { package: zip }, errors: [], warnings: ['Pick a category, and add intro or quiz slides around the package if you like, before saving.'] };
+  } catch (e) {
+    return { content: null, files: {}, errors: [e instanceof Error ? e.message : 'The package could not be read.'], warnings: [] };
+  }
+};
+
+const CACHE_NAME = 'scorm-packages';
+const CONTENT_ROOT = '/scorm-content/';
+
+const MIME_TYPES: Record<string, string> = {
+  html: 'text/html', htm: 'text/html', js: 'text/javascript', css: 'text/css', json: 'application/json',
+  xml: 'application/xml', xsd: 'application/xml', txt: 'text/plain', vtt: 'text/vtt',
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', svg: 'image/svg+xml', webp: 'image/webp',
+  mp4: 'video/mp4', webm: 'video/webm', mp3: 'audio/mpeg', wav: 'audio/wav', ogg: 'audio/ogg',
+  pdf: 'application/pdf', woff: 'font/woff', woff2: 'font/woff2', ttf: 'font/ttf',
+};
+
+const mimeType = (path: string) => MIME_TYPES[path.split('.').pop()!.toLowerCase()] ?? 'application/octet-stream';
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+let workerReady: Promise<void> | null = null;
+
+// `navigator.serviceWorker.ready` only covers workers that control the host page itself, which this one doesn't
+const activated = (registration: ServiceWorkerRegistration) => new Promise<void>(resolve => {
+  const worker = registration.installing ?? registration.waiting;
+  if (!worker) return resolve();
+  worker.addEventListener('statechange', () => {
+    if (worker.state === 'activated') resolve();
+  });
+});
+
+/**
+ * Where scorm-host.html is served, or null when no separate content origin is set up:
+ * packages are never played on the app's own origin, where they could reach the session.
+ */
+export const scormHostUrl = (): string | null => {
+  let origin: string;
+  try {
+    origin = new URL(loadConfig().scormContentOrigin).origin;
+  } catch {
+    return null; // Unset or not a URL
+  }
+  return origin === 'null' || origin === window.location.origin ? null : `${origin}/scorm-host.html`;
+};
+
+// Downloaded by the app, which can reach the backend, and handed to the host page
+export const downloadScorm = async (slide: Slide): Promise<ArrayBuffer> => {
+  const response = await fetch(slide.content);
+  if (!response.ok) throw new Error(`The package could not be downloaded (HTTP ${response.status}).`);
+  return response.arrayBuffer();
+};
+
+/**
+ * Unpacks a package in the host page (once per package contents) and returns the URL
+ * to open in its frame. Needs service workers, so it must be served over HTTPS or from localhost.
+ */
+export const unpackScorm = async (zip: ArrayBuffer, scormLaunch: string): Promise<string> => {
+  if (!('serviceWorker' in navigator) || !('caches' in window)) {
+    throw new Error('This browser cannot play SCORM packages here (it needs HTTPS and a recent browser).');
+  }
+  workerReady ??= navigator.serviceWorker.register('/scorm-sw.js', { scope: CONTENT_ROOT })
+    .then(activated);
+  await workerReady;
+
+  const base = `${CONTENT_ROOT}${crc32(new Uint8Array(zip)).toString(16)}-${zip.byteLength}/`;
+  // Resolved as the browser will, so nothing lands in (or opens from) another package's folder
+  const inPackage = (path: string) => {
+    const url = new URL(`${base}${encodePath(path)}`, window.location.origin);
+    if (!url.pathname.startsWith(base)) throw new Error(`The package refers to ${path}, which is outside it.`);
+    return url.pathname;
+  };
+  const launch = `${inPackage(decodeURIComponent(scormLaunch.split(/[?#]/)[0]))}${scormLaunch.match(/[?#].*$/)?.[0] ?? ''}`;
+
+  const cache = await caches.open(CACHE_NAME);
+  if (!(await cache.match(launch, { ignoreSearch: true }))) {
+    const files = await readZip(zip);
+    const entries = Array.from(files, ([path, data]) => ({ url: inPackage(path), path, data }));
+    await Promise.all(entries.map(({ url, path, data }) =>
+      cache.put(url, new Response(data as BodyInit, { headers: { 'Content-Type': mimeType(path) } }))));
+  }
+  return launch;
+};
+
+export type ScormLessonStatus = 'passed' | 'completed' | 'failed' | 'incomplete' | 'browsed' | 'not attempted';
+
+const LESSON_STATUSES: ScormLessonStatus[] = ['passed', 'completed', 'failed', 'incomplete', 'browsed', 'not attempted'];
+
+// The package has done what it asks of the learner
+export const isScormDone = (status: ScormLessonStatus) => status === 'passed' || status === 'completed';
+
+// What the package has reported so far
+export interface ScormResult {
+  lessonStatus: ScormLessonStatus;
+  scoreRaw?: number;
+}
+
+// Only what a host page could really have reported is passed on
+export const isScormResult = (value: unknown): value is ScormResult => {
+  const result = value as ScormResult;
+  return typeof result === 'object' && result !== null && LESSON_STATUSES.includes(result.lessonStatus)
+    && (result.scoreRaw === undefined || typeof result.scoreRaw === 'number');
+};
+
+// What ScormPlayer and the host page on the content origin say to each other
+export type ScormHostMessage =
+  | { type: 'scorm-host-ready' } // Host → app, once loaded
+  | { type: 'scorm-launch'; zip: ArrayBuffer; scormLaunch: string; learner?: Pick<User, 'id' | 'name'> } // App → host
+  | { type: 'scorm-started' } // Host → app, the package is opening
+  | { type: 'scorm-result'; result: ScormResult } // Host → app, on each commit and at the end
+  | { type: 'scorm-error'; message: string }; // Host → app
+
+// The SCORM 1.2 run-time API, as packages find it on `window.API`
+export interface Scorm12Api {
+  LMSInitialize: (param: string) => string;
+  LMSFinish: (param: string) => string;
+  LMSGetValue: (element: string) => string;
+  LMSSetValue: (element: string, value: string) => string;
+  LMSCommit: (param: string) => string;
+  LMSGetLastError: () => string;
+  LMSGetErrorString: (code: string) => string;
+  LMSGetDiagnostic: (code: string) => string;
+}
+
+declare global {
+  interface Window {
+    // Where SCORM 1.2 packages look for their LMS, from their own frame upwards
+    API?: Scorm12Api;
+  }
+}
+
+const ERROR_STRINGS: Record<string, string> = {
+  '0': 'No error',
+  '101': 'General exception',
+  '201': 'Invalid argument error',
+  '202': 'Element cannot have children',
+  '203': 'Element not an array - cannot have count',
+  '301': 'Not initialized',
+  '401': 'Not implemented error',
+  '402': 'Invalid set value, element is a keyword',
+  '403': 'Element is read only',
+  '404': 'Element is write only',
+  '405': 'Incorrect data type',
+};
+
+const READ_ONLY = ['cmi.core._children', 'cmi.core.student_id', 'cmi.core.student_name', 'cmi.core.credit', 'cmi.core.entry',
+  'cmi.core.total_time', 'cmi.core.lesson_mode', 'cmi.core.score._children', 'cmi.launch_data', 'cmi.comments_from_lms'];
+const WRITE_ONLY = ['cmi.core.exit', 'cmi.core.session_time'];
+const READ_WRITE = ['cmi.core.lesson_location', 'cmi.core.lesson_status', 'cmi.core.score.raw', 'cmi.core.score.min',
+  'cmi.core.score.max', 'cmi.suspend_data', 'cmi.comments'];
+// Collections packages commonly write; kept for the session but not reported anywhere
+const COLLECTIONS = /^cmi\.(interactions|objectives)\.(\d+)\./;
+
+const isScore = (value: string) => value === '' || (/^-?\d+(\.\d+)?$/.test(value) && +value >= 0 && +value <= 100);
+
+/**
+ * Stands in for an LMS for one play of a package: the data model lives for the visit,
+ * and each commit (and LMSFinish) reports the status and score through `onResult`.
+ * Follows the SCORM 1.2 RTE rules for call order, read/write access and error codes.
+ */
+export const createScormApi = (learner: Pick<User, 'id' | 'name'> | undefined, onResult: (result: ScormResult) => void): Scorm12Api => {
+  const values: Record<string, string> = {
+    'cmi.core._children': 'student_id,student_name,lesson_location,credit,lesson_status,entry,score,total_time,lesson_mode,exit,session_time',
+    'cmi.core.score._children': 'raw,min,max',
+    'cmi.core.student_id': learner?.id ?? '',
+    'cmi.core.student_name': learner?.name ?? '',
+    'cmi.core.credit': 'credit',
+    'cmi.core.entry': 'ab-initio',
+    'cmi.core.total_time': '0000:00:00',
+    'cmi.core.lesson_mode': 'normal',
+    'cmi.core.lesson_status': 'not attempted',
+    'cmi.core.lesson_location': '',
+    'cmi.core.score.raw': '',
+    'cmi.core.score.min': '',
+    'cmi.core.score.max': '',
+    'cmi.suspend_data': '',
+    'cmi.launch_data': '',
+    'cmi.comments': '',
+    'cmi.comments_from_lms': '',
+  };
+  let state: 'new' | 'running' | 'finished' = 'new';
+  let statusSet = false;
+  let lastError = '0';
+
+  const done = (error: string, result: string) => {
+    lastError = error;
+    return result;
+  };
+
+  const report = () => onResult({
+    lessonStatus: values['cmi.core.lesson_status'] as ScormLessonStatus,
+    scoreRaw: values['cmi.core.score.raw'] === '' ? undefined : +values['cmi.core.score.raw'],
+  });
+
+  const countOf = (collection: string) => new Set(Object.keys(values)
+    .map(k => k.match(COLLECTIONS))
+    .filter(m => m && m[1] === collection)
+    .map(m => m![2])).size;
+
+  return {
+    LMSInitialize: (param) => {
+      if (param !== '') return done('201', 'false');
+      if (state !== 'new') return done('101', 'false');
+      state = 'running';
+      return done('0', 'true');
+    },
+    LMSFinish: (param) => {
+      if (param !== '') return done('201', 'false');
+      if (state !== 'running') return done('301', 'false');
+      // RTE 1.2: a package that never set a status is taken to have completed
+      if (!statusSet) values['cmi.core.lesson_status'] = 'completed';
+      state = 'finished';
+      report();
+      return done('0', 'true');
+    },
+    LMSGetValue: (element) => {
+      if (state !== 'running') return done('301', '');
+      const count = element.match(/^cmi\.(interactions|objectives)\._count$/);
+      if (count) return done('0', String(countOf(count[1])));
+      if (WRITE_ONLY.includes(element)) return done('404', '');
+      if (element in values && !COLLECTIONS.test(element)) return done('0', values[element]);
+      if (/\._children$/.test(element)) return done('202', '');
+      return done('401', '');
+    },
+    LMSSetValue: (element, value) => {
+      if (state !== 'running') return done('301', 'false');
+      value = String(value);
+      if (/\._(children|count)$/.test(element)) return done('402', 'false');
+      if (READ_ONLY.includes(element)) return done('403', 'false');
+      if (COLLECTIONS.test(element)) {
+        values[element] = value;
+        return done('0', 'true');
+      }
+      if (!READ_WRITE.includes(element) && !WRITE_ONLY.includes(element)) return done('401', 'false');
+      if (element === 'cmi.core.lesson_status') {
+        if (!LESSON_STATUSES.includes(value as ScormLessonStatus) || value === 'not attempted') return done('405', 'false');
+        statusSet = true;
+      }
+      if (element.startsWith('cmi.core.score.') && !isScore(value)) return done('405', 'false');
+      if (element === 'cmi.suspend_data' && value.length > 4096) return done('405', 'false');
+      values[element] = value;
+      return done('0', 'true');
+    },
+    LMSCommit: (param) => {
+      if (param !== '') return done('201', 'false');
+      if (state !== 'running') return done('301', 'false');
+      report();
+      return done('0', 'true');
+    },
+    LMSGetLastError: () => lastError,
+    LMSGetErrorString: (code) => ERROR_STRINGS[code] ?? '',
+    LMSGetDiagnostic: (code) => ERROR_STRINGS[code || lastError] ?? '',
+  };
+};
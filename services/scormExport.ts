@@ -0,0 +1,194 @@
+import { Course, Slide } from '../types';
+import { Block, Inline, parseMarkdown } from './markdown';
+import { buildPackage, decodeDataUri } from './coursePackage';
+import { MEDIA_TYPES } from './media';
+import { createZip, textFile, ZipEntry } from './zip';
+
+/**
+ * Exports a course for a corporate LMS, as a SCORM 1.2 or cmi5 zip. The package plays
+ * the course with a small stand-alone player (public/scorm/runtime.js), which follows
+ * CoursePlayer's rules and reports completion and score to whichever LMS launches it.
+ * Media is bundled the same way as in a course package (see coursePackage.ts).
+ */
+export type ScormStandard = 'scorm12' | 'cmi5';
+
+export const SCORM_STANDARD_LABELS: Record<ScormStandard, string> = {
+  scorm12: 'SCORM 1.2',
+  cmi5: 'cmi5',
+};
+
+// A slide as the exported player gets it: media points into the zip, Markdown is already HTML
+type RuntimeSlide = Slide & { html?: string };
+
+// What course.js hands the exported player
+interface RuntimeCourse {
+  title: string;
+  standard: ScormStandard;
+  passPercent?: number; // Graded courses only
+  slides: RuntimeSlide[];
+}
+
+const RUNTIME_FILES = ['runtime.js', 'runtime.css'];
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const inlineHtml = (nodes: Inline[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text': return escapeHtml(node.text);
+    case 'strong': return `<strong>${inlineHtml(node.children)}</strong>`;
+    case 'em': return `<em>${inlineHtml(node.children)}</em>`;
+    case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+    case 'link': return `<a href="${escapeHtml(node.href)}" target="_blank" rel="noopener noreferrer">${inlineHtml(node.children)}</a>`;
+  }
+}).join('');
+
+// The same dialect MarkdownContent renders, written out as HTML; every piece of text is escaped
+const blockHtml = (block: Block): string => {
+  switch (block.type) {
+    case 'heading': return `<h${block.level + 2}>${inlineHtml(block.children)}</h${block.level + 2}>`;
+    case 'paragraph': return `<p>${block.lines.map(inlineHtml).join('<br>')}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map(item => `<li>${inlineHtml(item)}</li>`).join('')}</${tag}>`;
+    }
+    case 'table': return `<table><thead><tr>${block.header.map(c => `<th>${inlineHtml(c)}</th>`).join('')}</tr></thead>`
+      + `<tbody>${block.rows.map(row => `<tr>${row.map(c => `<td>${inlineHtml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    case 'callout': return `<div class="callout">${block.lines.map(inlineHtml).join('<br>')}</div>`;
+  }
+};
+
+export const markdownToHtml = (source: string): string => parseMarkdown(source).map(blockHtml).join('\n');
+
+// XML names can't start with a digit and allow few characters, so course IDs are tidied for the manifest
+const xmlId = (id: string) => `mahsa-${id.replace(/[^A-Za-z0-9_.-]/g, '-')}`;
+
+const scorm12Manifest = (course: Course, files: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${xmlId(course.id)}" version="${course.version ?? 1}"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="org-1">
+    <organization identifier="org-1">
+      <title>${escapeHtml(course.title)}</title>
+      <item identifier="item-1" identifierref="sco-1" isvisible="true">
+        <title>${escapeHtml(course.title)}</title>${course.assessment ? `
+        <adlcp:masteryscore>${course.assessment.passPercent}</adlcp:masteryscore>` : ''}
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="sco-1" type="webcontent" adlcp:scormtype="sco" href="index.html">
+${files.map(f => `      <file href="${escapeHtml(f)}"/>`).join('\n')}
+    </resource>
+  </resources>
+</manifest>
+`;
+
+// cmi5 identifies the course and its one lesson (AU) by IRI; these are stable per course and campus
+const cmi5Structure = (course: Course) => {
+  const iri = `${window.location.origin}/courses/${encodeURIComponent(course.id)}`;
+  const text = (value: string) => `<langstring lang="en-US">${escapeHtml(value)}</langstring>`;
+  const description = `${course.category}, ${course.slides.length} slides`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<courseStructure xmlns="https://w3id.org/xapi/profiles/cmi5/v1/CourseStructure.xsd">
+  <course id="${escapeHtml(iri)}">
+    <title>${text(course.title)}</title>
+    <description>${text(description)}</description>
+  </course>
+  <au id="${escapeHtml(iri)}/au" moveOn="${course.assessment ? 'Passed' : 'Completed'}"${course.assessment ? ` masteryScore="${course.assessment.passPercent / 100}"` : ''} launchMethod="AnyWindow">
+    <title>${text(course.title)}</title>
+    <description>${text(description)}</description>
+    <url>index.html</url>
+  </au>
+</courseStructure>
+`;
+};
+
+const indexHtml = (title: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" href="runtime.css">
+</head>
+<body>
+  <div id="app"></div>
+  <script src="course.js"></script>
+  <script src="runtime.js"></script>
+</body>
+</html>
+`;
+
+export const scormFileName = (title: string, standard: ScormStandard) =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'course'}-${standard}.zip`;
+
+/**
+ * Builds the LMS package for what nurses currently get of the course. Things the
+ * exported player can't do the same way are listed in `warnings`, along with media
+ * that stays a link.
+ */
+export const buildScormPackage = async (course: Course, standard: ScormStandard): Promise<{ blob: Blob; warnings: string[] }> => {
+  const { pkg, warnings } = await buildPackage(course);
+
+  const runtime = await Promise.all(RUNTIME_FILES.map(async name => {
+    const response = await fetch(`/scorm/${name}`);
+    if (!response.ok) throw new Error(`The SCORM player (/scorm/${name}) could not be loaded.`);
+    return textFile(name, await response.text());
+  }));
+
+  // Written once per bundled file, and only for files an exported slide uses
+  const mediaFiles: ZipEntry[] = [];
+  const mediaPaths = new Map<string, string>();
+  const mediaPath = (reference: string) => {
+    const key = reference.slice('media:'.length);
+    if (!mediaPaths.has(key)) {
+      const { data, type } = decodeDataUri(pkg.media[key].dataUri);
+      mediaPaths.set(key, `media/${key}.${MEDIA_TYPES[type] ?? 'bin'}`);
+      mediaFiles.push({ path: mediaPaths.get(key)!, data });
+    }
+    return mediaPaths.get(key)!;
+  };
+
+  const slides: RuntimeSlide[] = [];
+  pkg.course.slides.forEach(slide => {
+    const name = `Slide #${pkg.course.slides.indexOf(slide) + 1} "${slide.title}"`;
+    if (slide.type === 'scorm') {
+      warnings.push(`${name} is itself a SCORM package and is left out; learners skip to the slide after it.`);
+      return;
+    }
+    if (slide.requireLastPage) warnings.push(`${name}: the LMS version can't check the document was read to the end.`);
+    const exported: RuntimeSlide = { ...slide };
+    (['image', 'content', 'captionsUrl'] as const).forEach(field => {
+      const value = slide[field];
+      if (value?.startsWith('media:')) exported[field] = mediaPath(value);
+    });
+    if (slide.contentFormat === 'markdown') exported.html = markdownToHtml(slide.content);
+    slides.push(exported);
+  });
+  if (course.assessment?.maxAttempts) warnings.push('The attempt limit is not exported; set it in the LMS.');
+
+  const runtimeCourse: RuntimeCourse = {
+    title: pkg.course.title,
+    standard,
+    passPercent: pkg.course.assessment?.passPercent,
+    slides,
+  };
+  const files: ZipEntry[] = [
+    textFile('index.html', indexHtml(runtimeCourse.title)),
+    textFile('course.js', `window.MAHSA_COURSE = ${JSON.stringify(runtimeCourse)};\n`),
+    ...runtime,
+    ...mediaFiles,
+  ];
+  const manifest = standard === 'scorm12'
+    ? textFile('imsmanifest.xml', scorm12Manifest(course, files.map(f => f.path)))
+    : textFile('cmi5.xml', cmi5Structure(course));
+
+  return { blob: createZip([manifest, ...files]), warnings };
+};
@@ -0,0 +1,50 @@
+import { User } from '../types';
+
+export interface StreakRules {
+  timeZone: string;     // IANA zone of the hospital; "a day" is a calendar day there
+  dayStartHour: number; // Activity before this local hour counts for the previous day, so a night shift is one day
+  graceDays: number;    // Missed days forgiven before a streak resets
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar day (YYYY-MM-DD) a timestamp falls on at the hospital
+export const streakDay = (timestamp: number, rules: StreakRules): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: rules.timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(new Date(timestamp - rules.dayStartHour * 60 * 60 * 1000));
+
+const dayNumber = (day: string) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / DAY_MS;
+};
+
+// Days between the last active day and `today` that break the streak, after leave (freeze) is excused
+const unexcusedMissedDays = (user: User, today: string): number => {
+  if (!user.lastActiveDay) return 0;
+  const from = dayNumber(user.lastActiveDay) + 1;
+  const to = dayNumber(today) - 1;
+  if (to < from) return 0;
+  const frozenTo = user.streakFrozenUntil ? Math.min(dayNumber(user.streakFrozenUntil), to) : from - 1;
+  return (to - from + 1) - Math.max(0, frozenTo - from + 1);
+};
+
+/**
+ * Streak as it stands right now. The stored value is only updated on activity,
+ * so a streak that has since lapsed reads as 0. Streaks from before activity days
+ * were recorded have no `lastActiveDay` and are kept as stored.
+ */
+export const currentStreak = (user: User, now: number, rules: StreakRules): number => {
+  if (!user.lastActiveDay) return user.streak;
+  return unexcusedMissedDays(user, streakDay(now, rules)) > rules.graceDays ? 0 : user.streak;
+};
+
+/**
+ * Records learning activity at `timestamp`. The first activity of a day extends the streak,
+ * or restarts it at 1 after too many missed days. Returns the same object when nothing changed.
+ */
+export const recordStreakActivity = (user: User, timestamp: number, rules: StreakRules): User => {
+  const today = streakDay(timestamp, rules);
+  if (user.lastActiveDay === today) return user;
+
+  return { ...user, streak: currentStreak(user, timestamp, rules) + 1, lastActiveDay: today };
+};
@@ -0,0 +1,11 @@
+// Self-hosted files, and videos bundled in an imported course package, play in a <video> element;
+// anything else (YouTube embeds) goes in an iframe
+const NATIVE_VIDEO = /\.(mp4|webm)(\?|#|$)|^data:video\//i;
+
+export const isNativeVideo = (url: string) => NATIVE_VIDEO.test(url.trim());
+
+// Only web pages go in the embed iframe; a `javascript:` or `data:` URL there would run in the app's origin
+export const isEmbeddableUrl = (url: string) => /^https?:\/\//i.test(url.trim());
+
+export const watchedPercent = (watchedSeconds: number, durationSeconds: number): number =>
+  durationSeconds > 0 ? Math.min(100, Math.floor((watchedSeconds / durationSeconds) * 100)) : 0;
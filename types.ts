@@ -1,40 +1,162 @@
 export type Role = 'Nurse' | 'Educator';
 
+export type QuestionKind = 'single' | 'multi' | 'true_false' | 'ordering' | 'fill_in' | 'hotspot';
+
+// What the learner answered, by question kind. Indices refer to `QuizData.options`.
+export type QuizResponse =
+  | { kind: 'single' | 'true_false'; selectedIndex: number }
+  | { kind: 'multi'; selectedIndices: number[] }
+  | { kind: 'ordering'; order: number[] } // Option indices in the order the learner placed them
+  | { kind: 'fill_in'; text: string }
+  | { kind: 'hotspot'; x: number; y: number }; // Where the learner tapped, in percent of the image's width and height
+
 export interface QuizAttempt {
   courseId: string;
   slideId: string;
   question: string;
-  selectedOption: string;
+  selectedOption: string; // Readable summary of the answer, for reports
+  response?: QuizResponse; // Structured answer, in authored option indices; absent on attempts logged before question kinds existed
+  variant?: number; // Which question of the slide's pool was served: 0 is quizData, 1+ are quizVariants
+  optionOrder?: number[]; // Authored option indices in the order they were shown
+  rationaleShown?: string; // Explanation the learner saw in the feedback panel, one line per point
+  courseVersion?: number; // Published version of the course the question came from
   isCorrect: boolean;
   timestamp: number;
 }
 
+// One graded run of a course. It is logged unfinished as the run starts, so closing part-way
+// still uses up the attempt, and replaced by the result on submission.
+export interface AssessmentAttempt {
+  courseId: string;
+  scorePercent: number; // Share of questions answered correctly, 0-100
+  passed: boolean;
+  courseVersion?: number;
+  startedAt?: number; // Identifies the run; absent for attempts logged before runs were reserved
+  unfinished?: boolean; // Started and not submitted (yet)
+  timestamp: number;
+}
+
+// When a user finished a course, and which published version it was
+export interface CourseCompletion {
+  courseId: string;
+  courseVersion?: number; // Absent for completions recorded before courses were versioned
+  completedAt: number;
+}
+
+// How much of a self-hosted video one visit to its slide covered
+export interface VideoWatch {
+  courseId: string;
+  slideId: string;
+  watchedSeconds: number; // Distinct seconds played; rewatching a part doesn't add to it
+  durationSeconds: number;
+  timestamp: number;
+}
+
+// One choice made on a branching scenario slide. The choices of one play-through share `runStartedAt`.
+export interface ScenarioDecision {
+  courseId: string;
+  slideId: string;
+  choiceIndex: number;
+  choice: string; // Label of the choice, as shown at the time
+  runStartedAt: number;
+  timestamp: number;
+}
+
+// Where a learner left an unfinished course
+export interface CourseProgress {
+  courseId: string;
+  slideIndex: number; // Slide to resume on; the slides before it are done
+  sessionXp: number; // XP earned so far in this run
+  failedSlideIds: string[]; // Quiz slides answered wrongly at least once (they earn no XP)
+  courseVersion?: number; // Version the run started on; a newer publish restarts it
+  updatedAt: number;
+}
+
 export interface User {
   id: string;
-  pin: string;
+  pin?: string; // Write-only: sent when setting a new PIN, never returned by the API
   name: string;
   role: Role;
   avatar: string;
   xp: number;
   streak: number;
+  lastActiveDay?: string; // YYYY-MM-DD (hospital time) of the last learning activity
+  streakFrozenUntil?: string; // YYYY-MM-DD; missed days up to and including it don't break the streak (leave)
   badges: string[]; // Array of Badge IDs
   completedCourses: string[]; // Array of course IDs
-  quizAttempts?: QuizAttempt[]; // History of all quiz answers
+  completions?: CourseCompletion[]; // Same courses, with the version each was completed on
+  quizAttempts?: QuizAttempt[]; // History of all quiz answers given in courses
+  reviewAttempts?: QuizAttempt[]; // Answers given in spaced-repetition review, kept apart from course analytics
+  assessmentAttempts?: AssessmentAttempt[]; // Graded course submissions, passed or not
+  videoWatches?: VideoWatch[]; // One per visit to a self-hosted video slide
+  scenarioDecisions?: ScenarioDecision[]; // Choices made on branching scenario slides
+  courseProgress?: CourseProgress[]; // Unfinished courses; only sent for the caller's own record (and to educators)
+  lockedUntil?: number; // Set (for educators only) while too many failed logins have locked the account
+}
+
+// What a learner must do to earn a badge
+export type BadgeRule =
+  | { kind: 'courses_completed'; count: number }
+  | { kind: 'xp_reached'; xp: number }
+  | { kind: 'perfect_score' } // Full XP on a course
+  | { kind: 'category_completed'; category: string } // Every course in the category
+  | { kind: 'first_try_correct'; count: number } // Questions answered correctly on the first attempt
+  | { kind: 'streak_days'; days: number };
+
+export interface Badge {
+  id: string;
+  name: string;
+  icon: string; // Emoji
+  description: string;
+  rule: BadgeRule;
+  retired?: boolean; // No longer awarded; learners who earned it keep it
 }
 
-export type SlideType = 'intro' | 'video' | 'quiz' | 'summary';
+export type SlideType = 'intro' | 'video' | 'quiz' | 'summary' | 'document' | 'hotspot' | 'scenario' | 'scorm';
 
 export interface Slide {
   id: string;
   type: SlideType;
   title: string;
-  content: string; // Description or Video URL
-  image?: string;
-  quizData?: {
-    question: string;
-    options: string[];
-    correctIndex: number;
-  };
+  content: string; // Description, Video URL, PDF URL or SCORM package (.zip) URL; for a scenario, the situation
+  contentFormat?: 'plain' | 'markdown'; // Intro, summary and scenario text; absent means plain
+  image?: string; // Hotspot: the picture the learner taps
+  captionsUrl?: string; // WebVTT captions for a self-hosted video
+  minWatchPercent?: number; // Self-hosted video: share to watch before Continue is enabled
+  requireLastPage?: boolean; // Document: Continue stays disabled until the last page is reached
+  scormLaunch?: string; // SCORM: the page inside the package that starts it, as its manifest says
+  quizData?: QuizData;
+  quizVariants?: QuizData[]; // Further questions for this slot, drawn from together with quizData
+  drawCount?: number; // Questions asked per attempt, from the pool; defaults to 1
+  choices?: ScenarioChoice[]; // Scenario: what the learner can do next
+  nextSlideId?: string; // Play this slide next instead of the following one; END_OF_COURSE finishes the course
+}
+
+// One option on a scenario slide and where it leads
+export interface ScenarioChoice {
+  label: string;
+  consequence?: string; // Shown once chosen, before moving on
+  nextSlideId?: string; // Absent for the following slide; END_OF_COURSE finishes the course
+}
+
+export interface QuizData {
+  kind?: QuestionKind; // Absent on older slides, which are all 'single'
+  question: string;
+  options: string[]; // Choices; for 'ordering', the steps in their correct order; for 'hotspot', region labels; unused for 'fill_in'
+  correctIndex: number; // 'single' and 'true_false'
+  correctIndices?: number[]; // 'multi': every option that must be selected; 'hotspot': the regions that count as a correct tap
+  regions?: HotspotRegion[]; // 'hotspot': where each region sits on the slide image, parallel to `options`
+  acceptedAnswers?: string[]; // 'fill_in': matched ignoring case and extra spaces
+  optionRationales?: string[]; // Why each option is right or wrong, parallel to `options`
+  rationale?: string; // General explanation, shown after every answer
+}
+
+// Rectangle on a hotspot image, in percent of its width and height so it scales with the picture
+export interface HotspotRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface Course {
@@ -45,9 +167,73 @@ export interface Course {
   xpReward: number;
   durationMinutes: number;
   timestamp?: number;
+  assessment?: AssessmentSettings; // Graded mode; absent for ordinary practice courses
+  status?: CourseStatus; // Absent on courses created before drafts existed, which count as published
+  version?: number; // Published version nurses are given; 1 when absent on a published course
+  draft?: CourseContent; // Unpublished edits to a published course, kept out of nurses' sight
+  archivedAt?: number; // Retired: hidden from nurses and compliance; its records are kept
+}
+
+export type CourseStatus = 'draft' | 'published';
+
+// The parts of a course an educator edits and publishes
+export type CourseContent = Pick<Course, 'title' | 'category' | 'slides' | 'xpReward' | 'durationMinutes' | 'assessment'>;
+
+// A starting point for a new course: one of the built-in outlines, or a course an educator saved
+export interface CourseTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  content: CourseContent;
+  createdBy?: string; // User ID of the educator; absent on built-in templates
+  createdAt?: number;
+}
+
+// One published version of a course; never changed once written
+export interface CourseVersion {
+  courseId: string;
+  version: number;
+  content: CourseContent;
+  publishedAt: number;
+  publishedBy: string; // User ID of the educator
+}
+
+// Graded mode: answers get no feedback, and the course only completes on a pass
+export interface AssessmentSettings {
+  passPercent: number;
+  maxAttempts?: number; // Unlimited when absent
+}
+
+export interface Session {
+  token: string;
+  expiresAt: number;
+  user: User;
+}
+
+// Shown once to the educator who issued it; only a hash is stored
+export interface PinResetCode {
+  code: string;
+  expiresAt: number;
+}
+
+// Audit entry for one issued reset code (and the reset, if it was used)
+export interface PinResetRecord {
+  userId: string;
+  issuedBy: string;
+  issuedAt: number;
+  expiresAt: number;
+  usedAt: number | null;
+}
+
+// A Staff ID that must wait before the next login attempt
+export interface LoginLockout {
+  staffId: string;
+  status: 'throttled' | 'locked';
+  retryAt: number;
 }
 
 export interface AuthState {
   isAuthenticated: boolean;
   currentUser: User | null;
+  token: string | null;
 }
\ No newline at end of file
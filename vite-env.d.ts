@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_PROVIDER?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_FALLBACK_PROVIDER?: string;
+  readonly VITE_SCORM_CONTENT_ORIGIN?: string;
+  readonly VITE_HOSPITAL_TIMEZONE?: string;
+  readonly VITE_STREAK_DAY_START_HOUR?: string;
+  readonly VITE_STREAK_GRACE_DAYS?: string;
+}
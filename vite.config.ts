@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react';
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
-});
\ No newline at end of file
+  build: {
+    rollupOptions: {
+      // scorm-host.html is the page SCORM packages play in, on the SCORM content origin
+      input: ['index.html', 'scorm-host.html'],
+    },
+  },
+});